@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+if (!process.env.JWT_SECRET && process.env.NODE_ENV === 'production') {
+  throw new Error('JWT_SECRET environment variable is required in production');
+}
+
+// JWT Configuration
+export const AUTH_CONFIG = {
+  jwtSecret: process.env.JWT_SECRET || 'your-secret-key',
+  jwtAlgorithm: 'HS256' as const,
+  accessTokenExpiresIn: '15m',
+  refreshTokenTtlDays: 30,
+  refreshTokenReuseGraceSeconds: 30, // How long a just-rotated refresh token still gets the token that replaced it
+  sessionLastUsedThrottleSeconds: 60, // A session's lastUsedAt is refreshed on requests at most this often
+  passwordResetTtlMinutes: 60,
+  emailVerificationTtlHours: 24,
+  verificationResendCooldownSeconds: 60,
+  bcryptSaltRounds: 12,
+  accountDeletionGraceDays: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30'),
+  accountPurgeIntervalMinutes: 60
+};
+
+export default AUTH_CONFIG;
@@ -21,13 +21,10 @@ export const textract = new AWS.Textract({
   apiVersion: '2018-06-27'
 });
 
-// S3 Configuration
+// S3 Configuration (upload limits live in config/storage.ts)
 export const S3_CONFIG = {
   bucket: process.env.S3_BUCKET_NAME || '',
-  region: process.env.AWS_REGION || 'us-east-1',
-  maxFileSize: 10 * 1024 * 1024, // 10MB
-  allowedTypes: ['image/jpeg', 'image/png', 'image/jpg', 'image/webp'],
-  keyPrefix: 'receipts/'
+  region: process.env.AWS_REGION || 'us-east-1'
 };
 
 // Validate AWS configuration
@@ -0,0 +1,18 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config();
+
+export const EXCHANGE_RATE_SOURCE_TYPES = ['file'] as const;
+export type ExchangeRateSourceType = typeof EXCHANGE_RATE_SOURCE_TYPES[number];
+
+// Currency Configuration
+export const CURRENCY_CONFIG = {
+  defaultCurrency: (process.env.DEFAULT_CURRENCY || 'USD').toUpperCase(), // For receipts with no detectable currency and new users
+  rateSource: (process.env.EXCHANGE_RATE_SOURCE || 'file') as ExchangeRateSourceType,
+  file: {
+    path: process.env.EXCHANGE_RATE_FILE || path.join(process.cwd(), 'data', 'exchange-rates.json')
+  }
+};
+
+export default CURRENCY_CONFIG;
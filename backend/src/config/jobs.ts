@@ -0,0 +1,17 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Background Job Configuration
+export const JOB_CONFIG = {
+  pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000'),
+  concurrency: parseInt(process.env.JOB_CONCURRENCY || '2'), // Jobs this process runs at once
+  maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'),
+  backoffBaseMs: 5000, // Retry after 5s, 10s, 20s...
+  backoffMaxMs: 5 * 60 * 1000,
+  lockTimeoutMs: 10 * 60 * 1000, // A running job with a lock older than this is assumed crashed and picked up again
+  lockRenewIntervalMs: 60 * 1000, // How often a running job renews its lock, well inside lockTimeoutMs
+  retentionDays: 7 // How long finished jobs are kept for status lookups
+};
+
+export default JOB_CONFIG;
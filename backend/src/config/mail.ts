@@ -0,0 +1,23 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config();
+
+export type MailTransportType = 'console' | 'file' | 'smtp';
+
+// Mail Configuration
+export const MAIL_CONFIG = {
+  transport: (process.env.MAIL_TRANSPORT || 'console') as MailTransportType,
+  from: process.env.MAIL_FROM || 'SplitBite <no-reply@splitbite.app>',
+  appUrl: process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`, // Base URL used in email links
+  outboxDir: process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox'), // Used by the file transport
+  smtp: {
+    host: process.env.SMTP_HOST || '',
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || '',
+    pass: process.env.SMTP_PASS || ''
+  }
+};
+
+export default MAIL_CONFIG;
@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config();
+
+export const OCR_PROVIDER_TYPES = ['textract', 'tesseract', 'fixture'] as const;
+export type OcrProviderType = typeof OCR_PROVIDER_TYPES[number];
+// Providers users can choose when reprocessing - fixture replays recorded OCR output and is only for tests
+export const SELECTABLE_OCR_PROVIDER_TYPES: readonly OcrProviderType[] = ['textract', 'tesseract'];
+
+// OCR Configuration
+export const OCR_CONFIG = {
+  provider: (process.env.OCR_PROVIDER || 'textract') as OcrProviderType,
+  tesseract: {
+    language: process.env.TESSERACT_LANG || 'eng',
+    langPath: process.env.TESSERACT_LANG_PATH || undefined // Folder with *.traineddata for fully offline use
+  },
+  fixture: {
+    dir: process.env.OCR_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'ocr'),
+    file: process.env.OCR_FIXTURE_FILE || undefined // Always replay this fixture instead of matching by image hash
+  }
+};
+
+export default OCR_CONFIG;
@@ -0,0 +1,26 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export const RECEIPT_PARSER_TYPES = ['openai', 'local', 'mock'] as const;
+export type ReceiptParserType = typeof RECEIPT_PARSER_TYPES[number];
+
+// Receipt Parser (LLM) Configuration
+export const PARSER_CONFIG = {
+  provider: (process.env.RECEIPT_PARSER || 'openai') as ReceiptParserType,
+  maxRepairAttempts: parseInt(process.env.RECEIPT_PARSER_REPAIR_ATTEMPTS || '1'), // Extra requests when the output fails validation
+  temperature: 0.1, // Low temperature for consistent parsing
+  maxTokens: 2000,
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY || '',
+    model: process.env.OPENAI_MODEL || 'gpt-4o-mini'
+  },
+  local: {
+    baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1', // Any OpenAI-compatible server (Ollama, llama.cpp, vLLM...)
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    jsonMode: process.env.LOCAL_LLM_JSON_MODE !== 'false' // Disable for servers without response_format support
+  }
+};
+
+export default PARSER_CONFIG;
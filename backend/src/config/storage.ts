@@ -0,0 +1,23 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config();
+
+export type StorageDriverType = 's3' | 'local';
+
+// Storage Configuration (shared by every driver)
+export const STORAGE_CONFIG = {
+  driver: (process.env.STORAGE_DRIVER || 's3') as StorageDriverType,
+  maxFileSize: 10 * 1024 * 1024, // 10MB
+  allowedTypes: ['image/jpeg', 'image/png', 'image/jpg', 'image/webp'],
+  keyPrefix: 'receipts/',
+  signedUrlExpiresIn: 3600, // 1 hour
+  local: {
+    rootDir: process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'uploads'),
+    baseUrl: process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`, // Signed URLs point back at this server
+    routePath: '/api/files',
+    signingSecret: process.env.LOCAL_STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'your-secret-key'
+  }
+};
+
+export default STORAGE_CONFIG;
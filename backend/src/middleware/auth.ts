@@ -0,0 +1,90 @@
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { AUTH_CONFIG } from '../config/auth';
+import { AccessTokenPayload, SessionService } from '../services/sessionService';
+
+// Extend Request interface to include userId
+declare global {
+  namespace Express {
+    interface Request {
+      userId?: string;
+      sessionId?: string;
+    }
+  }
+}
+
+/**
+ * Middleware to validate the Bearer token, check its session hasn't been revoked,
+ * and attach the user and session IDs to the request
+ */
+export const authenticateUser = async (req: Request, res: Response, next: express.NextFunction) => {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({
+      success: false,
+      error: 'User authentication required',
+      message: 'No token provided'
+    });
+  }
+
+  const token = authHeader.slice('Bearer '.length).trim();
+
+  try {
+    const decoded = jwt.verify(token, AUTH_CONFIG.jwtSecret, {
+      algorithms: [AUTH_CONFIG.jwtAlgorithm]
+    }) as Partial<AccessTokenPayload>;
+
+    if (!decoded.userId || !mongoose.Types.ObjectId.isValid(decoded.userId)) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid token',
+        message: 'Token is missing a valid user ID'
+      });
+    }
+
+    if (!decoded.sessionId || !(await SessionService.isSessionActive(decoded.sessionId, decoded.userId))) {
+      return res.status(401).json({
+        success: false,
+        error: 'Session revoked',
+        code: 'SESSION_REVOKED',
+        message: 'This session has been logged out, please log in again'
+      });
+    }
+
+    req.userId = decoded.userId;
+    req.sessionId = decoded.sessionId;
+    next();
+
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({
+        success: false,
+        error: 'Token expired',
+        code: 'TOKEN_EXPIRED',
+        message: 'Access token has expired'
+      });
+    }
+
+    if (!(error instanceof jwt.JsonWebTokenError)) {
+      console.error('Session lookup error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to authenticate request',
+        message: 'Internal server error during authentication'
+      });
+    }
+
+    // Bad signature, malformed token, or token used before its nbf claim
+    console.error('Token verification error:', error instanceof Error ? error.message : error);
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid token',
+      code: 'TOKEN_INVALID',
+      message: 'Invalid token'
+    });
+  }
+};
+
+export default authenticateUser;
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { JOB_CONFIG } from '../config/jobs';
+
+// Interface for a background job (e.g. OCR + parsing for an uploaded receipt)
+export interface IJob extends Document {
+  type: string;
+  payload: Record<string, any>;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number; // Times the job has been started, including the current run
+  maxAttempts: number;
+  runAt: Date; // Not picked up before this time (used for retry backoff)
+  lockedAt?: Date;
+  lockedBy?: string; // Worker that claimed the job
+  lastError?: string;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the schema
+const JobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      required: true
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'failed'],
+      default: 'queued'
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    maxAttempts: {
+      type: Number,
+      default: JOB_CONFIG.maxAttempts,
+      min: 1
+    },
+    runAt: {
+      type: Date,
+      default: Date.now
+    },
+    lockedAt: {
+      type: Date
+    },
+    lockedBy: {
+      type: String
+    },
+    lastError: {
+      type: String
+    },
+    finishedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true,
+    minimize: false
+  }
+);
+
+// Add indexes for better query performance
+JobSchema.index({ status: 1, runAt: 1 });
+JobSchema.index({ 'payload.receiptId': 1, createdAt: -1 });
+JobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: JOB_CONFIG.retentionDays * 24 * 60 * 60 }); // Let MongoDB clean up old jobs
+
+export default mongoose.model<IJob>('Job', JobSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { CURRENCY_CONFIG } from '../config/currency';
 
 // Interface for people in the dining group
 interface IPerson {
@@ -6,16 +7,80 @@ interface IPerson {
   name: string;
   email?: string;
   isRegisteredUser: boolean; // true if they have an account, false if just added for this receipt
+  userId?: mongoose.Types.ObjectId; // The account this person is - always set for the receipt's owner
+}
+
+// Where an item was printed on the receipt image, as fractions (0-1) of the image width and height
+interface ISourceRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Every amount on a receipt is a whole number of minor units of its currency (cents for USD)
+const wholeMinorUnits = {
+  validator: Number.isInteger,
+  message: 'Amounts must be whole minor units of the currency (e.g. cents)'
+};
+
+// Interface for money taken off an item or the whole receipt
+interface IAdjustment {
+  name: string; // As printed, e.g. "Happy Hour" or "10% off coupon"
+  kind: 'discount' | 'coupon' | 'comp';
+  amount: number; // Amount taken off, as a positive number
+}
+
+// Interface for a service charge, fee or auto-gratuity, split separately from the tip
+interface ICharge {
+  name: string; // As printed, e.g. "Service Charge 18%"
+  type: 'service_charge' | 'delivery_fee' | 'bag_fee' | 'auto_gratuity' | 'other_fee';
+  amount: number;
+  distribution: 'proportional' | 'equal' | 'assigned';
+  assignedTo: string[]; // Person IDs, used when distribution is 'assigned'
+}
+
+// Interface for one tax printed on the receipt, e.g. sales tax or liquor tax
+interface ITaxLine {
+  name: string;
+  category: 'standard' | 'alcohol' | 'grocery' | 'exempt'; // Items of this category are taxed by this line
+  rate?: number; // Percent, when printed
+  amount: number;
+}
+
+// Interface for one person's portion of a shared item, e.g. 2 of 5 slices or the 2 in a 2:1 split
+interface IItemShare {
+  personId: string;
+  weight: number; // Relative to the others sharing the item; fractions are allowed
+}
+
+// Interface for the units of a multi-quantity item one person had, e.g. 2 of the 4 beers
+interface IItemUnits {
+  personId: string;
+  count: number;
 }
 
 // Interface for individual receipt items
 interface IReceiptItem {
   name: string;
   quantity: number;
-  price: number;
+  price: number; // Per unit
   assignedTo: string[]; // Array of person IDs
-  sharedBy?: number; // How many people share this item (for equal splitting)
+  shares?: IItemShare[]; // Uneven portions for people in assignedTo; anyone not listed has a weight of 1
+  units?: IItemUnits[]; // When set, the item is split by unit instead of as a whole and assignedTo lists the people with units
   notes?: string; // Optional notes about the item
+  sourceRegion?: ISourceRegion; // From the OCR layer; missing when the item was added by hand
+  confidence?: number; // 0-100, how sure extraction is about this item
+  confidenceReasons?: string[]; // Why the confidence was lowered, shown when flagging the item for review
+  adjustments?: IAdjustment[]; // Discounts printed against this item; price stays the full price
+  taxCategory?: ITaxLine['category']; // Missing means standard
+}
+
+// Interface for one person's target in the percentage and fixed-amount split modes
+interface ISplitTarget {
+  personId: string;
+  percentage?: number; // Percentage mode: share of the bill, all of them adding up to 100
+  amount?: number; // Fixed mode: what this person pays in all; people without one split the rest evenly
 }
 
 // Interface for split calculations
@@ -23,43 +88,154 @@ interface ISplitCalculation {
   personId: string;
   name: string;
   subtotal: number;
+  discountShare: number; // Share of receipt-wide discounts, taken off before tax and tip
   taxShare: number;
   tipShare: number;
+  tipPercentage?: number; // Their own tip rate, when they tip differently from the receipt
+  chargesShare: number;
+  roundingShare: number; // Share of the gap between the calculated and printed total, at most a few minor units
   total: number;
+  paid: number; // What they put towards the bill
+  balance: number; // paid - total: owed back when positive, owing when negative
+  leftoverUnits: number; // Minor units this person picked up when shares didn't divide evenly
+  charges: Array<{
+    name: string;
+    type: ICharge['type'];
+    shareAmount: number;
+  }>;
   items: Array<{
     itemName: string;
     fullPrice: number;
+    discount: number; // Item discounts taken off fullPrice before sharing
     shareAmount: number;
+    leftoverUnits: number; // 1 if this person picked up a leftover minor unit of the item
+    shares: number; // This person's weight on the item (their unit count for items split by unit)
+    totalShares: number; // Weights of everyone sharing the item (the quantity for items split by unit)
+    units?: number; // Set for items split by unit
     sharedWith: string[];
   }>;
 }
 
+// Interface for a re-run of OCR/parsing waiting for the user to review it
+interface IPendingReprocess {
+  status: 'queued' | 'processing' | 'ready' | 'failed';
+  mode: 'full' | 'parse'; // full = OCR + parsing, parse = re-parse the stored OCR text
+  ocrProvider?: string;
+  parser?: string;
+  hint?: string;
+  requestedAt: Date;
+  completedAt?: Date;
+  error?: string;
+  result?: any; // Extracted receipt data, applied only when the user accepts it
+}
+
+// Interface for a likely reason behind a reconciliation mismatch
+interface IReconciliationSuggestion {
+  cause: 'missed_item' | 'quantity_misread' | 'price_misread' | 'duplicate_item' | 'not_an_item' | 'discount'
+    | 'fee_or_service_charge' | 'tip_not_in_total' | 'tax_included' | 'total_not_found' | 'subtotal_not_found';
+  message: string;
+  itemIndex?: number; // The item the suggestion is about, if any
+  amount?: number; // The amount that would close the gap
+}
+
+// Interface for one failed check, e.g. items not adding up to the subtotal
+interface IReconciliationIssue {
+  check: 'items_vs_subtotal' | 'subtotal_vs_total' | 'missing_subtotal' | 'missing_total';
+  expected: number;
+  actual: number;
+  difference: number; // expected - actual
+  message: string;
+  suggestions: IReconciliationSuggestion[];
+}
+
+// Interface for the result of checking that items, subtotal, tax, tip and total add up
+interface IReconciliation {
+  status: 'balanced' | 'mismatch';
+  itemsTotal: number;
+  issues: IReconciliationIssue[];
+  checkedAt: Date;
+  acknowledgedAt?: Date; // The user confirmed the receipt is right as printed
+}
+
+// Interface for one person tipping at their own rate instead of the receipt's
+interface ITipOverride {
+  personId: string;
+  percentage: number; // Of their own share of the tip basis
+}
+
+// Interface for money one person put towards the bill, e.g. the whole bill on their card
+interface IPayer {
+  personId: string;
+  amount: number;
+}
+
 // Interface for the receipt document
 export interface IReceipt extends Document {
   userId: mongoose.Types.ObjectId;
   restaurantName: string;
   restaurantAddress?: string;
   date: Date;
+  currency: string; // ISO 4217 code every amount on the receipt is in
+  amountsInMinorUnits: boolean; // False only for receipts saved before amounts were whole minor units, until migrated
   items: IReceiptItem[];
   people: IPerson[]; // People in the dining group
+  adjustments: IAdjustment[]; // Discounts and coupons on the whole receipt
+  charges: ICharge[]; // Service charges, fees and auto-gratuity
+  taxLines: ITaxLine[]; // Empty for receipts with a single tax amount
   subtotal: number;
-  tax: number;
+  tax: number; // Sum of the tax lines, when there are any
   tip: number;
   total: number;
+  tipPercentage?: number; // Set when the tip was entered as a percentage - tip is then worked out from it
+  tipBasis: 'pre_tax' | 'post_tax'; // What a tip percentage is taken of: the subtotal, or the subtotal plus tax
+  tipOverrides: ITipOverride[]; // People tipping at their own rate, on top of or instead of the receipt's
+  printedTip?: number; // The tip and total as printed, kept once a tip is set in the app
+  printedTotal?: number;
   imageUrl: string;
   s3Key: string;
   s3Bucket: string;
   processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
+  processingStage?: 'queued' | 'downloading' | 'ocr' | 'parsing' | 'saving'; // Where a pending/processing receipt is up to
+  processingError?: string; // Why the last processing attempt failed
+  processingWarnings: string[]; // What the user should check about how the receipt was read, e.g. a currency that couldn't be used
   ocrConfidence?: number;
   rawTextractData?: any; // Store raw OCR data for reference
+  pendingReprocess?: IPendingReprocess;
+  reconciliation?: IReconciliation; // Re-run after parsing and every edit to items or amounts
+  splitMode: 'itemized' | 'equal' | 'percentage' | 'fixed' | 'hybrid'; // hybrid = itemize some, split the unassigned items evenly
+  splitTargets: ISplitTarget[]; // Used by the percentage and fixed modes
+  payers: IPayer[]; // Who paid the bill, to work out who owes whom
   splitCalculations?: ISplitCalculation[]; // Calculated splits
   taxDistribution: 'proportional' | 'equal'; // How to distribute tax
   tipDistribution: 'proportional' | 'equal'; // How to distribute tip
-  isComplete: boolean; // True when all items are assigned
+  isComplete: boolean; // True when all items are assigned and the amounts reconcile (or the user accepted them)
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Shared by item and receipt-wide adjustments
+const AdjustmentSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    kind: {
+      type: String,
+      enum: ['discount', 'coupon', 'comp'],
+      default: 'discount'
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, 'Adjustment amount cannot be negative'],
+      validate: wholeMinorUnits
+    }
+  },
+  { _id: false }
+);
+
 // Create the schema
 const ReceiptSchema = new Schema<IReceipt>(
   {
@@ -81,6 +257,17 @@ const ReceiptSchema = new Schema<IReceipt>(
       type: Date,
       default: Date.now
     },
+    currency: {
+      type: String,
+      uppercase: true,
+      match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter code'],
+      default: () => CURRENCY_CONFIG.defaultCurrency
+    },
+    amountsInMinorUnits: {
+      type: Boolean,
+      // Only new documents start out in minor units - ones loaded without the flag predate them
+      default: function (this: { isNew: boolean }) { return this.isNew; }
+    },
     people: [
       {
         id: {
@@ -99,6 +286,10 @@ const ReceiptSchema = new Schema<IReceipt>(
         isRegisteredUser: {
           type: Boolean,
           default: false
+        },
+        userId: {
+          type: Schema.Types.ObjectId,
+          ref: 'User'
         }
       }
     ],
@@ -117,40 +308,208 @@ const ReceiptSchema = new Schema<IReceipt>(
         price: {
           type: Number,
           required: true,
-          min: [0, 'Price cannot be negative']
+          min: [0, 'Price cannot be negative'],
+          validate: wholeMinorUnits
         },
         assignedTo: [{
           type: String
         }],
-        sharedBy: {
+        shares: [
+          {
+            _id: false,
+            personId: {
+              type: String,
+              required: true
+            },
+            weight: {
+              type: Number,
+              required: true,
+              min: [0.01, 'Share weight must be positive']
+            }
+          }
+        ],
+        units: [
+          {
+            _id: false,
+            personId: {
+              type: String,
+              required: true
+            },
+            count: {
+              type: Number,
+              required: true,
+              min: [1, 'Unit count must be at least 1'],
+              validate: {
+                validator: Number.isInteger,
+                message: 'Unit count must be a whole number'
+              }
+            }
+          }
+        ],
+        notes: {
+          type: String,
+          trim: true
+        },
+        confidence: {
           type: Number,
-          min: 1
+          min: 0,
+          max: 100
         },
-        notes: {
+        confidenceReasons: [{
+          type: String
+        }],
+        adjustments: [AdjustmentSchema],
+        taxCategory: {
+          type: String,
+          enum: ['standard', 'alcohol', 'grocery', 'exempt'],
+          default: 'standard'
+        },
+        sourceRegion: {
+          type: new Schema(
+            {
+              left: {
+                type: Number,
+                required: true,
+                min: 0,
+                max: 1
+              },
+              top: {
+                type: Number,
+                required: true,
+                min: 0,
+                max: 1
+              },
+              width: {
+                type: Number,
+                required: true,
+                min: 0,
+                max: 1
+              },
+              height: {
+                type: Number,
+                required: true,
+                min: 0,
+                max: 1
+              }
+            },
+            { _id: false }
+          )
+        }
+      }
+    ],
+    adjustments: [AdjustmentSchema],
+    charges: [
+      {
+        _id: false,
+        name: {
+          type: String,
+          required: true,
+          trim: true
+        },
+        type: {
+          type: String,
+          enum: ['service_charge', 'delivery_fee', 'bag_fee', 'auto_gratuity', 'other_fee'],
+          default: 'other_fee'
+        },
+        amount: {
+          type: Number,
+          required: true,
+          min: [0, 'Charge amount cannot be negative'],
+          validate: wholeMinorUnits
+        },
+        distribution: {
           type: String,
+          enum: ['proportional', 'equal', 'assigned'],
+          default: 'proportional'
+        },
+        assignedTo: [{
+          type: String
+        }]
+      }
+    ],
+    taxLines: [
+      {
+        _id: false,
+        name: {
+          type: String,
+          required: true,
           trim: true
+        },
+        category: {
+          type: String,
+          enum: ['standard', 'alcohol', 'grocery', 'exempt'],
+          default: 'standard'
+        },
+        rate: {
+          type: Number,
+          min: 0
+        },
+        amount: {
+          type: Number,
+          required: true,
+          min: 0,
+          validate: wholeMinorUnits
         }
       }
     ],
     subtotal: {
       type: Number,
       required: true,
-      min: 0
+      min: 0,
+      validate: wholeMinorUnits
     },
     tax: {
       type: Number,
       default: 0,
-      min: 0
+      min: 0,
+      validate: wholeMinorUnits
     },
     tip: {
       type: Number,
       default: 0,
-      min: 0
+      min: 0,
+      validate: wholeMinorUnits
     },
     total: {
       type: Number,
       required: true,
-      min: 0
+      min: 0,
+      validate: wholeMinorUnits
+    },
+    tipPercentage: {
+      type: Number,
+      min: 0,
+      max: 100
+    },
+    tipBasis: {
+      type: String,
+      enum: ['pre_tax', 'post_tax'],
+      default: 'pre_tax'
+    },
+    tipOverrides: [
+      {
+        _id: false,
+        personId: {
+          type: String,
+          required: true
+        },
+        percentage: {
+          type: Number,
+          required: true,
+          min: 0,
+          max: 100
+        }
+      }
+    ],
+    printedTip: {
+      type: Number,
+      min: 0,
+      validate: wholeMinorUnits
+    },
+    printedTotal: {
+      type: Number,
+      min: 0,
+      validate: wholeMinorUnits
     },
     imageUrl: {
       type: String,
@@ -169,6 +528,17 @@ const ReceiptSchema = new Schema<IReceipt>(
       enum: ['pending', 'processing', 'completed', 'failed'],
       default: 'pending'
     },
+    processingStage: {
+      type: String,
+      enum: ['queued', 'downloading', 'ocr', 'parsing', 'saving']
+    },
+    processingError: {
+      type: String
+    },
+    processingWarnings: {
+      type: [String],
+      default: []
+    },
     ocrConfidence: {
       type: Number,
       min: 0,
@@ -177,19 +547,146 @@ const ReceiptSchema = new Schema<IReceipt>(
     rawTextractData: {
       type: Schema.Types.Mixed
     },
+    pendingReprocess: {
+      type: new Schema(
+        {
+          status: {
+            type: String,
+            enum: ['queued', 'processing', 'ready', 'failed'],
+            required: true
+          },
+          mode: {
+            type: String,
+            enum: ['full', 'parse'],
+            required: true
+          },
+          ocrProvider: String,
+          parser: String,
+          hint: {
+            type: String,
+            trim: true,
+            maxlength: 500
+          },
+          requestedAt: {
+            type: Date,
+            default: Date.now
+          },
+          completedAt: Date,
+          error: String,
+          result: Schema.Types.Mixed
+        },
+        { _id: false }
+      )
+    },
+    reconciliation: {
+      type: new Schema(
+        {
+          status: {
+            type: String,
+            enum: ['balanced', 'mismatch'],
+            required: true
+          },
+          itemsTotal: Number,
+          issues: [
+            {
+              _id: false,
+              check: String,
+              expected: Number,
+              actual: Number,
+              difference: Number,
+              message: String,
+              suggestions: [
+                {
+                  _id: false,
+                  cause: String,
+                  message: String,
+                  itemIndex: Number,
+                  amount: Number
+                }
+              ]
+            }
+          ],
+          checkedAt: {
+            type: Date,
+            required: true
+          },
+          acknowledgedAt: Date
+        },
+        { _id: false }
+      )
+    },
+    splitMode: {
+      type: String,
+      enum: ['itemized', 'equal', 'percentage', 'fixed', 'hybrid'],
+      default: 'itemized'
+    },
+    splitTargets: [
+      {
+        _id: false,
+        personId: {
+          type: String,
+          required: true
+        },
+        percentage: {
+          type: Number,
+          min: 0,
+          max: 100
+        },
+        amount: {
+          type: Number,
+          min: 0,
+          validate: wholeMinorUnits
+        }
+      }
+    ],
+    payers: [
+      {
+        _id: false,
+        personId: {
+          type: String,
+          required: true
+        },
+        amount: {
+          type: Number,
+          required: true,
+          min: 0,
+          validate: wholeMinorUnits
+        }
+      }
+    ],
     splitCalculations: [
       {
         personId: String,
         name: String,
         subtotal: Number,
+        discountShare: Number,
         taxShare: Number,
         tipShare: Number,
+        tipPercentage: Number,
+        chargesShare: Number,
+        roundingShare: Number,
         total: Number,
+        paid: Number,
+        balance: Number,
+        leftoverUnits: Number,
+        charges: [
+          {
+            _id: false,
+            name: String,
+            type: { type: String },
+            shareAmount: Number
+          }
+        ],
         items: [
           {
             itemName: String,
             fullPrice: Number,
+            discount: Number,
             shareAmount: Number,
+            leftoverUnits: Number,
+            shares: Number,
+            totalShares: Number,
+            units: Number,
             sharedWith: [String]
           }
         ]
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { CURRENCY_CONFIG } from '../config/currency';
 
 // Interface for restaurant document
 export interface IRestaurant extends Document {
@@ -10,7 +11,9 @@ export interface IRestaurant extends Document {
   priceRange?: 'budget' | 'moderate' | 'expensive' | 'fine_dining';
   averageRating?: number;
   visitCount: number;
-  totalSpent: number;
+  totalSpent: number; // In minor units of the currency
+  currency: string; // What totalSpent is kept in - the user's home currency
+  amountsInMinorUnits: boolean; // False only for restaurants saved before totalSpent was in minor units, until migrated
   lastVisit: Date;
   userId: mongoose.Types.ObjectId; // User who added this restaurant
   isFavorite: boolean;
@@ -60,7 +63,22 @@ const RestaurantSchema = new Schema<IRestaurant>(
     totalSpent: {
       type: Number,
       default: 0,
-      min: 0
+      min: 0,
+      validate: {
+        validator: Number.isInteger,
+        message: 'Total spent must be whole minor units of the currency (e.g. cents)'
+      }
+    },
+    currency: {
+      type: String,
+      uppercase: true,
+      match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter code'],
+      default: () => CURRENCY_CONFIG.defaultCurrency
+    },
+    amountsInMinorUnits: {
+      type: Boolean,
+      // Only new documents start out in minor units - ones loaded without the flag predate them
+      default: function (this: { isNew: boolean }) { return this.isNew; }
     },
     lastVisit: {
       type: Date,
@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Interface for a login session (one per device/browser)
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string; // SHA-256 of the current refresh token secret
+  userAgent?: string;
+  deviceName?: string; // Human readable summary of the user agent, e.g. "Chrome on macOS"
+  ipAddress?: string;
+  lastUsedAt: Date;
+  rotatedAt?: Date; // When the refresh token was last rotated
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: 'logout' | 'logout_all' | 'revoked' | 'token_reuse';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Create the schema
+const SessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true
+    },
+    userAgent: {
+      type: String,
+      trim: true
+    },
+    deviceName: {
+      type: String,
+      trim: true
+    },
+    ipAddress: {
+      type: String,
+      trim: true
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now
+    },
+    rotatedAt: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    revokedAt: {
+      type: Date
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'logout_all', 'revoked', 'token_reuse']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Add indexes for better query performance
+SessionSchema.index({ userId: 1, lastUsedAt: -1 });
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Let MongoDB clean up expired sessions
+
+export default mongoose.model<ISession>('Session', SessionSchema);
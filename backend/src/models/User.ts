@@ -1,10 +1,22 @@
 import mongoose, {Document, Schema} from 'mongoose';
+import { CURRENCY_CONFIG } from '../config/currency';
 
 // shape of user document
 export interface IUser extends Document {
     email: string;
     password: string;
     name: string;
+    homeCurrency: string; // ISO 4217 code spending is totalled in
+    emailVerified: boolean;
+    emailVerifiedAt?: Date;
+    emailVerificationTokenHash?: string; // SHA-256 of the emailed verification token
+    emailVerificationExpires?: Date;
+    emailVerificationSentAt?: Date;
+    passwordChangedAt?: Date;
+    passwordResetTokenHash?: string; // SHA-256 of the emailed reset token
+    passwordResetExpires?: Date;
+    deletionRequestedAt?: Date;
+    deletionScheduledFor?: Date; // Account and all data are purged after this date
     createdAt: Date;
     updatedAt: Date;
 }
@@ -37,6 +49,50 @@ name: {
     type: String,
     required: [true, 'Name is required'],
     trim: true
+},
+homeCurrency: {
+    type: String,
+    uppercase: true,
+    match: [/^[A-Z]{3}$/, 'Home currency must be a 3-letter code'],
+    default: () => CURRENCY_CONFIG.defaultCurrency
+},
+emailVerified: {
+    type: Boolean,
+    default: false
+},
+emailVerifiedAt: {
+    type: Date
+},
+// verification token fields are never returned unless explicitly selected
+emailVerificationTokenHash: {
+    type: String,
+    select: false
+},
+emailVerificationExpires: {
+    type: Date,
+    select: false
+},
+emailVerificationSentAt: {
+    type: Date,
+    select: false
+},
+passwordChangedAt: {
+    type: Date
+},
+// reset token fields are never returned unless explicitly selected
+passwordResetTokenHash: {
+    type: String,
+    select: false
+},
+passwordResetExpires: {
+    type: Date,
+    select: false
+},
+deletionRequestedAt: {
+    type: Date
+},
+deletionScheduledFor: {
+    type: Date
 }
 },
 {
@@ -45,5 +101,12 @@ name: {
 );
 
 
+// look up users by reset / verification token
+UserSchema.index({ passwordResetTokenHash: 1 }, { sparse: true });
+UserSchema.index({ emailVerificationTokenHash: 1 }, { sparse: true });
+
+// find accounts whose deletion grace period is over
+UserSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+
 // creating and exporting model
 export default mongoose.model<IUser>('User', UserSchema);
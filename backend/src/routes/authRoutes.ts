@@ -1,14 +1,18 @@
 import express, { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import User from '../models/User';
 import mongoose from 'mongoose';
+import { authenticateUser } from '../middleware/auth';
+import { SessionService, RefreshTokenError } from '../services/sessionService';
+import { MailService } from '../services/mailService';
+import { AccountService } from '../services/accountService';
+import { CurrencyService } from '../services/currency';
+import { AUTH_CONFIG } from '../config/auth';
+import { generateSecureToken, hashToken } from '../utils/tokens';
+import { CURRENCY_CODE } from '../utils/currency';
 
 const router = express.Router();
 
-// JWT Secret from environment or default (should be in .env for production)
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-
 /**
  * POST /api/auth/register
  * Register a new user
@@ -42,37 +46,45 @@ router.post('/register', async (req: Request, res: Response) => {
     }
 
     // Hash password
-    const saltRounds = 12;
-    const hashedPassword = await bcrypt.hash(password, saltRounds);
+    const hashedPassword = await bcrypt.hash(password, AUTH_CONFIG.bcryptSaltRounds);
 
-    // Create new user
+    // Create new user (unverified until they click the emailed link)
+    const verificationToken = generateSecureToken();
     const user = new User({
       name: name.trim(),
       email: email.toLowerCase().trim(),
-      password: hashedPassword
+      password: hashedPassword,
+      emailVerified: false,
+      emailVerificationTokenHash: hashToken(verificationToken),
+      emailVerificationExpires: new Date(Date.now() + AUTH_CONFIG.emailVerificationTtlHours * 60 * 60 * 1000),
+      emailVerificationSentAt: new Date()
     });
 
     await user.save();
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        userId: user._id,
-        email: user.email
-      },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    try {
+      await MailService.sendEmailVerification(user.email, user.name, verificationToken, AUTH_CONFIG.emailVerificationTtlHours);
+    } catch (mailError) {
+      console.error('Error sending verification email:', mailError);
+      // Don't fail registration - the user can ask for a new link
+    }
+
+    // Start a new session and issue access + refresh tokens
+    const tokens = await SessionService.createSession((user._id as any).toString(), user.email, req);
 
     // Return user data (excluding password)
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
-      token,
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
       user: {
         id: (user._id as any).toString(),
         name: user.name,
         email: user.email,
+        emailVerified: user.emailVerified,
+        homeCurrency: user.homeCurrency,
         createdAt: user.createdAt
       }
     });
@@ -130,25 +142,23 @@ router.post('/login', async (req: Request, res: Response) => {
       });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        userId: user._id,
-        email: user.email
-      },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    // Start a new session and issue access + refresh tokens
+    const tokens = await SessionService.createSession((user._id as any).toString(), user.email, req);
 
     // Return user data (excluding password)
     res.json({
       success: true,
       message: 'Login successful',
-      token,
+      pendingDeletion: user.deletionScheduledFor ? { scheduledFor: user.deletionScheduledFor } : undefined,
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
       user: {
         id: (user._id as any).toString(),
         name: user.name,
         email: user.email,
+        emailVerified: user.emailVerified,
+        homeCurrency: user.homeCurrency,
         createdAt: user.createdAt
       }
     });
@@ -166,22 +176,10 @@ router.post('/login', async (req: Request, res: Response) => {
  * GET /api/auth/me
  * Get current user profile (requires authentication)
  */
-router.get('/me', async (req: Request, res: Response) => {
+router.get('/me', authenticateUser, async (req: Request, res: Response) => {
   try {
-    const token = req.headers.authorization?.replace('Bearer ', '');
-
-    if (!token) {
-      return res.status(401).json({
-        success: false,
-        message: 'No token provided'
-      });
-    }
-
-    // Verify token
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; email: string };
-
     // Find user
-    const user = await User.findById(decoded.userId).select('-password');
+    const user = await User.findById(req.userId).select('-password');
     if (!user) {
       return res.status(404).json({
         success: false,
@@ -195,15 +193,622 @@ router.get('/me', async (req: Request, res: Response) => {
         id: (user._id as any).toString(),
         name: user.name,
         email: user.email,
+        emailVerified: user.emailVerified,
+        homeCurrency: user.homeCurrency,
         createdAt: user.createdAt
       }
     });
 
   } catch (error) {
-    console.error('Token verification error:', error);
-    res.status(401).json({
+    console.error('Error fetching user profile:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching profile'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address using the emailed verification token
+ */
+router.post('/verify-email', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification token is required'
+      });
+    }
+
+    const user = await User.findOne({
+      emailVerificationTokenHash: hashToken(token),
+      emailVerificationExpires: { $gt: new Date() }
+    });
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification link is invalid or has expired'
+      });
+    }
+
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    // Tokens are single-use
+    user.emailVerificationTokenHash = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      email: user.email
+    });
+
+  } catch (error) {
+    console.error('Email verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during email verification'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a fresh verification link to the logged in user
+ */
+router.post('/resend-verification', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.userId).select('+emailVerificationSentAt');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (user.emailVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is already verified'
+      });
+    }
+
+    const cooldownMs = AUTH_CONFIG.verificationResendCooldownSeconds * 1000;
+    if (user.emailVerificationSentAt && Date.now() - user.emailVerificationSentAt.getTime() < cooldownMs) {
+      return res.status(429).json({
+        success: false,
+        message: 'A verification email was just sent, please wait a minute before asking again'
+      });
+    }
+
+    // A new link replaces any earlier, unused one
+    const verificationToken = generateSecureToken();
+    user.emailVerificationTokenHash = hashToken(verificationToken);
+    user.emailVerificationExpires = new Date(Date.now() + AUTH_CONFIG.emailVerificationTtlHours * 60 * 60 * 1000);
+    user.emailVerificationSentAt = new Date();
+    await user.save();
+
+    await MailService.sendEmailVerification(user.email, user.name, verificationToken, AUTH_CONFIG.emailVerificationTtlHours);
+
+    res.json({
+      success: true,
+      message: `Verification email sent to ${user.email}`
+    });
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while sending verification email'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a single-use password reset link
+ */
+router.post('/forgot-password', async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is required'
+      });
+    }
+
+    // Same response whether or not the account exists, so this can't be used to probe for emails
+    const genericResponse = {
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent'
+    };
+
+    const user = await User.findOne({ email: email.toLowerCase().trim() });
+    if (!user) {
+      return res.json(genericResponse);
+    }
+
+    // A new request replaces any earlier, unused token
+    const resetToken = generateSecureToken();
+    user.passwordResetTokenHash = hashToken(resetToken);
+    user.passwordResetExpires = new Date(Date.now() + AUTH_CONFIG.passwordResetTtlMinutes * 60 * 1000);
+    await user.save();
+
+    try {
+      await MailService.sendPasswordReset(user.email, user.name, resetToken, AUTH_CONFIG.passwordResetTtlMinutes);
+    } catch (mailError) {
+      console.error('Error sending password reset email:', mailError);
+      // Still return the generic response so delivery failures don't reveal that the account exists
+    }
+
+    res.json(genericResponse);
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while requesting password reset'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password using a reset token
+ */
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (typeof token !== 'string' || typeof password !== 'string' || !token || !password) {
+      return res.status(400).json({
+        success: false,
+        message: 'Reset token and new password are required'
+      });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password must be at least 6 characters long'
+      });
+    }
+
+    // Tokens are single-use: using one and setting the password is a single update, so only one request can
+    const user = await User.findOneAndUpdate(
+      {
+        passwordResetTokenHash: hashToken(token),
+        passwordResetExpires: { $gt: new Date() }
+      },
+      {
+        $set: {
+          password: await bcrypt.hash(password, AUTH_CONFIG.bcryptSaltRounds),
+          passwordChangedAt: new Date()
+        },
+        $unset: { passwordResetTokenHash: 1, passwordResetExpires: 1 }
+      },
+      { new: true }
+    );
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Reset link is invalid or has expired'
+      });
+    }
+
+    // Whoever had the old password shouldn't stay logged in anywhere
+    const userId = (user._id as any).toString();
+    await SessionService.revokeAllSessions(userId);
+
+    try {
+      await MailService.sendPasswordChanged(user.email, user.name);
+    } catch (mailError) {
+      console.error('Error sending password changed email:', mailError);
+      // Don't fail the reset if the notification can't be sent
+    }
+
+    res.json({
+      success: true,
+      message: 'Password has been reset, please log in with your new password'
+    });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while resetting password'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/change-password
+ * Change password for the logged in user (requires the current password)
+ */
+router.post('/change-password', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'Current password and new password are required'
+      });
+    }
+
+    if (newPassword.length < 6) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password must be at least 6 characters long'
+      });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const isValidPassword = await bcrypt.compare(currentPassword, user.password);
+    if (!isValidPassword) {
+      return res.status(401).json({
+        success: false,
+        message: 'Current password is incorrect'
+      });
+    }
+
+    user.password = await bcrypt.hash(newPassword, AUTH_CONFIG.bcryptSaltRounds);
+    user.passwordChangedAt = new Date();
+    user.passwordResetTokenHash = undefined;
+    user.passwordResetExpires = undefined;
+    await user.save();
+
+    // Keep this device logged in, log out everywhere else
+    const revokedCount = await SessionService.revokeAllSessions(req.userId!, req.sessionId);
+
+    try {
+      await MailService.sendPasswordChanged(user.email, user.name);
+    } catch (mailError) {
+      console.error('Error sending password changed email:', mailError);
+      // Don't fail the change if the notification can't be sent
+    }
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+      revokedSessions: revokedCount
+    });
+
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while changing password'
+    });
+  }
+});
+
+/**
+ * PUT /api/auth/preferences
+ * Update the logged in user's preferences (home currency), converting restaurant totals to the new currency
+ */
+router.put('/preferences', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const homeCurrency = typeof req.body.homeCurrency === 'string' ? req.body.homeCurrency.trim().toUpperCase() : '';
+
+    if (!CURRENCY_CODE.test(homeCurrency)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Home currency must be a 3-letter currency code'
+      });
+    }
+
+    if (!(await CurrencyService.isSupported(homeCurrency))) {
+      return res.status(400).json({
+        success: false,
+        message: `No exchange rate is available for ${homeCurrency}`
+      });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const restaurantsConverted = await AccountService.changeHomeCurrency(user, homeCurrency);
+
+    res.json({
+      success: true,
+      message: 'Preferences updated successfully',
+      homeCurrency: user.homeCurrency,
+      restaurantsConverted
+    });
+
+  } catch (error) {
+    console.error('Update preferences error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while updating preferences'
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/account
+ * Schedule the account for deletion (requires the current password)
+ */
+router.delete('/account', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password is required to delete your account'
+      });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const isValidPassword = await bcrypt.compare(password, user.password);
+    if (!isValidPassword) {
+      return res.status(401).json({
+        success: false,
+        message: 'Password is incorrect'
+      });
+    }
+
+    const scheduledFor = await AccountService.scheduleDeletion(user);
+
+    try {
+      await MailService.sendAccountDeletionScheduled(user.email, user.name, scheduledFor);
+    } catch (mailError) {
+      console.error('Error sending account deletion email:', mailError);
+      // Don't fail the request if the confirmation can't be sent
+    }
+
+    res.json({
+      success: true,
+      message: `Your account will be permanently deleted on ${scheduledFor.toDateString()}. To keep it, log in before then and choose to keep your account (POST /api/auth/account/cancel-deletion).`,
+      scheduledFor
+    });
+
+  } catch (error) {
+    console.error('Account deletion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while deleting account'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/account/cancel-deletion
+ * Keep an account that is scheduled for deletion
+ */
+router.post('/account/cancel-deletion', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (!user.deletionScheduledFor) {
+      return res.status(400).json({
+        success: false,
+        message: 'Account is not scheduled for deletion'
+      });
+    }
+
+    await AccountService.cancelDeletion(user);
+
+    res.json({
+      success: true,
+      message: 'Account deletion cancelled'
+    });
+
+  } catch (error) {
+    console.error('Cancel account deletion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while cancelling account deletion'
+    });
+  }
+});
+
+/**
+ * GET /api/auth/account/export
+ * Download a zip of the user's profile, receipts, splits, restaurants and receipt images
+ */
+router.get('/account/export', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const fileName = `splitbite-export-${new Date().toISOString().split('T')[0]}.zip`;
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    await AccountService.writeExportArchive(req.userId!, res);
+
+  } catch (error) {
+    console.error('Account export error:', error);
+
+    if (res.headersSent) {
+      // Part of the archive is already on the wire, so the best we can do is cut it off
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
+
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while exporting account data'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token (the refresh token is rotated)
+ */
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Refresh token is required'
+      });
+    }
+
+    const tokens = await SessionService.rotateRefreshToken(refreshToken, req);
+
+    res.json({
+      success: true,
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn
+    });
+
+  } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      return res.status(401).json({
+        success: false,
+        code: 'REFRESH_INVALID',
+        message: error.message
+      });
+    }
+
+    console.error('Token refresh error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during token refresh'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Revoke the current session
+ */
+router.post('/logout', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    await SessionService.revokeSession(req.sessionId!, req.userId!, 'logout');
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during logout'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/logout-all
+ * Revoke every session for the user ("log out all devices")
+ */
+router.post('/logout-all', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const revokedCount = await SessionService.revokeAllSessions(req.userId!);
+
+    res.json({
+      success: true,
+      message: `Logged out of ${revokedCount} session(s)`,
+      revokedCount
+    });
+
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during logout'
+    });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * List the user's active sessions
+ */
+router.get('/sessions', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const sessions = await SessionService.listActiveSessions(req.userId!, req.sessionId);
+
+    res.json({
+      success: true,
+      sessions
+    });
+
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching sessions'
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke a single session
+ */
+router.delete('/sessions/:id', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid session ID format'
+      });
+    }
+
+    const revoked = await SessionService.revokeSession(id, req.userId!, 'revoked');
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully',
+      current: id === req.sessionId
+    });
+
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({
       success: false,
-      message: 'Invalid token'
+      message: 'Internal server error while revoking session'
     });
   }
 });
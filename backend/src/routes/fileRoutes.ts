@@ -0,0 +1,50 @@
+import express, { Request, Response } from 'express';
+import { StorageService, LocalStorageDriver } from '../services/storage';
+
+const router = express.Router();
+
+/**
+ * GET /api/files/*
+ * Serve a file from local storage using a signed URL from LocalStorageDriver.getSignedUrl
+ */
+router.get('/*', async (req: Request, res: Response) => {
+  try {
+    const driver = StorageService.getDriver();
+
+    // Only the local driver serves files itself - S3 URLs point straight at the bucket
+    if (!(driver instanceof LocalStorageDriver)) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const key = req.params[0];
+    const { expires, signature } = req.query;
+
+    if (typeof expires !== 'string' || typeof signature !== 'string') {
+      return res.status(403).json({ error: 'Missing file signature' });
+    }
+
+    if (!driver.verifySignedUrl(key, expires, signature)) {
+      return res.status(403).json({ error: 'Invalid or expired file link' });
+    }
+
+    if (!(await driver.fileExists(key))) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const file = await driver.downloadFile(key);
+
+    res.setHeader('Content-Type', file.contentType || 'application/octet-stream');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(file.body);
+
+  } catch (error) {
+    console.error('Error serving file:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to serve file',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+export default router;
@@ -1,25 +1,36 @@
 import express, { Request, Response } from 'express';
 import multer from 'multer';
-import Receipt from '../models/Receipt';
+import Receipt, { IReceipt } from '../models/Receipt';
 import Restaurant from '../models/Restaurant';
-import { S3Service } from '../services/s3Service';
-import { TextractService } from '../services/textractService';
+import User from '../models/User';
+import { StorageService } from '../services/storage';
+import { ReceiptProcessingService } from '../services/receiptProcessingService';
+import { ReceiptReprocessService } from '../services/receiptReprocessService';
 import { SplitCalculationService } from '../services/splitCalculationService';
-import { OpenAIService } from '../services/openaiService';
-import { S3_CONFIG } from '../config/aws';
+import { ReconciliationService } from '../services/reconciliationService';
+import { TipService } from '../services/tipService';
+import { SettlementService } from '../services/settlementService';
+import { ReceiptParsingService } from '../services/parsing';
+import { CurrencyService } from '../services/currency';
+import { STORAGE_CONFIG } from '../config/storage';
+import { SELECTABLE_OCR_PROVIDER_TYPES, OcrProviderType } from '../config/ocr';
+import { RECEIPT_PARSER_TYPES, ReceiptParserType } from '../config/parser';
+import { CURRENCY_CONFIG } from '../config/currency';
+import { authenticateUser } from '../middleware/auth';
+import { formatMoney } from '../utils/currency';
 import mongoose from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = express.Router();
 
-// Configure multer for memory storage (we'll upload directly to S3)
+// Configure multer for memory storage (the storage driver persists the file)
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: S3_CONFIG.maxFileSize
+    fileSize: STORAGE_CONFIG.maxFileSize
   },
   fileFilter: (req, file, cb) => {
-    if (S3_CONFIG.allowedTypes.includes(file.mimetype)) {
+    if (STORAGE_CONFIG.allowedTypes.includes(file.mimetype)) {
       cb(null, true);
     } else {
       cb(new Error(`File type ${file.mimetype} not allowed`));
@@ -27,36 +38,9 @@ const upload = multer({
   }
 });
 
-// Extend Request interface to include userId
-declare global {
-  namespace Express {
-    interface Request {
-      userId?: string;
-    }
-  }
-}
-
-// Middleware to validate user authentication (you'll need to implement this based on your auth system)
-const authenticateUser = (req: Request, res: Response, next: express.NextFunction) => {
-  // TODO: Implement JWT token validation
-  // For now, we'll assume the user ID is passed in headers
-  const userId = req.headers['user-id'] as string;
-
-  if (!userId) {
-    return res.status(401).json({ error: 'User authentication required' });
-  }
-
-  if (!mongoose.Types.ObjectId.isValid(userId)) {
-    return res.status(400).json({ error: 'Invalid user ID format' });
-  }
-
-  req.userId = userId;
-  next();
-};
-
 /**
  * POST /api/receipts/upload
- * Upload receipt image, process with OCR, and save to database
+ * Upload receipt image and queue it for OCR processing (poll GET /:id/status for progress)
  */
 router.post('/upload', authenticateUser, upload.single('receipt'), async (req: Request, res: Response) => {
   try {
@@ -66,104 +50,64 @@ router.post('/upload', authenticateUser, upload.single('receipt'), async (req: R
 
     const userId = req.userId!;
 
-    // Step 1: Upload image to S3
-    console.log('📸 Uploading image to S3...');
-    const s3Result = await S3Service.uploadFile(
+    // Step 1: Store the image
+    const storage = StorageService.getDriver();
+    console.log(`📸 Uploading image to ${storage.name} storage...`);
+    const s3Result = await storage.uploadFile(
       req.file.buffer,
       req.file.originalname,
       req.file.mimetype
     );
 
-    // Step 2: Process with Textract
-    console.log('🔍 Processing image with Textract...');
-    const extractedData = await TextractService.extractReceiptData(
-      s3Result.bucket,
-      s3Result.key
-    );
-
-    // Step 3: Create receipt record in database
+    // Step 2: Create a pending receipt record - details are filled in by the processing job.
+    // It's in the user's home currency unless the parser finds another on the receipt.
+    const owner = await User.findById(userId).select('homeCurrency');
     const receipt = new Receipt({
       userId: new mongoose.Types.ObjectId(userId),
-      restaurantName: extractedData.restaurantName || 'Unknown Restaurant',
-      date: extractedData.date && !isNaN(new Date(extractedData.date).getTime()) ? new Date(extractedData.date) : new Date(),
-      items: extractedData.items.map(item => ({
-        name: item.name,
-        quantity: item.quantity,
-        price: item.price,
-        assignedTo: []
-      })),
-      subtotal: extractedData.subtotal || 0,
-      tax: extractedData.tax || 0,
-      tip: extractedData.tip || 0,
-      total: extractedData.total || extractedData.subtotal || 0,
+      restaurantName: 'Unknown Restaurant',
+      date: new Date(),
+      currency: owner?.homeCurrency,
+      items: [],
+      subtotal: 0,
+      total: 0,
       imageUrl: s3Result.url,
       s3Key: s3Result.key,
       s3Bucket: s3Result.bucket,
-      processingStatus: 'completed',
-      ocrConfidence: extractedData.confidence,
-      rawTextractData: extractedData.rawData
+      processingStatus: 'pending'
     });
 
-    await receipt.save();
-
-    // Step 4: Update restaurant history
+    // Step 3: Queue OCR and parsing - if that fails, don't leave the image and an unprocessed receipt behind
     try {
-      let restaurant = await Restaurant.findOne({
-        userId: new mongoose.Types.ObjectId(userId),
-        name: receipt.restaurantName
-      });
-
-      if (restaurant) {
-        // Update existing restaurant
-        restaurant.visitCount += 1;
-        // Don't update totalSpent here - only when split is finalized
-        restaurant.lastVisit = receipt.date;
-      } else {
-        // Create new restaurant entry
-        restaurant = new Restaurant({
-          name: receipt.restaurantName,
-          visitCount: 1,
-          totalSpent: 0, // Will be updated when split is finalized
-          lastVisit: receipt.date,
-          userId: new mongoose.Types.ObjectId(userId)
-        });
-      }
-
-      await restaurant.save();
-      console.log('📍 Restaurant history updated');
-    } catch (restaurantError) {
-      console.error('Error updating restaurant history:', restaurantError);
-      // Don't fail the receipt save if restaurant update fails
+      await ReceiptProcessingService.enqueue(receipt);
+    } catch (queueError) {
+      await Promise.all([
+        storage.deleteFile(s3Result.key),
+        Receipt.deleteOne({ _id: receipt._id })
+      ]).catch(cleanupError => console.error('❌ Error cleaning up after a failed upload:', cleanupError));
+      throw queueError;
     }
 
-    console.log('✅ Receipt processed and saved successfully');
+    console.log('✅ Receipt uploaded and queued for processing');
 
-    // Return the processed receipt data
-    res.status(201).json({
+    res.status(202).json({
       success: true,
-      message: 'Receipt uploaded and processed successfully',
+      message: 'Receipt uploaded, processing has started',
+      statusUrl: `/api/receipts/${receipt._id}/status`,
       receipt: {
         id: receipt._id,
-        restaurantName: receipt.restaurantName,
-        date: receipt.date,
-        items: receipt.items,
-        subtotal: receipt.subtotal,
-        tax: receipt.tax,
-        tip: receipt.tip,
-        total: receipt.total,
         imageUrl: receipt.imageUrl,
         processingStatus: receipt.processingStatus,
-        ocrConfidence: receipt.ocrConfidence,
+        processingStage: receipt.processingStage,
         createdAt: receipt.createdAt
       }
     });
 
   } catch (error) {
-    console.error('❌ Receipt processing error:', error);
+    console.error('❌ Receipt upload error:', error);
 
     res.status(500).json({
       success: false,
-      error: 'Failed to process receipt',
+      error: 'Failed to upload receipt',
       message: error instanceof Error ? error.message : 'Unknown error occurred'
     });
   }
@@ -212,7 +156,8 @@ router.get('/', authenticateUser, async (req: Request, res: Response) => {
 
 /**
  * POST /api/receipts/restaurants/recalculate
- * Recalculate restaurant totals from completed splits
+ * Recalculate restaurant totals from completed splits. Receipts in a currency with no exchange
+ * rate are left out of the totals and listed in the response as skipped.
  */
 router.post('/restaurants/recalculate', authenticateUser, async (req: Request, res: Response) => {
   try {
@@ -220,8 +165,13 @@ router.post('/restaurants/recalculate', authenticateUser, async (req: Request, r
 
     console.log('🔄 Starting restaurant totals recalculation...');
 
+    // Totals are rebuilt in the user's home currency
+    const owner = await User.findById(userId).select('homeCurrency');
+    const homeCurrency = owner?.homeCurrency || CURRENCY_CONFIG.defaultCurrency;
+
     // Get all restaurants for this user
     const restaurants = await Restaurant.find({ userId: new mongoose.Types.ObjectId(userId) });
+    const skipped: Array<{ receiptId: string; restaurantName: string; currency: string }> = [];
 
     for (const restaurant of restaurants) {
       let newTotal = 0;
@@ -236,18 +186,22 @@ router.post('/restaurants/recalculate', authenticateUser, async (req: Request, r
       // Sum up user's amounts from all completed splits
       for (const receipt of completedReceipts) {
         if (receipt.splitCalculations && receipt.splitCalculations.length > 0) {
-          const meCalculation = receipt.splitCalculations.find(calc =>
-            calc.name.toLowerCase() === 'me' || calc.personId.includes('person_me_')
-          );
+          const meCalculation = SplitCalculationService.ownerSplit(receipt, receipt.splitCalculations);
 
           if (meCalculation) {
-            newTotal += meCalculation.total;
+            try {
+              newTotal += await CurrencyService.convert(meCalculation.total, receipt.currency, homeCurrency);
+            } catch (conversionError) {
+              console.warn(`⚠️ Skipping receipt ${receipt._id}:`, conversionError instanceof Error ? conversionError.message : conversionError);
+              skipped.push({ receiptId: String(receipt._id), restaurantName: receipt.restaurantName, currency: receipt.currency });
+            }
           }
         }
       }
 
-      console.log(`📍 ${restaurant.name}: $${restaurant.totalSpent.toFixed(2)} → $${newTotal.toFixed(2)}`);
+      console.log(`📍 ${restaurant.name}: ${formatMoney(restaurant.totalSpent, restaurant.currency)} → ${formatMoney(newTotal, homeCurrency)}`);
       restaurant.totalSpent = newTotal;
+      restaurant.currency = homeCurrency;
       await restaurant.save();
     }
 
@@ -255,8 +209,11 @@ router.post('/restaurants/recalculate', authenticateUser, async (req: Request, r
 
     res.json({
       success: true,
-      message: 'Restaurant totals recalculated successfully',
-      updated: restaurants.length
+      message: skipped.length > 0
+        ? `Restaurant totals recalculated, leaving out ${skipped.length} receipts in currencies with no exchange rate`
+        : 'Restaurant totals recalculated successfully',
+      updated: restaurants.length,
+      skipped
     });
 
   } catch (error) {
@@ -381,7 +338,7 @@ router.get('/:id', authenticateUser, async (req: Request, res: Response) => {
     }
 
     // Generate signed URL for secure image access
-    const signedImageUrl = await S3Service.getSignedUrl(receipt.s3Key, 3600); // 1 hour expiry
+    const signedImageUrl = await StorageService.getDriver().getSignedUrl(receipt.s3Key, STORAGE_CONFIG.signedUrlExpiresIn);
 
     res.json({
       success: true,
@@ -401,6 +358,360 @@ router.get('/:id', authenticateUser, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/receipts/:id/status
+ * Get the processing progress of an uploaded receipt
+ */
+router.get('/:id/status', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    }).select('-rawTextractData');
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    const status = await ReceiptProcessingService.getStatus(receipt);
+
+    res.json({
+      success: true,
+      status,
+      // Include the full receipt once it's ready so the client doesn't need a second request
+      receipt: receipt.processingStatus === 'completed' ? receipt : undefined
+    });
+
+  } catch (error) {
+    console.error('Error fetching receipt status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch receipt status',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * POST /api/receipts/:id/retry-processing
+ * Queue a failed receipt for processing again
+ */
+router.post('/:id/retry-processing', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    if (receipt.processingStatus !== 'failed') {
+      return res.status(409).json({ error: `Receipt is ${receipt.processingStatus}, only failed receipts can be retried` });
+    }
+
+    await ReceiptProcessingService.enqueue(receipt);
+
+    res.status(202).json({
+      success: true,
+      message: 'Receipt queued for processing',
+      status: await ReceiptProcessingService.getStatus(receipt)
+    });
+
+  } catch (error) {
+    console.error('Error retrying receipt processing:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retry receipt processing',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * POST /api/receipts/:id/reprocess
+ * Re-run OCR and/or parsing on the stored image. The result is held for review (GET /:id/reprocess)
+ * and only replaces the receipt's items when applied.
+ */
+router.post('/:id/reprocess', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { mode = 'full', ocrProvider, parser, hint } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    if (mode !== 'full' && mode !== 'parse') {
+      return res.status(400).json({ error: 'Mode must be "full" (OCR + parsing) or "parse" (parsing only)' });
+    }
+
+    if (ocrProvider !== undefined && !SELECTABLE_OCR_PROVIDER_TYPES.includes(ocrProvider)) {
+      return res.status(400).json({ error: `OCR provider must be one of: ${SELECTABLE_OCR_PROVIDER_TYPES.join(', ')}` });
+    }
+
+    if (ocrProvider !== undefined && mode === 'parse') {
+      return res.status(400).json({ error: 'An OCR provider can only be chosen in "full" mode' });
+    }
+
+    if (parser !== undefined && !RECEIPT_PARSER_TYPES.includes(parser)) {
+      return res.status(400).json({ error: `Parser must be one of: ${RECEIPT_PARSER_TYPES.join(', ')}` });
+    }
+
+    if (hint !== undefined && (typeof hint !== 'string' || hint.length > 500)) {
+      return res.status(400).json({ error: 'Hint must be text of at most 500 characters' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    if (receipt.processingStatus !== 'completed') {
+      return res.status(409).json({ error: 'Receipt is still being processed' });
+    }
+
+    if (receipt.pendingReprocess && ['queued', 'processing'].includes(receipt.pendingReprocess.status)) {
+      return res.status(409).json({ error: 'This receipt is already being reprocessed' });
+    }
+
+    const job = await ReceiptReprocessService.requestReprocess(receipt, {
+      mode,
+      ocrProvider: ocrProvider as OcrProviderType | undefined,
+      parser: parser as ReceiptParserType | undefined,
+      hint: hint?.trim() || undefined
+    });
+
+    if (!job) {
+      // Another request started one between the check above and claiming it
+      return res.status(409).json({ error: 'This receipt is already being reprocessed' });
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Reprocessing started',
+      reprocess: receipt.pendingReprocess
+    });
+
+  } catch (error) {
+    console.error('Error starting reprocess:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start reprocessing',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * GET /api/receipts/:id/reprocess
+ * Get the state of a reprocess request and, once ready, the diff against the current receipt
+ */
+router.get('/:id/reprocess', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    const pending = receipt.pendingReprocess;
+    if (!pending) {
+      return res.status(404).json({ error: 'No reprocess request for this receipt' });
+    }
+
+    res.json({
+      success: true,
+      reprocess: {
+        status: pending.status,
+        mode: pending.mode,
+        ocrProvider: pending.ocrProvider,
+        parser: pending.parser,
+        hint: pending.hint,
+        requestedAt: pending.requestedAt,
+        completedAt: pending.completedAt,
+        error: pending.error
+      },
+      diff: pending.status === 'ready' ? ReceiptReprocessService.buildDiff(receipt, pending.result) : undefined
+    });
+
+  } catch (error) {
+    console.error('Error fetching reprocess result:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reprocess result',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * POST /api/receipts/:id/reprocess/apply
+ * Replace the receipt's details with the reviewed reprocess result
+ */
+router.post('/:id/reprocess/apply', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    if (receipt.pendingReprocess?.status !== 'ready') {
+      return res.status(409).json({ error: 'There is no finished reprocess result to apply' });
+    }
+
+    const diff = await ReceiptReprocessService.applyReprocess(receipt);
+
+    res.json({
+      success: true,
+      message: 'Reprocess result applied',
+      receipt,
+      diff
+    });
+
+  } catch (error) {
+    console.error('Error applying reprocess result:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to apply reprocess result',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * DELETE /api/receipts/:id/reprocess
+ * Discard a reprocess request or result, leaving the receipt unchanged
+ */
+router.delete('/:id/reprocess', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    if (!receipt.pendingReprocess) {
+      return res.status(404).json({ error: 'No reprocess request for this receipt' });
+    }
+
+    await ReceiptReprocessService.discardReprocess(receipt);
+
+    res.json({
+      success: true,
+      message: 'Reprocess result discarded'
+    });
+
+  } catch (error) {
+    console.error('Error discarding reprocess result:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to discard reprocess result',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * POST /api/receipts/:id/reconciliation/acknowledge
+ * Accept the receipt's amounts as printed even though they don't add up
+ */
+router.post('/:id/reconciliation/acknowledge', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    if (!receipt.reconciliation || receipt.reconciliation.status !== 'mismatch') {
+      return res.status(409).json({ error: 'Receipt has no reconciliation issues to acknowledge' });
+    }
+
+    receipt.reconciliation.acknowledgedAt = new Date();
+    if (receipt.people && receipt.people.length > 0) {
+      receipt.isComplete = SplitCalculationService.isReceiptComplete(receipt);
+    }
+    await receipt.save();
+
+    res.json({
+      success: true,
+      message: 'Receipt amounts accepted as printed',
+      reconciliation: receipt.reconciliation,
+      isComplete: receipt.isComplete
+    });
+
+  } catch (error) {
+    console.error('Error acknowledging reconciliation:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to acknowledge reconciliation',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
 /**
  * PUT /api/receipts/:id
  * Update a receipt (for manual corrections after OCR)
@@ -420,6 +731,35 @@ router.put('/:id', authenticateUser, async (req: Request, res: Response) => {
     delete updateData.s3Key;
     delete updateData.s3Bucket;
     delete updateData.rawTextractData;
+    delete updateData.processingStatus;
+    delete updateData.processingStage;
+    delete updateData.processingError;
+    delete updateData.processingWarnings;
+    delete updateData.pendingReprocess;
+    delete updateData.reconciliation;
+
+    // People, payers and splits go through their own endpoints, which check who is linked to which account
+    delete updateData.people;
+    delete updateData.payers;
+    delete updateData.splitMode;
+    delete updateData.splitTargets;
+    delete updateData.splitCalculations;
+    delete updateData.isComplete;
+
+    // A tip percentage and overrides are set through PUT /:id/tip
+    delete updateData.tipPercentage;
+    delete updateData.tipBasis;
+    delete updateData.tipOverrides;
+    delete updateData.printedTip;
+    delete updateData.printedTotal;
+
+    // Only currencies with an exchange rate can be totalled
+    if ('currency' in updateData) {
+      if (typeof updateData.currency !== 'string' || !(await CurrencyService.isSupported(updateData.currency.toUpperCase()))) {
+        return res.status(400).json({ error: 'Unsupported currency' });
+      }
+      updateData.currency = updateData.currency.toUpperCase();
+    }
 
     const receipt = await Receipt.findOneAndUpdate(
       {
@@ -434,6 +774,27 @@ router.put('/:id', authenticateUser, async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Receipt not found' });
     }
 
+    // Edited tax lines replace the tax amount unless a new amount was sent with them
+    if ('taxLines' in updateData && !('tax' in updateData)) {
+      receipt.tax = receipt.taxLines.reduce((sum, taxLine) => sum + taxLine.amount, 0);
+    }
+
+    // Re-check the amounts whenever items, discounts or totals were edited
+    const amountFields = ['items', 'adjustments', 'charges', 'taxLines', 'subtotal', 'tax', 'tip', 'total'];
+    if (amountFields.some(field => field in updateData)) {
+      // A tip or total typed in by hand replaces any tip set in the app; otherwise a percentage tip follows the new subtotal and tax
+      if ('tip' in updateData || 'total' in updateData) {
+        TipService.reset(receipt);
+      } else {
+        TipService.apply(receipt);
+      }
+      ReconciliationService.apply(receipt);
+      if (receipt.people && receipt.people.length > 0) {
+        receipt.isComplete = SplitCalculationService.isReceiptComplete(receipt);
+      }
+      await receipt.save();
+    }
+
     res.json({
       success: true,
       message: 'Receipt updated successfully',
@@ -452,7 +813,7 @@ router.put('/:id', authenticateUser, async (req: Request, res: Response) => {
 
 /**
  * DELETE /api/receipts/:id
- * Delete a receipt and its associated S3 file
+ * Delete a receipt and its stored image
  */
 router.delete('/:id', authenticateUser, async (req: Request, res: Response) => {
   try {
@@ -472,14 +833,15 @@ router.delete('/:id', authenticateUser, async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Receipt not found' });
     }
 
-    // Delete from S3
+    // Delete the image from storage
     if (receipt.s3Key) {
-      await S3Service.deleteFile(receipt.s3Key);
+      await StorageService.getDriver().deleteFile(receipt.s3Key);
     }
 
     // Update restaurant history - decrease visit count and total spent
+    // (receipts that never finished processing were never counted)
     try {
-      const restaurant = await Restaurant.findOne({
+      const restaurant = receipt.processingStatus !== 'completed' ? null : await Restaurant.findOne({
         userId: new mongoose.Types.ObjectId(userId),
         name: receipt.restaurantName
       });
@@ -492,14 +854,18 @@ router.delete('/:id', authenticateUser, async (req: Request, res: Response) => {
         let amountToSubtract = 0; // Default for incomplete receipts
 
         if (receipt.isComplete && receipt.splitCalculations && receipt.splitCalculations.length > 0) {
-          // Find the "Me" person's amount from split calculations
-          const meCalculation = receipt.splitCalculations.find(calc =>
-            calc.name.toLowerCase() === 'me' || calc.personId.includes('person_me_')
-          );
+          // Find the user's own amount from split calculations
+          const meCalculation = SplitCalculationService.ownerSplit(receipt, receipt.splitCalculations);
 
           if (meCalculation) {
-            amountToSubtract = meCalculation.total;
-            console.log(`📍 Using user's split amount for deletion: $${amountToSubtract}`);
+            // Without a rate the total is left as it is, but the visit is still removed
+            try {
+              amountToSubtract = await CurrencyService.convert(meCalculation.total, receipt.currency, restaurant.currency);
+              console.log(`📍 Using user's split amount for deletion: ${formatMoney(amountToSubtract, restaurant.currency)}`);
+            } catch (conversionError) {
+              console.warn(`⚠️ Can't convert ${receipt.currency} to ${restaurant.currency}, leaving total spent unchanged:`,
+                conversionError instanceof Error ? conversionError.message : conversionError);
+            }
           }
         } else {
           console.log(`📍 Receipt not completed, no amount to subtract from restaurant history`);
@@ -577,13 +943,61 @@ router.post('/:id/people', authenticateUser, async (req: Request, res: Response)
       return res.status(404).json({ error: 'Receipt not found' });
     }
 
-    // Add unique IDs to people if not provided
-    const formattedPeople = people.map((person: any) => ({
-      id: person.id || uuidv4(),
-      name: person.name,
-      email: person.email,
-      isRegisteredUser: person.isRegisteredUser || false
-    }));
+    const owner = await User.findById(userId).select('email emailVerified');
+    if (!owner) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const normalizeEmail = (email: unknown) =>
+      typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : undefined;
+
+    // Adding someone else by email links them to this receipt, so only verified owners can do it
+    const invitedEmails = people
+      .map((person: any) => normalizeEmail(person.email))
+      .filter((email: string | undefined): email is string => !!email && email !== owner.email);
+
+    if (invitedEmails.length > 0 && !owner.emailVerified) {
+      return res.status(403).json({
+        error: 'Email verification required',
+        code: 'EMAIL_NOT_VERIFIED',
+        message: 'Verify your email address before adding people by email'
+      });
+    }
+
+    // Only people whose email belongs to a verified account count as registered diners
+    const allEmails = people
+      .map((person: any) => normalizeEmail(person.email))
+      .filter((email: string | undefined): email is string => !!email);
+    const verifiedUsers = allEmails.length > 0
+      ? await User.find({ email: { $in: allEmails }, emailVerified: true }).select('email')
+      : [];
+    const verifiedEmails = new Set(verifiedUsers.map(user => user.email));
+    const accountIds = new Map(verifiedUsers.map(user => [user.email, user._id as mongoose.Types.ObjectId]));
+
+    // The owner is whoever is sent with their user ID, else whoever was linked to them before, else whoever has their email
+    const ownerId = new mongoose.Types.ObjectId(userId);
+    const previousOwner = (receipt.people || []).find(person => person.userId?.equals(ownerId));
+    const ownerIndex = [
+      (person: any) => person.userId === userId,
+      (person: any) => !!previousOwner && person.id === previousOwner.id,
+      (person: any) => !!owner.email && normalizeEmail(person.email) === owner.email
+    ].map(isOwner => people.findIndex(isOwner)).find(index => index !== -1) ?? -1;
+
+    if (ownerIndex === -1) {
+      return res.status(400).json({ error: 'Include yourself among the people on the receipt' });
+    }
+
+    // Add unique IDs to people if not provided, and link each person to their account
+    const formattedPeople = people.map((person: any, index: number) => {
+      const email = normalizeEmail(person.email);
+      return {
+        id: person.id || uuidv4(),
+        name: person.name,
+        email,
+        isRegisteredUser: !!email && verifiedEmails.has(email),
+        userId: index === ownerIndex ? ownerId : email && email !== owner.email ? accountIds.get(email) : undefined
+      };
+    });
 
     receipt.people = formattedPeople;
     await receipt.save();
@@ -606,13 +1020,16 @@ router.post('/:id/people', authenticateUser, async (req: Request, res: Response)
 
 /**
  * PUT /api/receipts/:id/items/:itemIndex/assign
- * Assign an item to people
+ * Assign an item to people. shares optionally gives uneven portions as { [personId]: weight },
+ * e.g. { alex: 2, sam: 3 } for two of five slices; without it, people still assigned keep their weights.
+ * units splits a multi-quantity item by unit as { [personId]: count }, e.g. { alex: 2, sam: 1, jo: 1 }
+ * for four beers; the people with units become assignedTo. Without it the item is split as a whole.
  */
 router.put('/:id/items/:itemIndex/assign', authenticateUser, async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const { id, itemIndex } = req.params;
-    const { assignedTo, notes } = req.body;
+    const { assignedTo, shares, units, notes } = req.body;
 
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return res.status(400).json({ error: 'Invalid receipt ID format' });
@@ -628,14 +1045,50 @@ router.put('/:id/items/:itemIndex/assign', authenticateUser, async (req: Request
     }
 
     const itemIdx = parseInt(itemIndex);
-    if (itemIdx < 0 || itemIdx >= receipt.items.length) {
+    if (!Number.isInteger(itemIdx) || itemIdx < 0 || itemIdx >= receipt.items.length) {
       return res.status(400).json({ error: 'Invalid item index' });
     }
 
+    const item = receipt.items[itemIdx];
+
+    if (units !== undefined) {
+      const counts = units && typeof units === 'object' ? Object.values(units) : [];
+      const invalid = !units || typeof units !== 'object' || counts.some(count => !Number.isInteger(count) || (count as number) < 0);
+      if (invalid) {
+        return res.status(400).json({ error: 'Units must be whole numbers of units per person' });
+      }
+      if ((counts as number[]).reduce((sum, count) => sum + count, 0) > item.quantity) {
+        return res.status(400).json({ error: `Only ${item.quantity} units of "${item.name}" to give out` });
+      }
+    }
+
+    const unitEntries = units ? Object.entries(units as Record<string, number>).filter(([, count]) => count > 0) : [];
+    const newAssignedTo: string[] = units !== undefined ? unitEntries.map(([personId]) => personId) : assignedTo || [];
+
+    // Shares are checked against these below, so this covers all three
+    const personIds = new Set((receipt.people || []).map(person => person.id));
+    if (!Array.isArray(newAssignedTo) || newAssignedTo.some(personId => !personIds.has(personId))) {
+      return res.status(400).json({ error: 'Items can only be assigned to people on this receipt' });
+    }
+
+    if (shares !== undefined) {
+      const entries = shares && typeof shares === 'object' ? Object.entries(shares) : [];
+      const invalid = !shares || typeof shares !== 'object' || entries.some(([personId, weight]) =>
+        !newAssignedTo.includes(personId) || typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0
+      );
+      if (invalid) {
+        return res.status(400).json({ error: 'Shares must be positive weights for people the item is assigned to' });
+      }
+    }
+
     // Update item assignment
-    receipt.items[itemIdx].assignedTo = assignedTo || [];
+    item.assignedTo = newAssignedTo;
+    item.shares = shares !== undefined
+      ? Object.entries(shares as Record<string, number>).map(([personId, weight]) => ({ personId, weight }))
+      : (item.shares || []).filter(share => newAssignedTo.includes(share.personId));
+    item.units = unitEntries.map(([personId, count]) => ({ personId, count }));
     if (notes !== undefined) {
-      receipt.items[itemIdx].notes = notes;
+      item.notes = notes;
     }
 
     // Calculate splits
@@ -648,7 +1101,7 @@ router.put('/:id/items/:itemIndex/assign', authenticateUser, async (req: Request
     res.json({
       success: true,
       message: 'Item assignment updated successfully',
-      item: receipt.items[itemIdx],
+      item,
       splits,
       isComplete: receipt.isComplete
     });
@@ -665,18 +1118,23 @@ router.put('/:id/items/:itemIndex/assign', authenticateUser, async (req: Request
 
 /**
  * PUT /api/receipts/:id/distribution
- * Update tax and tip distribution method
+ * Update tax, tip and per-charge distribution methods. charges is matched to the receipt's
+ * charges by position: [{ distribution: 'proportional' | 'equal' | 'assigned', assignedTo?: string[] }]
  */
 router.put('/:id/distribution', authenticateUser, async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const { id } = req.params;
-    const { taxDistribution, tipDistribution } = req.body;
+    const { taxDistribution, tipDistribution, charges } = req.body;
 
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return res.status(400).json({ error: 'Invalid receipt ID format' });
     }
 
+    if (charges !== undefined && !Array.isArray(charges)) {
+      return res.status(400).json({ error: 'charges must be an array' });
+    }
+
     const receipt = await Receipt.findOne({
       _id: new mongoose.Types.ObjectId(id),
       userId: new mongoose.Types.ObjectId(userId)
@@ -693,9 +1151,32 @@ router.put('/:id/distribution', authenticateUser, async (req: Request, res: Resp
       receipt.tipDistribution = tipDistribution;
     }
 
+    if (charges) {
+      const personIds = new Set((receipt.people || []).map(person => person.id));
+
+      for (const [index, update] of charges.entries()) {
+        const charge = receipt.charges[index];
+        if (!charge) {
+          return res.status(400).json({ error: `Receipt has no charge at position ${index}` });
+        }
+        if (!['proportional', 'equal', 'assigned'].includes(update?.distribution)) {
+          return res.status(400).json({ error: `Invalid distribution for "${charge.name}"` });
+        }
+
+        const assignedTo: string[] = Array.isArray(update.assignedTo) ? update.assignedTo : [];
+        if (assignedTo.some(personId => !personIds.has(personId))) {
+          return res.status(400).json({ error: `"${charge.name}" is assigned to someone not on this receipt` });
+        }
+
+        charge.distribution = update.distribution;
+        charge.assignedTo = update.distribution === 'assigned' ? assignedTo : [];
+      }
+    }
+
     // Recalculate splits with new distribution
     const splits = SplitCalculationService.calculateSplit(receipt);
     receipt.splitCalculations = splits;
+    receipt.isComplete = SplitCalculationService.isReceiptComplete(receipt);
 
     await receipt.save();
 
@@ -704,7 +1185,8 @@ router.put('/:id/distribution', authenticateUser, async (req: Request, res: Resp
       message: 'Distribution updated successfully',
       splits,
       taxDistribution: receipt.taxDistribution,
-      tipDistribution: receipt.tipDistribution
+      tipDistribution: receipt.tipDistribution,
+      charges: receipt.charges
     });
 
   } catch (error) {
@@ -717,6 +1199,289 @@ router.put('/:id/distribution', authenticateUser, async (req: Request, res: Resp
   }
 });
 
+/**
+ * PUT /api/receipts/:id/tip
+ * Set the tip as a percentage of the subtotal (basis 'pre_tax') or subtotal plus tax ('post_tax'),
+ * or as an amount in minor units, and optionally let people tip at their own rate:
+ * overrides [{ personId, percentage }] replace the whole list. The total is updated to the
+ * printed total with the printed tip swapped for the new one; the printed amounts are kept.
+ */
+router.put('/:id/tip', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { percentage, amount, basis, overrides } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    if (percentage !== undefined && amount !== undefined) {
+      return res.status(400).json({ error: 'Give a tip percentage or an amount, not both' });
+    }
+
+    if (percentage !== undefined && (typeof percentage !== 'number' || percentage < 0 || percentage > 100)) {
+      return res.status(400).json({ error: 'Tip percentage must be between 0 and 100' });
+    }
+
+    if (amount !== undefined && (!Number.isInteger(amount) || amount < 0)) {
+      return res.status(400).json({ error: 'Tip amount must be whole minor units (e.g. cents)' });
+    }
+
+    if (basis !== undefined && !['pre_tax', 'post_tax'].includes(basis)) {
+      return res.status(400).json({ error: 'basis must be pre_tax or post_tax' });
+    }
+
+    if (overrides !== undefined && !Array.isArray(overrides)) {
+      return res.status(400).json({ error: 'overrides must be an array' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    if (overrides) {
+      const personIds = new Set((receipt.people || []).map(person => person.id));
+      const tipOverrides: IReceipt['tipOverrides'] = [];
+
+      for (const override of overrides) {
+        if (!personIds.has(override?.personId)) {
+          return res.status(400).json({ error: 'Tip overrides must be for people on this receipt' });
+        }
+        if (typeof override.percentage !== 'number' || override.percentage < 0 || override.percentage > 100) {
+          return res.status(400).json({ error: 'Tip percentages must be between 0 and 100' });
+        }
+        tipOverrides.push({ personId: override.personId, percentage: override.percentage });
+      }
+
+      receipt.tipOverrides = tipOverrides;
+    }
+
+    if (basis) {
+      receipt.tipBasis = basis;
+    }
+
+    if (percentage !== undefined) {
+      TipService.setPercentage(receipt, percentage);
+    } else if (amount !== undefined) {
+      TipService.setAmount(receipt, amount);
+    } else {
+      // A new basis changes a percentage tip
+      TipService.apply(receipt);
+    }
+
+    ReconciliationService.apply(receipt);
+
+    let splits: ReturnType<typeof SplitCalculationService.calculateSplit> | undefined;
+    if (receipt.people && receipt.people.length > 0) {
+      splits = SplitCalculationService.calculateSplit(receipt);
+      receipt.splitCalculations = splits;
+      receipt.isComplete = SplitCalculationService.isReceiptComplete(receipt);
+    }
+
+    await receipt.save();
+
+    res.json({
+      success: true,
+      message: 'Tip updated successfully',
+      splits,
+      tip: receipt.tip,
+      total: receipt.total,
+      tipPercentage: receipt.tipPercentage,
+      tipBasis: receipt.tipBasis,
+      tipOverrides: receipt.tipOverrides,
+      printedTip: receipt.printedTip,
+      printedTotal: receipt.printedTotal
+    });
+
+  } catch (error) {
+    console.error('Error updating tip:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update tip',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * PUT /api/receipts/:id/payers
+ * Record who paid the bill: payers [{ personId, amount }] in minor units replace the whole list,
+ * e.g. one person who put it all on their card, or two who each paid part. The payments must add
+ * up to what the bill comes to (the total, plus any extra tip from people tipping at their own
+ * rate); an empty list clears them. Responds with each person's balance and the transfers that settle up.
+ */
+router.put('/:id/payers', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { payers } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    if (!Array.isArray(payers)) {
+      return res.status(400).json({ error: 'payers must be an array' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    if (!receipt.people || receipt.people.length === 0) {
+      return res.status(400).json({ error: 'Add people to the receipt before recording who paid' });
+    }
+
+    const personIds = new Set(receipt.people.map(person => person.id));
+    const receiptPayers: IReceipt['payers'] = [];
+
+    for (const payer of payers) {
+      if (!personIds.has(payer?.personId)) {
+        return res.status(400).json({ error: 'Payers must be people on this receipt' });
+      }
+      if (receiptPayers.some(existing => existing.personId === payer.personId)) {
+        return res.status(400).json({ error: 'Each person can only be listed once as a payer' });
+      }
+      if (!Number.isInteger(payer.amount) || payer.amount <= 0) {
+        return res.status(400).json({ error: 'Amounts paid must be positive whole minor units (e.g. cents)' });
+      }
+      receiptPayers.push({ personId: payer.personId, amount: payer.amount });
+    }
+
+    receipt.payers = receiptPayers;
+
+    const splits = SplitCalculationService.calculateSplit(receipt);
+    const billTotal = splits.reduce((sum, split) => sum + split.total, 0);
+    const paid = receiptPayers.reduce((sum, payer) => sum + payer.amount, 0);
+
+    // Balances only net to zero when the payments cover the bill exactly
+    if (receiptPayers.length > 0 && paid !== billTotal) {
+      return res.status(400).json({
+        error: `The payments add up to ${formatMoney(paid, receipt.currency)} but the bill comes to ${formatMoney(billTotal, receipt.currency)}`
+      });
+    }
+
+    receipt.splitCalculations = splits;
+    receipt.isComplete = SplitCalculationService.isReceiptComplete(receipt);
+
+    await receipt.save();
+
+    res.json({
+      success: true,
+      message: 'Payers updated successfully',
+      splits,
+      payers: receipt.payers,
+      settlement: SettlementService.settle(splits)
+    });
+
+  } catch (error) {
+    console.error('Error updating payers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update payers',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * PUT /api/receipts/:id/split-mode
+ * Choose how the bill is split: itemized, equal, percentage, fixed or hybrid (itemize some items,
+ * split the rest equally). targets gives each person's share for the percentage and fixed modes:
+ * [{ personId, percentage }] adding up to 100, or [{ personId, amount }] in minor units, with
+ * anyone left out of a fixed split paying an even part of what remains.
+ */
+router.put('/:id/split-mode', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { splitMode, targets } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid receipt ID format' });
+    }
+
+    if (!['itemized', 'equal', 'percentage', 'fixed', 'hybrid'].includes(splitMode)) {
+      return res.status(400).json({ error: 'splitMode must be itemized, equal, percentage, fixed or hybrid' });
+    }
+
+    if (targets !== undefined && !Array.isArray(targets)) {
+      return res.status(400).json({ error: 'targets must be an array' });
+    }
+
+    const receipt = await Receipt.findOne({
+      _id: new mongoose.Types.ObjectId(id),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    const personIds = new Set((receipt.people || []).map(person => person.id));
+    const splitTargets: IReceipt['splitTargets'] = [];
+
+    for (const target of targets || []) {
+      if (!personIds.has(target?.personId)) {
+        return res.status(400).json({ error: 'Targets must be for people on this receipt' });
+      }
+      if (splitMode === 'percentage') {
+        if (typeof target.percentage !== 'number' || target.percentage < 0 || target.percentage > 100) {
+          return res.status(400).json({ error: 'Percentages must be between 0 and 100' });
+        }
+        splitTargets.push({ personId: target.personId, percentage: target.percentage });
+      } else if (splitMode === 'fixed') {
+        if (!Number.isInteger(target.amount) || target.amount < 0) {
+          return res.status(400).json({ error: 'Fixed amounts must be whole minor units (e.g. cents)' });
+        }
+        splitTargets.push({ personId: target.personId, amount: target.amount });
+      }
+    }
+
+    receipt.splitMode = splitMode;
+    receipt.splitTargets = splitTargets;
+
+    const targetsError = SplitCalculationService.splitTargetsError(receipt);
+    if (targetsError) {
+      return res.status(400).json({ error: targetsError });
+    }
+
+    const splits = SplitCalculationService.calculateSplit(receipt);
+    receipt.splitCalculations = splits;
+    receipt.isComplete = SplitCalculationService.isReceiptComplete(receipt);
+
+    await receipt.save();
+
+    res.json({
+      success: true,
+      message: 'Split mode updated successfully',
+      splits,
+      splitMode: receipt.splitMode,
+      splitTargets: receipt.splitTargets,
+      isComplete: receipt.isComplete
+    });
+
+  } catch (error) {
+    console.error('Error updating split mode:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update split mode',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
 /**
  * GET /api/receipts/:id/split
  * Get split calculation for a receipt
@@ -748,6 +1513,7 @@ router.get('/:id/split', authenticateUser, async (req: Request, res: Response) =
       splits,
       stats,
       unassignedItems,
+      settlement: SettlementService.settle(splits),
       isComplete: SplitCalculationService.isReceiptComplete(receipt)
     });
 
@@ -763,22 +1529,18 @@ router.get('/:id/split', authenticateUser, async (req: Request, res: Response) =
 
 /**
  * PUT /api/receipts/:id/finalize-split
- * Finalize the split and update restaurant history with user's amount
+ * Finalize the split and update restaurant history with user's amount - the split of the person
+ * linked to their account, in minor units of the receipt's currency
  */
 router.put('/:id/finalize-split', authenticateUser, async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const { id } = req.params;
-    const { userAmount } = req.body; // Amount the current user (Me) spent
 
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return res.status(400).json({ error: 'Invalid receipt ID format' });
     }
 
-    if (typeof userAmount !== 'number' || userAmount < 0) {
-      return res.status(400).json({ error: 'Valid user amount is required' });
-    }
-
     const receipt = await Receipt.findOne({
       _id: new mongoose.Types.ObjectId(id),
       userId: new mongoose.Types.ObjectId(userId)
@@ -788,6 +1550,32 @@ router.put('/:id/finalize-split', authenticateUser, async (req: Request, res: Re
       return res.status(404).json({ error: 'Receipt not found' });
     }
 
+    // Don't finalize a split built on amounts that don't add up until the user has checked them
+    if (!ReconciliationService.isResolved(receipt)) {
+      return res.status(409).json({
+        error: "Receipt amounts don't add up - fix the items or totals, or accept them as printed",
+        reconciliation: receipt.reconciliation
+      });
+    }
+
+    const unassignedCharge = (receipt.charges || []).find(charge =>
+      charge.distribution === 'assigned' && (!charge.assignedTo || charge.assignedTo.length === 0)
+    );
+    if (unassignedCharge) {
+      return res.status(409).json({ error: `Choose who pays "${unassignedCharge.name}" before finalizing` });
+    }
+
+    if (!receipt.people || receipt.people.length === 0) {
+      return res.status(400).json({ error: 'Add people to the receipt before finalizing' });
+    }
+
+    const splits = SplitCalculationService.calculateSplit(receipt);
+    const ownerSplit = SplitCalculationService.ownerSplit(receipt, splits);
+    if (!ownerSplit) {
+      return res.status(400).json({ error: 'You are not one of the people on this receipt' });
+    }
+    const userAmount = ownerSplit.total;
+
     // Update restaurant history with user's specific amount
     try {
       const restaurant = await Restaurant.findOne({
@@ -799,13 +1587,14 @@ router.put('/:id/finalize-split', authenticateUser, async (req: Request, res: Re
         // Only update if receipt hasn't been finalized before
         if (!receipt.isComplete) {
           const oldTotal = restaurant.totalSpent;
-          // Add user's actual amount to total spent
-          restaurant.totalSpent += userAmount;
+          // Add user's actual amount to total spent, in the restaurant's currency
+          const convertedAmount = await CurrencyService.convert(userAmount, receipt.currency, restaurant.currency);
+          restaurant.totalSpent += convertedAmount;
           await restaurant.save();
           console.log(`📍 Restaurant ${receipt.restaurantName}:`);
-          console.log(`   Old total: $${oldTotal.toFixed(2)}`);
-          console.log(`   User amount: $${userAmount.toFixed(2)}`);
-          console.log(`   New total: $${restaurant.totalSpent.toFixed(2)}`);
+          console.log(`   Old total: ${formatMoney(oldTotal, restaurant.currency)}`);
+          console.log(`   User amount: ${formatMoney(userAmount, receipt.currency)} (${formatMoney(convertedAmount, restaurant.currency)})`);
+          console.log(`   New total: ${formatMoney(restaurant.totalSpent, restaurant.currency)}`);
         } else {
           console.log(`📍 Receipt already finalized for ${receipt.restaurantName}, skipping restaurant update`);
         }
@@ -818,6 +1607,7 @@ router.put('/:id/finalize-split', authenticateUser, async (req: Request, res: Re
     }
 
     // Mark receipt as complete
+    receipt.splitCalculations = splits;
     receipt.isComplete = true;
     await receipt.save();
 
@@ -919,21 +1709,20 @@ router.put('/restaurants/:name/favorite', authenticateUser, async (req: Request,
 
 /**
  * POST /api/receipts/test-openai
- * Test OpenAI connection and parsing
+ * Test the configured receipt parser's connection and parsing
  */
-router.post('/test-openai', async (req: Request, res: Response) => {
+router.post('/test-openai', authenticateUser, async (req: Request, res: Response) => {
   try {
-    console.log('🤖 Testing OpenAI connection...');
-
-    const openaiService = new OpenAIService();
+    const parser = ReceiptParsingService.getProvider();
+    console.log(`🤖 Testing ${parser.name} parser connection...`);
 
     // Test basic connection
-    const connectionTest = await openaiService.testConnection();
+    const connectionTest = await parser.testConnection();
 
     if (!connectionTest) {
       return res.status(500).json({
         success: false,
-        error: 'OpenAI connection failed'
+        error: `${parser.name} parser connection failed`
       });
     }
 
@@ -953,21 +1742,23 @@ router.post('/test-openai', async (req: Request, res: Response) => {
     Total                $25.12
     `;
 
-    const parsedReceipt = await openaiService.parseReceiptText(sampleReceiptText);
+    const { receipt: parsedReceipt, attempts } = await ReceiptParsingService.parseReceiptText(sampleReceiptText);
 
     res.json({
       success: true,
-      message: 'OpenAI integration is working correctly',
+      message: `${parser.name} parser is working correctly`,
+      parser: parser.name,
       connectionTest: connectionTest,
       sampleParsing: parsedReceipt,
+      parseAttempts: attempts,
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
-    console.error('❌ OpenAI test error:', error);
+    console.error('❌ Parser test error:', error);
     res.status(500).json({
       success: false,
-      error: 'OpenAI test failed',
+      error: 'Parser test failed',
       message: error instanceof Error ? error.message : 'Unknown error occurred'
     });
   }
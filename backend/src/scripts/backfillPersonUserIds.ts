@@ -0,0 +1,89 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Receipt from '../models/Receipt';
+import User from '../models/User';
+
+dotenv.config();
+
+/**
+ * One-off migration for receipts whose people were saved before they were linked to accounts:
+ * links the owner to the person with their email, or failing that the one the app added as "Me"
+ * (named "Me", with an ID starting person_me_), and everyone else with a verified account's email
+ * to that account. Receipts whose owner is already linked are skipped, so it is safe to run more
+ * than once; receipts where the owner can't be found are listed for a look by hand.
+ *
+ * Usage: npm run migrate:person-user-ids
+ */
+
+// Raw documents, read without the schema so receipts not yet migrated to minor units aren't validated
+type RawDocument = Record<string, any>;
+
+const normalizeEmail = (email: unknown): string | undefined =>
+  typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : undefined;
+
+const isOwner = (person: RawDocument, ownerEmail?: string): boolean =>
+  !!ownerEmail && normalizeEmail(person.email) === ownerEmail;
+// The heuristic the app used before people were linked - nothing else relies on it now
+const isDefaultMe = (person: RawDocument): boolean =>
+  String(person.name || '').toLowerCase() === 'me' || String(person.id || '').startsWith('person_me_');
+
+const run = async (): Promise<void> => {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI as string);
+
+    const collection = Receipt.collection;
+    const cursor = collection.find({ 'people.0': { $exists: true } });
+    const unmatched: string[] = [];
+    let linked = 0;
+
+    for await (const raw of cursor) {
+      const people: RawDocument[] = raw.people || [];
+      const ownerId: mongoose.Types.ObjectId = raw.userId;
+
+      if (people.some(person => person.userId && ownerId.equals(person.userId))) {
+        continue;
+      }
+
+      const owner = await User.findById(ownerId).select('email');
+      const ownerEmail = normalizeEmail(owner?.email);
+      let ownerIndex = people.findIndex(person => isOwner(person, ownerEmail));
+      if (ownerIndex === -1) {
+        ownerIndex = people.findIndex(isDefaultMe);
+      }
+
+      if (ownerIndex === -1) {
+        unmatched.push(String(raw._id));
+        console.log(`⚠️  Receipt ${raw._id}: couldn't tell which person is the owner`);
+        continue;
+      }
+
+      const emails = people
+        .map((person, index) => index === ownerIndex ? undefined : normalizeEmail(person.email))
+        .filter((email): email is string => !!email && email !== ownerEmail);
+      const accounts = emails.length > 0
+        ? await User.find({ email: { $in: emails }, emailVerified: true }).select('email')
+        : [];
+      const accountIds = new Map(accounts.map(account => [account.email, account._id]));
+
+      const linkedPeople = people.map((person, index) => ({
+        ...person,
+        userId: index === ownerIndex ? ownerId : accountIds.get(normalizeEmail(person.email) || '') || person.userId
+      }));
+
+      await collection.updateOne({ _id: raw._id }, { $set: { people: linkedPeople } });
+      linked++;
+      console.log(`✅ Receipt ${raw._id}: linked ${people[ownerIndex].name}`);
+    }
+
+    console.log(`\nLinked the owner on ${linked} receipts`);
+    if (unmatched.length > 0) {
+      console.log(`${unmatched.length} receipts need their owner picked by hand: ${unmatched.join(', ')}`);
+    }
+    await mongoose.disconnect();
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+};
+
+run();
@@ -0,0 +1,156 @@
+import bcrypt from 'bcryptjs';
+import express from 'express';
+import { AddressInfo } from 'net';
+import mongoose from 'mongoose';
+import User, { IUser } from '../models/User';
+import authRoutes from '../routes/authRoutes';
+import { MailMessage, MailService } from '../services/mailService';
+import { SessionService } from '../services/sessionService';
+import { generateSecureToken, hashToken } from '../utils/tokens';
+
+/**
+ * Behaviour check for the emailed reset and verification tokens: a reset link sets the password
+ * once and logs out every session, a verification link verifies the email once, and neither
+ * can be used again or after it expires. Requests go through the auth routes, with the user
+ * kept in memory and emails caught instead of sent.
+ *
+ * Usage: npm run check:auth-tokens
+ */
+
+type RawUser = Record<string, any>;
+
+let stored: RawUser = {};
+const sent: MailMessage[] = [];
+const revokedFor: string[] = [];
+
+// Just the query operators the auth routes use
+const matches = (user: RawUser, filter: Record<string, any>): boolean =>
+  Object.entries(filter).every(([field, condition]) =>
+    condition && typeof condition === 'object' && '$gt' in condition
+      ? user[field] > condition.$gt
+      : user[field] === condition);
+
+(User as any).findOne = async (filter: Record<string, any>) => matches(stored, filter) ? User.hydrate({ ...stored }) : null;
+(User as any).findOneAndUpdate = async (filter: Record<string, any>, update: Record<string, any>) => {
+  if (!matches(stored, filter)) {
+    return null;
+  }
+  Object.assign(stored, update.$set);
+  Object.keys(update.$unset || {}).forEach(field => { delete stored[field]; });
+  return User.hydrate({ ...stored });
+};
+(User.prototype as any).save = async function (this: IUser) {
+  stored = this.toObject();
+  return this;
+};
+(SessionService as any).revokeAllSessions = async (userId: string) => {
+  revokedFor.push(userId);
+  return 1;
+};
+MailService.setTransport({ send: async message => { sent.push(message); } });
+
+const newUser = (): RawUser => ({
+  _id: new mongoose.Types.ObjectId(),
+  name: 'Alex',
+  email: 'alex@example.com',
+  password: 'old-password-hash',
+  emailVerified: false
+});
+
+// The token from the link in the last email
+const emailedToken = (param: string): string =>
+  decodeURIComponent(new RegExp(`${param}=([^\\s]+)`).exec(sent[sent.length - 1].text)![1]);
+
+const run = async (): Promise<void> => {
+  const problems: string[] = [];
+  const check = (ok: boolean, message: string) => { if (!ok) problems.push(message); };
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+
+  const post = async (path: string, body: unknown) => {
+    const response = await fetch(`http://127.0.0.1:${port}/api/auth${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return response.status;
+  };
+
+  // A reset link sets the password once
+  stored = newUser();
+  await post('/forgot-password', { email: 'Alex@example.com' });
+  const resetToken = emailedToken('resetToken');
+  check(stored.passwordResetTokenHash !== undefined && stored.passwordResetTokenHash !== resetToken,
+    'only a hash of the reset token should be stored');
+
+  check(await post('/reset-password', { token: resetToken, password: 'short' }) === 400, 'a password under 6 characters should be refused');
+  check(await post('/reset-password', { token: [resetToken], password: 'new-password' }) === 400, 'a token that isn\'t a string should be refused');
+  check(await post('/reset-password', { token: resetToken, password: { length: 12 } }) === 400, 'a password that isn\'t a string should be refused');
+  check(stored.password === 'old-password-hash', 'refused resets should leave the password alone');
+
+  check(await post('/reset-password', { token: resetToken, password: 'new-password' }) === 200, 'a valid reset link should set the password');
+  check(await bcrypt.compare('new-password', stored.password), 'the new password should be stored hashed');
+  check(stored.passwordResetTokenHash === undefined && stored.passwordResetExpires === undefined, 'a used reset token should be cleared');
+  check(revokedFor.length === 1 && revokedFor[0] === String(stored._id), 'a reset should log out every session');
+  check(sent[sent.length - 1].subject.includes('password was changed'), 'a reset should email the user');
+
+  // Then it's been used
+  const changed = stored.password;
+  check(await post('/reset-password', { token: resetToken, password: 'another-password' }) === 400, 'a reset link should only work once');
+  check(stored.password === changed, 'a reused reset link should leave the password alone');
+
+  // Two requests with the same link: only one sets its password
+  stored = newUser();
+  await post('/forgot-password', { email: 'alex@example.com' });
+  const raced = emailedToken('resetToken');
+  const statuses = await Promise.all([
+    post('/reset-password', { token: raced, password: 'first-password' }),
+    post('/reset-password', { token: raced, password: 'second-password' })
+  ]);
+  check(statuses.filter(status => status === 200).length === 1, `only one of two racing resets should succeed, got ${statuses}`);
+
+  // An expired link does nothing
+  stored = newUser();
+  await post('/forgot-password', { email: 'alex@example.com' });
+  stored.passwordResetExpires = new Date(Date.now() - 1000);
+  check(await post('/reset-password', { token: emailedToken('resetToken'), password: 'new-password' }) === 400, 'an expired reset link should be refused');
+  check(stored.password === 'old-password-hash', 'an expired reset link should leave the password alone');
+
+  // A verification link verifies the email once
+  stored = newUser();
+  const verifyToken = generateSecureToken();
+  stored.emailVerificationTokenHash = hashToken(verifyToken);
+  stored.emailVerificationExpires = new Date(Date.now() + 60 * 60 * 1000);
+
+  check(await post('/verify-email', { token: { $ne: 'x' } }) === 400, 'a verification token that isn\'t a string should be refused');
+  check(await post('/verify-email', { token: generateSecureToken() }) === 400, 'an unknown verification token should be refused');
+  check(stored.emailVerified === false, 'refused verifications should leave the email unverified');
+
+  check(await post('/verify-email', { token: verifyToken }) === 200, 'a valid verification link should verify the email');
+  check(stored.emailVerified === true && stored.emailVerifiedAt instanceof Date, 'the email should be marked verified');
+  check(stored.emailVerificationTokenHash === undefined && stored.emailVerificationExpires === undefined,
+    'a used verification token should be cleared');
+  check(await post('/verify-email', { token: verifyToken }) === 400, 'a verification link should only work once');
+
+  // An expired link does nothing
+  stored = newUser();
+  const expiredToken = generateSecureToken();
+  stored.emailVerificationTokenHash = hashToken(expiredToken);
+  stored.emailVerificationExpires = new Date(Date.now() - 1000);
+  check(await post('/verify-email', { token: expiredToken }) === 400, 'an expired verification link should be refused');
+  check(stored.emailVerified === false, 'an expired verification link should leave the email unverified');
+
+  server.close();
+
+  if (problems.length > 0) {
+    problems.forEach(problem => console.log(`❌ ${problem}`));
+    process.exit(1);
+  }
+  console.log('✅ Reset and verification links work once and only before they expire');
+};
+
+run();
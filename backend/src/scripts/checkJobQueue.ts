@@ -0,0 +1,143 @@
+import mongoose from 'mongoose';
+import Job, { IJob } from '../models/Job';
+import { JOB_CONFIG } from '../config/jobs';
+import { JobQueue } from '../services/jobQueue';
+
+/**
+ * Regression check for crash recovery in the job queue: a job whose worker died mid-run is
+ * run again while it has attempts left, and failed (with its onFailure called) once it had
+ * none. Also checks that overlapping polls stay within the concurrency limit and that a
+ * long-running job keeps its lock. The Job collection is replaced by an in-memory one so no
+ * database is needed.
+ *
+ * Usage: npm run check:jobs
+ */
+
+type RawJob = Record<string, any>;
+
+const store: RawJob[] = [];
+
+// Just the query operators the queue uses
+const matches = (job: RawJob, filter: Record<string, any>): boolean =>
+  Object.entries(filter).every(([field, condition]) => {
+    if (field === '$or') {
+      return (condition as Record<string, any>[]).some(branch => matches(job, branch));
+    }
+    if (field === '$expr') {
+      const [operator, [left, right]] = Object.entries(condition as Record<string, [string, string]>)[0];
+      const a = job[left.slice(1)];
+      const b = job[right.slice(1)];
+      return operator === '$lt' ? a < b : a >= b;
+    }
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('$in' in condition) return condition.$in.includes(job[field]);
+      if ('$lte' in condition) return job[field] !== undefined && job[field] <= condition.$lte;
+    }
+    return job[field] === condition;
+  });
+
+(Job as any).findOneAndUpdate = async (filter: Record<string, any>, update: Record<string, any>) => {
+  const job = store
+    .filter(candidate => matches(candidate, filter))
+    .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())[0];
+  if (!job) {
+    return null;
+  }
+
+  Object.assign(job, update.$set || {});
+  Object.entries(update.$inc || {}).forEach(([field, amount]) => { job[field] += amount as number; });
+  Object.keys(update.$unset || {}).forEach(field => { delete job[field]; });
+  return Job.hydrate({ ...job });
+};
+
+(Job as any).updateOne = async (filter: Record<string, any>, update: Record<string, any>) => {
+  const { _id, ...rest } = filter;
+  const job = store.find(candidate => String(candidate._id) === String(_id) && matches(candidate, rest));
+  if (job) {
+    Object.assign(job, update.$set || {});
+  }
+  return { modifiedCount: job ? 1 : 0 };
+};
+
+(Job.prototype as any).save = async function (this: IJob) {
+  // Replaced in place, so fields set to undefined are dropped and the check's references stay current
+  const stored = store.find(job => String(job._id) === String(this._id))!;
+  Object.keys(stored).forEach(field => { delete stored[field]; });
+  Object.assign(stored, this.toObject());
+  return this;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const addJob = (fields: RawJob): RawJob => {
+  const job = { _id: new mongoose.Types.ObjectId(), type: 'check', payload: {}, runAt: new Date(0), ...fields };
+  store.push(job);
+  return job;
+};
+
+const run = async (): Promise<void> => {
+  const staleLock = new Date(Date.now() - JOB_CONFIG.lockTimeoutMs - 1000);
+  const ran: string[] = [];
+  const failures: Array<{ id: string; message: string; willRetry: boolean }> = [];
+
+  JobQueue.register('check', {
+    handler: async job => { ran.push(String(job._id)); },
+    onFailure: async (job, error, willRetry) => { failures.push({ id: String(job._id), message: error.message, willRetry }); }
+  });
+
+  // Worker crashed during the last attempt, and during an earlier one
+  const lastAttempt = addJob({ status: 'running', attempts: 3, maxAttempts: 3, lockedAt: staleLock, lockedBy: 'dead-worker' });
+  const earlierAttempt = addJob({ status: 'running', attempts: 1, maxAttempts: 3, lockedAt: staleLock, lockedBy: 'dead-worker' });
+  // Still running on a live worker
+  const running = addJob({ status: 'running', attempts: 3, maxAttempts: 3, lockedAt: new Date(), lockedBy: 'live-worker' });
+
+  await JobQueue.poll();
+  await wait(50);
+
+  const problems: string[] = [];
+  const check = (ok: boolean, message: string) => { if (!ok) problems.push(message); };
+
+  check(lastAttempt.status === 'failed', `job crashed on its last attempt should be failed, is ${lastAttempt.status}`);
+  check(!lastAttempt.lockedBy, 'failed job should no longer be locked');
+  check(failures.length === 1 && failures[0].id === String(lastAttempt._id) && !failures[0].willRetry,
+    `onFailure should run once for the abandoned job without a retry, got ${JSON.stringify(failures)}`);
+  check(!ran.includes(String(lastAttempt._id)), 'job with no attempts left should not run again');
+  check(earlierAttempt.status === 'completed' && earlierAttempt.attempts === 2,
+    `job crashed on an earlier attempt should be run again, is ${earlierAttempt.status} after ${earlierAttempt.attempts} attempts`);
+  check(running.status === 'running' && running.lockedBy === 'live-worker', 'job on a live worker should be left alone');
+
+  // Slow jobs, with polls started on top of each other
+  JOB_CONFIG.lockRenewIntervalMs = 10;
+  let runningNow = 0;
+  let mostAtOnce = 0;
+  JobQueue.register('slow', {
+    handler: async () => {
+      mostAtOnce = Math.max(mostAtOnce, ++runningNow);
+      await wait(60);
+      runningNow--;
+    }
+  });
+  const slowJobs = [1, 2, 3, 4].map(() => addJob({ type: 'slow', status: 'queued', attempts: 0, maxAttempts: 3 }));
+
+  await Promise.all([JobQueue.poll(), JobQueue.poll(), JobQueue.poll()]);
+  const claimedAt = slowJobs[0].lockedAt?.getTime();
+  await wait(40);
+
+  check(mostAtOnce <= JOB_CONFIG.concurrency, `overlapping polls should run at most ${JOB_CONFIG.concurrency} jobs at once, ran ${mostAtOnce}`);
+  check(!!claimedAt && slowJobs[0].lockedAt?.getTime() > claimedAt, 'a running job should keep renewing its lock');
+
+  for (let round = 0; round < 10 && slowJobs.some(job => job.status !== 'completed'); round++) {
+    await JobQueue.poll();
+    await wait(70);
+  }
+  check(slowJobs.every(job => job.status === 'completed' && job.attempts === 1),
+    `each slow job should run exactly once, got ${slowJobs.map(job => `${job.status}/${job.attempts}`).join(', ')}`);
+
+  if (problems.length > 0) {
+    problems.forEach(problem => console.log(`❌ ${problem}`));
+    process.exit(1);
+  }
+  console.log('✅ Job queue recovers from crashed workers and keeps running jobs locked');
+};
+
+run();
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { OCR_CONFIG } from '../config/ocr';
+import { OcrFixture } from '../services/ocr';
+import { LayoutParsedReceipt, LayoutParser } from '../services/parsing';
+
+// OCR fixture with the result the layout parser should produce for it
+interface LayoutFixture extends OcrFixture {
+  expected?: Partial<Omit<LayoutParsedReceipt, 'confidence'>>;
+}
+
+/**
+ * Regression check for the layout parser: runs every OCR fixture that has an "expected"
+ * block and reports the fields that don't match.
+ *
+ * Usage: npm run check:layouts
+ */
+const collectFixtures = (dir: string): string[] => {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return collectFixtures(entryPath);
+    }
+    return entry.name.endsWith('.json') ? [entryPath] : [];
+  });
+};
+
+const compare = (expected: NonNullable<LayoutFixture['expected']>, actual: LayoutParsedReceipt): string[] => {
+  const problems: string[] = [];
+
+  for (const field of ['restaurantName', 'date', 'currency', 'subtotal', 'tax', 'tip', 'total'] as const) {
+    if (expected[field] !== actual[field]) {
+      problems.push(`${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(actual[field])}`);
+    }
+  }
+
+  if (expected.items) {
+    const simplify = (items: NonNullable<typeof expected.items>) =>
+      items.map(item => `${item.quantity} x ${item.name} @ ${item.price}${item.taxCategory && item.taxCategory !== 'standard' ? ` [${item.taxCategory}]` : ''}`);
+    const expectedItems = simplify(expected.items);
+    const actualItems = simplify(actual.items);
+
+    if (JSON.stringify(expectedItems) !== JSON.stringify(actualItems)) {
+      problems.push(`items:\n      expected ${JSON.stringify(expectedItems)}\n      got      ${JSON.stringify(actualItems)}`);
+    }
+  }
+
+  if (expected.discounts) {
+    const simplify = (discounts: NonNullable<typeof expected.discounts>) =>
+      discounts.map(discount => `${discount.name} -${discount.amount}${discount.itemIndex !== undefined ? ` on #${discount.itemIndex}` : ''}`);
+    const expectedDiscounts = simplify(expected.discounts);
+    const actualDiscounts = simplify(actual.discounts);
+
+    if (JSON.stringify(expectedDiscounts) !== JSON.stringify(actualDiscounts)) {
+      problems.push(`discounts:\n      expected ${JSON.stringify(expectedDiscounts)}\n      got      ${JSON.stringify(actualDiscounts)}`);
+    }
+  }
+
+  if (expected.charges) {
+    const simplify = (charges: NonNullable<typeof expected.charges>) =>
+      charges.map(charge => `${charge.type}: ${charge.name} ${charge.amount}`);
+    const expectedCharges = simplify(expected.charges);
+    const actualCharges = simplify(actual.charges);
+
+    if (JSON.stringify(expectedCharges) !== JSON.stringify(actualCharges)) {
+      problems.push(`charges:\n      expected ${JSON.stringify(expectedCharges)}\n      got      ${JSON.stringify(actualCharges)}`);
+    }
+  }
+
+  if (expected.taxLines) {
+    const simplify = (taxLines: NonNullable<typeof expected.taxLines>) =>
+      taxLines.map(line => `${line.category}: ${line.name}${line.rate !== undefined ? ` (${line.rate}%)` : ''} ${line.amount}`);
+    const expectedTaxLines = simplify(expected.taxLines);
+    const actualTaxLines = simplify(actual.taxLines);
+
+    if (JSON.stringify(expectedTaxLines) !== JSON.stringify(actualTaxLines)) {
+      problems.push(`taxLines:\n      expected ${JSON.stringify(expectedTaxLines)}\n      got      ${JSON.stringify(actualTaxLines)}`);
+    }
+  }
+
+  return problems;
+};
+
+const run = (): void => {
+  const files = collectFixtures(OCR_CONFIG.fixture.dir);
+  let checked = 0;
+  let failed = 0;
+
+  for (const file of files) {
+    const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as LayoutFixture;
+    if (!fixture.expected) {
+      continue;
+    }
+
+    checked++;
+    const name = path.relative(OCR_CONFIG.fixture.dir, file);
+    const problems = compare(fixture.expected, LayoutParser.parse(fixture.lines));
+
+    if (problems.length === 0) {
+      console.log(`✅ ${name}`);
+    } else {
+      failed++;
+      console.log(`❌ ${name}`);
+      problems.forEach(problem => console.log(`    ${problem}`));
+    }
+  }
+
+  console.log(`\n${checked - failed}/${checked} layout fixtures passed`);
+  process.exit(failed > 0 ? 1 : 0);
+};
+
+run();
@@ -0,0 +1,86 @@
+import mongoose from 'mongoose';
+import Receipt from '../models/Receipt';
+import { SplitCalculationService } from '../services/splitCalculationService';
+import { allocate, fromMinorUnits, minorUnitDigits, toMinorUnits } from '../utils/money';
+
+/**
+ * Behaviour check for money in minor units: conversion to and from decimals for currencies
+ * with 0, 2 and 3 digits, allocate always adding up to exactly the amount with the leftover
+ * units handed out in turn, and a split whose shares don't divide evenly still adding up to
+ * the printed total.
+ *
+ * Usage: npm run check:money
+ */
+
+const problems: string[] = [];
+const check = (ok: boolean, message: string) => { if (!ok) problems.push(message); };
+const same = (actual: unknown, expected: unknown, what: string) =>
+  check(JSON.stringify(actual) === JSON.stringify(expected), `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+
+const checkConversion = (): void => {
+  same([minorUnitDigits('USD'), minorUnitDigits('JPY'), minorUnitDigits('BHD')], [2, 0, 3], 'minor unit digits');
+  same(toMinorUnits(12.5, 'USD'), 1250, '12.50 USD in cents');
+  same(toMinorUnits(0.1 + 0.2, 'USD'), 30, '0.1 + 0.2 USD in cents');
+  same(toMinorUnits(1500, 'JPY'), 1500, '1500 JPY');
+  same(toMinorUnits(1.234, 'BHD'), 1234, '1.234 BHD in fils');
+  same(fromMinorUnits(1250, 'USD'), 12.5, '1250 cents as USD');
+};
+
+const checkAllocate = (): void => {
+  same(allocate(100, [1, 1, 1]), { parts: [34, 33, 33], extra: [1, 0, 0] }, '100 three ways');
+  same(allocate(100, [1, 1, 1], 1).parts, [33, 34, 33], '100 three ways, starting from the second');
+  same(allocate(100, [1, 1, 1], 2).parts, [33, 33, 34], '100 three ways, starting from the third');
+  same(allocate(7, [1, 2]).parts, [2, 5], '7 split 1:2 (the larger remainder gets the unit)');
+  same(allocate(-100, [1, 1, 1]).parts, [-34, -33, -33], '-100 three ways');
+  same(allocate(1000, [0, 1]).parts, [0, 1000], 'a zero weight gets nothing');
+  same(allocate(500, [0, 0]).parts, [0, 0], 'nothing is allocated without weights');
+
+  // Whatever the amount and weights, the parts add up and each is within a unit of its exact share
+  for (let amount = -37; amount <= 1013; amount += 53) {
+    for (const weights of [[1], [1, 1], [3, 1, 1], [2, 5, 0, 7], [1, 1, 1, 1, 1, 1, 1]]) {
+      const { parts, extra } = allocate(amount, weights);
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      check(parts.reduce((sum, part) => sum + part, 0) === amount, `allocate(${amount}, ${weights}) adds up to ${parts}`);
+      check(parts.every((part, index) => Math.abs(part - (amount * weights[index]) / totalWeight) < 1),
+        `allocate(${amount}, ${weights}) gave a part more than a unit from its share: ${parts}`);
+      check(extra.every(count => Math.abs(count) <= 1), `allocate(${amount}, ${weights}) gave more than one leftover unit: ${extra}`);
+    }
+  }
+};
+
+const checkSplit = (): void => {
+  const people = ['a', 'b', 'c'].map(id => ({ id, name: id.toUpperCase(), isRegisteredUser: false }));
+  const receipt = Receipt.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    userId: new mongoose.Types.ObjectId(),
+    restaurantName: 'Check',
+    currency: 'USD',
+    people,
+    items: [
+      { name: 'Pizza', quantity: 1, price: 1000, assignedTo: ['a', 'b', 'c'] },
+      { name: 'Salad', quantity: 1, price: 701, assignedTo: ['a', 'b', 'c'] }
+    ],
+    subtotal: 1701,
+    tax: 100,
+    tip: 250,
+    total: 2051
+  });
+
+  const splits = SplitCalculationService.calculateSplit(receipt);
+  const total = splits.reduce((sum, split) => sum + split.total, 0);
+  same(total, 2051, 'split of an uneven bill adds up to the total');
+  check(splits.every(split => Number.isInteger(split.total)), 'every share is a whole number of cents');
+  check(Math.max(...splits.map(split => split.total)) - Math.min(...splits.map(split => split.total)) <= 3,
+    `equal shares should differ by a few cents at most, got ${splits.map(split => split.total)}`);
+  same(splits.map(split => split.leftoverUnits).reduce((sum, units) => sum + units, 0) > 0, true, 'leftover cents are recorded');
+};
+
+checkConversion();
+checkAllocate();
+checkSplit();
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.log(`❌ ${problem}`));
+  process.exit(1);
+}
+console.log('✅ Money adds up in minor units');
@@ -0,0 +1,144 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { Request } from 'express';
+import Session, { ISession } from '../models/Session';
+import User from '../models/User';
+import { AUTH_CONFIG } from '../config/auth';
+import { AccessTokenPayload, RefreshTokenError, SessionService } from '../services/sessionService';
+
+/**
+ * Behaviour check for sessions and refresh token rotation: each refresh replaces the token,
+ * two refreshes racing with the same token both get the new one, a token replayed after the
+ * grace window revokes the session, and lastUsedAt follows authenticated requests. The
+ * Session collection is replaced by an in-memory one so no database is needed.
+ *
+ * Usage: npm run check:sessions
+ */
+
+type RawSession = Record<string, any>;
+
+const store: RawSession[] = [];
+
+// Just the query operators the session service uses
+const matches = (session: RawSession, filter: Record<string, any>): boolean =>
+  Object.entries(filter).every(([field, condition]) => {
+    const value = session[field];
+    if (condition instanceof mongoose.Types.ObjectId) {
+      return String(value) === String(condition);
+    }
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('$exists' in condition) return (value !== undefined) === condition.$exists;
+      if ('$ne' in condition) return String(value) !== String(condition.$ne);
+      if ('$gt' in condition) return value > condition.$gt;
+      if ('$lt' in condition) return value < condition.$lt;
+    }
+    return String(value) === String(condition);
+  });
+
+// Resolves like a query, with the select() the service chains on
+const query = <T>(run: () => T) => {
+  const result = new Promise<T>(resolve => setTimeout(() => resolve(run()), 5));
+  return Object.assign(result, { select: () => result });
+};
+
+const hydrate = (session: RawSession | undefined) => session ? Session.hydrate({ ...session }) : null;
+
+(Session as any).findById = (id: string) => query(() => hydrate(store.find(session => String(session._id) === String(id))));
+(Session as any).findOne = (filter: Record<string, any>) => query(() => hydrate(store.find(session => matches(session, filter))));
+(Session as any).findOneAndUpdate = (filter: Record<string, any>, update: Record<string, any>) => query(() => {
+  const session = store.find(candidate => matches(candidate, filter));
+  if (session) {
+    Object.assign(session, update.$set);
+  }
+  return hydrate(session);
+});
+(Session as any).updateOne = (filter: Record<string, any>, update: Record<string, any>) => query(() => {
+  const session = store.find(candidate => matches(candidate, filter));
+  Object.assign(session || {}, update.$set || update);
+  return { modifiedCount: session ? 1 : 0 };
+});
+(Session as any).updateMany = (filter: Record<string, any>, update: Record<string, any>) => query(() => {
+  const sessions = store.filter(candidate => matches(candidate, filter));
+  sessions.forEach(session => Object.assign(session, update));
+  return { modifiedCount: sessions.length };
+});
+(Session.prototype as any).save = async function (this: ISession) {
+  store.push(this.toObject());
+  return this;
+};
+(User as any).findById = () => ({ select: async () => ({ email: 'alex@example.com' }) });
+
+const userId = new mongoose.Types.ObjectId().toString();
+const req = { ip: '127.0.0.1', headers: { 'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Chrome/120.0' } } as unknown as Request;
+const stored = (sessionId: string) => store.find(session => String(session._id) === sessionId)!;
+const rejection = <T>(promise: Promise<T>) => promise.catch((error: Error) => error);
+
+const run = async (): Promise<void> => {
+  const problems: string[] = [];
+  const check = (ok: boolean, message: string) => { if (!ok) problems.push(message); };
+
+  // A new session's tokens
+  const first = await SessionService.createSession(userId, 'alex@example.com', req);
+  const claims = jwt.verify(first.token, AUTH_CONFIG.jwtSecret) as AccessTokenPayload;
+  check(claims.sessionId === first.sessionId && claims.userId === userId, 'access token should name the session and user');
+  check(stored(first.sessionId).deviceName === 'Chrome on macOS', `device name should be "Chrome on macOS", is ${stored(first.sessionId).deviceName}`);
+  check(!stored(first.sessionId).refreshTokenHash.includes(first.refreshToken.split('.')[1]), 'the refresh secret should only be stored hashed');
+
+  // Refreshing replaces the token
+  const second = await SessionService.rotateRefreshToken(first.refreshToken, req);
+  check(second.refreshToken !== first.refreshToken && second.sessionId === first.sessionId, 'refresh should issue a new token for the same session');
+
+  // Two tabs refreshing with the same token at once both get the new one
+  const [tabA, tabB] = await Promise.all([
+    SessionService.rotateRefreshToken(second.refreshToken, req),
+    rejection(SessionService.rotateRefreshToken(second.refreshToken, req))
+  ]);
+  check(!(tabB instanceof Error) && tabA.refreshToken === tabB.refreshToken, `racing refreshes should get the same new token, got ${tabB}`);
+  check(!stored(first.sessionId).revokedAt, 'racing refreshes should not revoke the session');
+  check(!((await rejection(SessionService.rotateRefreshToken(tabA.refreshToken, req))) instanceof Error), 'the token both tabs got should refresh');
+
+  // A token from two rotations ago is a replay
+  const replay = await rejection(SessionService.rotateRefreshToken(second.refreshToken, req));
+  check(replay instanceof RefreshTokenError, `replaying an old token should fail, got ${replay}`);
+  check(stored(first.sessionId).revokedReason === 'token_reuse', 'replaying an old token should revoke the session');
+  check(!(await SessionService.isSessionActive(first.sessionId, userId)), 'a revoked session should not be active');
+
+  // The just-replaced token is only accepted within the grace window
+  const late = await SessionService.createSession(userId, 'alex@example.com', req);
+  const lateNext = await SessionService.rotateRefreshToken(late.refreshToken, req);
+  stored(late.sessionId).rotatedAt = new Date(Date.now() - (AUTH_CONFIG.refreshTokenReuseGraceSeconds + 1) * 1000);
+  const lateReplay = await rejection(SessionService.rotateRefreshToken(late.refreshToken, req));
+  check(lateReplay instanceof RefreshTokenError && stored(late.sessionId).revokedReason === 'token_reuse',
+    'the replaced token should revoke the session once the grace window has passed');
+  check(await rejection(SessionService.rotateRefreshToken(lateNext.refreshToken, req)) instanceof RefreshTokenError,
+    'no token should refresh a revoked session');
+
+  const malformed = await rejection(SessionService.rotateRefreshToken('not-a-token', req));
+  check(malformed instanceof RefreshTokenError, 'a malformed token should be rejected');
+
+  // Authenticated requests keep lastUsedAt current, at most once per throttle window
+  const active = await SessionService.createSession(userId, 'alex@example.com', req);
+  const longAgo = new Date(Date.now() - (AUTH_CONFIG.sessionLastUsedThrottleSeconds + 1) * 1000);
+  stored(active.sessionId).lastUsedAt = longAgo;
+  check(await SessionService.isSessionActive(active.sessionId, userId), 'a new session should be active');
+  const touched = stored(active.sessionId).lastUsedAt as Date;
+  check(touched > longAgo, 'a request should update a stale lastUsedAt');
+  await SessionService.isSessionActive(active.sessionId, userId);
+  check(stored(active.sessionId).lastUsedAt === touched, 'a request within the throttle window should leave lastUsedAt alone');
+  check(!(await SessionService.isSessionActive(active.sessionId, new mongoose.Types.ObjectId().toString())),
+    'a session should not be active for another user');
+
+  // Logging out everywhere else keeps the current session
+  const other = await SessionService.createSession(userId, 'alex@example.com', req);
+  const revoked = await SessionService.revokeAllSessions(userId, active.sessionId);
+  check(revoked === 1 && !!stored(other.sessionId).revokedAt && !stored(active.sessionId).revokedAt,
+    `logging out elsewhere should revoke only the other session, revoked ${revoked}`);
+
+  if (problems.length > 0) {
+    problems.forEach(problem => console.log(`❌ ${problem}`));
+    process.exit(1);
+  }
+  console.log('✅ Sessions rotate, tolerate racing refreshes and revoke on replay');
+};
+
+run();
@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import Receipt from '../models/Receipt';
+import { SettlementService, Transfer } from '../services/settlementService';
+import { SplitCalculationService } from '../services/splitCalculationService';
+
+/**
+ * Behaviour check for settling up: the transfers always leave everyone square, people whose
+ * balances cancel out are settled among themselves so there are as few transfers as possible,
+ * and what's still to be paid is reported when the payments don't cover the bill.
+ *
+ * Usage: npm run check:settlement
+ */
+
+const problems: string[] = [];
+const check = (ok: boolean, message: string) => { if (!ok) problems.push(message); };
+const same = (actual: unknown, expected: unknown, what: string) =>
+  check(JSON.stringify(actual) === JSON.stringify(expected), `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+
+const balances = (amounts: number[]) =>
+  amounts.map((balance, index) => ({ personId: `p${index}`, name: `P${index}`, balance }));
+
+const describe = (transfers: Transfer[]) => transfers.map(transfer => `${transfer.fromPersonId}->${transfer.toPersonId} ${transfer.amount}`);
+
+// Apply the transfers and check nobody is left owing or owed
+const checkSquare = (amounts: number[], what: string): Transfer[] => {
+  const { transfers, unsettled } = SettlementService.settle(balances(amounts));
+  const after = new Map(balances(amounts).map(person => [person.personId, person.balance]));
+  transfers.forEach(transfer => {
+    after.set(transfer.fromPersonId, after.get(transfer.fromPersonId)! + transfer.amount);
+    after.set(transfer.toPersonId, after.get(transfer.toPersonId)! - transfer.amount);
+  });
+
+  same(unsettled, 0, `${what}: unsettled`);
+  check([...after.values()].every(balance => balance === 0), `${what}: transfers ${describe(transfers)} don't settle everyone`);
+  check(transfers.every(transfer => transfer.amount > 0), `${what}: every transfer should be for a positive amount`);
+  return transfers;
+};
+
+const checkTransfers = (): void => {
+  same(describe(checkSquare([2000, -1000, -1000], 'one person paid')), ['p1->p0 1000', 'p2->p0 1000'], 'one person paid');
+
+  // Two pairs who owe each other: two transfers, each within its pair
+  same(describe(checkSquare([500, -500, 300, -300], 'two pairs')).sort(), ['p1->p0 500', 'p3->p2 300'], 'two pairs');
+
+  // {+3, -3} and {+4, -2, -2} settle in 1 + 2 transfers; paying the largest debt to the largest credit takes 4
+  same(checkSquare([4, 3, -3, -2, -2], 'two groups').length, 3, 'transfers for two groups');
+
+  // Beyond the exact search, everyone is still settled
+  const many = Array.from({ length: 20 }, (_, index) => index % 2 === 0 ? index + 1 : -index);
+  many[many.length - 1] -= many.reduce((sum, balance) => sum + balance, 0);
+  check(checkSquare(many, '20 people').length <= many.length - 1, 'no more than n - 1 transfers for 20 people');
+};
+
+const checkUnsettled = (): void => {
+  same(SettlementService.settle(balances([-1000, -1000])), { transfers: [], unsettled: 2000 }, 'nobody has paid');
+
+  const { transfers, unsettled } = SettlementService.settle(balances([1500, -1000, -1000]));
+  same(unsettled, 500, 'still to be paid when payments fall short');
+  same(transfers.reduce((sum, transfer) => sum + transfer.amount, 0), 1500, 'transfers covering what was paid');
+};
+
+const checkSplitBalances = (): void => {
+  const receipt = Receipt.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    userId: new mongoose.Types.ObjectId(),
+    restaurantName: 'Check',
+    currency: 'USD',
+    people: [
+      { id: 'alex', name: 'Alex', isRegisteredUser: false },
+      { id: 'sam', name: 'Sam', isRegisteredUser: false }
+    ],
+    items: [
+      { name: 'Steak', quantity: 1, price: 3000, assignedTo: ['alex'] },
+      { name: 'Soup', quantity: 1, price: 1000, assignedTo: ['sam'] }
+    ],
+    subtotal: 4000,
+    tax: 0,
+    tip: 0,
+    total: 4000,
+    payers: [{ personId: 'alex', amount: 4000 }]
+  });
+
+  const splits = SplitCalculationService.calculateSplit(receipt);
+  same(splits.map(split => [split.personId, split.paid, split.balance]), [['alex', 4000, 1000], ['sam', 0, -1000]], 'paid and balance');
+  same(describe(SettlementService.settle(splits).transfers), ['sam->alex 1000'], 'settling the split');
+};
+
+checkTransfers();
+checkUnsettled();
+checkSplitBalances();
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.log(`❌ ${problem}`));
+  process.exit(1);
+}
+console.log('✅ Settling up leaves everyone square in as few transfers as possible');
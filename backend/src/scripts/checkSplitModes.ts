@@ -0,0 +1,122 @@
+import mongoose from 'mongoose';
+import Receipt, { IReceipt } from '../models/Receipt';
+import { SplitCalculationService } from '../services/splitCalculationService';
+
+/**
+ * Behaviour check for the split modes: itemized, equal, percentage, fixed amounts and hybrid
+ * each share the same bill the way they should, always adding up to the total, and
+ * percentages or fixed amounts that can't work are reported.
+ *
+ * Usage: npm run check:splits
+ */
+
+const problems: string[] = [];
+const check = (ok: boolean, message: string) => { if (!ok) problems.push(message); };
+const same = (actual: unknown, expected: unknown, what: string) =>
+  check(JSON.stringify(actual) === JSON.stringify(expected), `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+
+// Alex had the burger, Sam the pasta, they shared fries and Jo had both glasses of wine - $66.10 in all
+const bill = (fields: Record<string, any> = {}): IReceipt => Receipt.hydrate({
+  _id: new mongoose.Types.ObjectId(),
+  userId: new mongoose.Types.ObjectId(),
+  restaurantName: 'Check',
+  currency: 'USD',
+  people: [
+    { id: 'alex', name: 'Alex', isRegisteredUser: false },
+    { id: 'sam', name: 'Sam', isRegisteredUser: false },
+    { id: 'jo', name: 'Jo', isRegisteredUser: false }
+  ],
+  items: [
+    { name: 'Burger', quantity: 1, price: 1200, assignedTo: ['alex'] },
+    { name: 'Pasta', quantity: 1, price: 1500, assignedTo: ['sam'] },
+    { name: 'Fries', quantity: 1, price: 600, assignedTo: ['alex', 'sam'] },
+    { name: 'Wine', quantity: 2, price: 900, assignedTo: ['jo'] }
+  ],
+  subtotal: 5100,
+  tax: 510,
+  tip: 1000,
+  total: 6610,
+  ...fields
+});
+
+const unassigned = (receipt: IReceipt): IReceipt => {
+  receipt.items.forEach(item => { item.assignedTo = []; });
+  return receipt;
+};
+
+const byPerson = (receipt: IReceipt, field: 'subtotal' | 'total') =>
+  Object.fromEntries(SplitCalculationService.calculateSplit(receipt).map(split => [split.personId, split[field]]));
+
+const checkAddsUp = (receipt: IReceipt, mode: string) => {
+  const total = SplitCalculationService.calculateSplit(receipt).reduce((sum, split) => sum + split.total, 0);
+  same(total, receipt.total, `${mode} split total`);
+};
+
+const checkItemized = (): void => {
+  const receipt = bill();
+  same(byPerson(receipt, 'subtotal'), { alex: 1500, sam: 1800, jo: 1800 }, 'itemized subtotals');
+  checkAddsUp(receipt, 'itemized');
+  same(SplitCalculationService.isReceiptComplete(receipt), true, 'completeness of an itemized receipt with every item assigned');
+
+  receipt.items[3].assignedTo = [];
+  same(SplitCalculationService.isReceiptComplete(receipt), false, 'completeness of an itemized receipt with an unassigned item');
+};
+
+const checkEqual = (): void => {
+  const receipt = unassigned(bill({ splitMode: 'equal' }));
+  same(byPerson(receipt, 'subtotal'), { alex: 1700, sam: 1700, jo: 1700 }, 'equal subtotals');
+  const totals = Object.values(byPerson(receipt, 'total'));
+  check(Math.max(...totals) - Math.min(...totals) <= 1, `equal totals should be within a cent, got ${totals}`);
+  checkAddsUp(receipt, 'equal');
+  same(SplitCalculationService.isReceiptComplete(receipt), true, 'equal split needs no assignments to be complete');
+};
+
+const checkPercentage = (): void => {
+  const receipt = unassigned(bill({
+    splitMode: 'percentage',
+    splitTargets: [{ personId: 'alex', percentage: 50 }, { personId: 'sam', percentage: 30 }, { personId: 'jo', percentage: 20 }]
+  }));
+  const totals = byPerson(receipt, 'total');
+  const expected: Record<string, number> = { alex: 3305, sam: 1983, jo: 1322 };
+  check(Object.entries(expected).every(([personId, amount]) => Math.abs(totals[personId] - amount) <= 1),
+    `percentage totals should be 50/30/20 of the bill, got ${JSON.stringify(totals)}`);
+  checkAddsUp(receipt, 'percentage');
+  same(SplitCalculationService.splitTargetsError(receipt), undefined, 'percentages adding up to 100');
+
+  receipt.splitTargets[2].percentage = 10;
+  same(SplitCalculationService.splitTargetsError(receipt), 'Percentages add up to 90%, not 100%', 'percentages adding up to 90');
+};
+
+const checkFixed = (): void => {
+  // Alex pays $30, Sam and Jo split the rest
+  const receipt = unassigned(bill({ splitMode: 'fixed', splitTargets: [{ personId: 'alex', amount: 3000 }] }));
+  same(byPerson(receipt, 'total'), { alex: 3000, sam: 1805, jo: 1805 }, 'fixed totals');
+  checkAddsUp(receipt, 'fixed');
+  same(SplitCalculationService.splitTargetsError(receipt), undefined, 'fixed amount with others splitting the rest');
+
+  receipt.splitTargets = [{ personId: 'alex', amount: 7000 }];
+  check(!!SplitCalculationService.splitTargetsError(receipt), 'a fixed amount over the total should be reported');
+
+  receipt.splitTargets = ['alex', 'sam', 'jo'].map(personId => ({ personId, amount: 2000 }));
+  check(!!SplitCalculationService.splitTargetsError(receipt), 'fixed amounts for everyone short of the total should be reported');
+};
+
+const checkHybrid = (): void => {
+  // Only the burger is itemized, everything else is shared by all three
+  const receipt = unassigned(bill({ splitMode: 'hybrid' }));
+  receipt.items[0].assignedTo = ['alex'];
+  same(byPerson(receipt, 'subtotal'), { alex: 2500, sam: 1300, jo: 1300 }, 'hybrid subtotals');
+  checkAddsUp(receipt, 'hybrid');
+};
+
+checkItemized();
+checkEqual();
+checkPercentage();
+checkFixed();
+checkHybrid();
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.log(`❌ ${problem}`));
+  process.exit(1);
+}
+console.log('✅ Every split mode shares the bill as expected');
@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+import Receipt, { IReceipt } from '../models/Receipt';
+import { SplitCalculationService } from '../services/splitCalculationService';
+import { TipService } from '../services/tipService';
+
+/**
+ * Behaviour check for tips: a percentage taken before or after tax, a set amount, the printed
+ * tip and total kept alongside the new ones (and taken again from a re-scan), and people
+ * tipping at their own rate.
+ *
+ * Usage: npm run check:tips
+ */
+
+const problems: string[] = [];
+const check = (ok: boolean, message: string) => { if (!ok) problems.push(message); };
+const same = (actual: unknown, expected: unknown, what: string) =>
+  check(JSON.stringify(actual) === JSON.stringify(expected), `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+
+// $30.00 of food and $3.00 tax, printed without a tip
+const bill = (): IReceipt => Receipt.hydrate({
+  _id: new mongoose.Types.ObjectId(),
+  userId: new mongoose.Types.ObjectId(),
+  restaurantName: 'Check',
+  currency: 'USD',
+  people: [
+    { id: 'alex', name: 'Alex', isRegisteredUser: false },
+    { id: 'sam', name: 'Sam', isRegisteredUser: false }
+  ],
+  items: [
+    { name: 'Curry', quantity: 1, price: 1500, assignedTo: ['alex'] },
+    { name: 'Noodles', quantity: 1, price: 1500, assignedTo: ['sam'] }
+  ],
+  subtotal: 3000,
+  tax: 300,
+  tip: 0,
+  total: 3300
+});
+
+const amounts = (receipt: IReceipt) => ({
+  tip: receipt.tip,
+  total: receipt.total,
+  printedTip: receipt.printedTip,
+  printedTotal: receipt.printedTotal
+});
+
+const checkPercentage = (): void => {
+  const receipt = bill();
+  TipService.setPercentage(receipt, 20, 'pre_tax');
+  same(amounts(receipt), { tip: 600, total: 3900, printedTip: 0, printedTotal: 3300 }, '20% before tax');
+
+  TipService.setPercentage(receipt, 20, 'post_tax');
+  same(amounts(receipt), { tip: 660, total: 3960, printedTip: 0, printedTotal: 3300 }, '20% after tax');
+
+  // A percentage tip follows the subtotal
+  receipt.subtotal = 4000;
+  TipService.apply(receipt);
+  same(receipt.tip, 860, 'post-tax tip after the subtotal was corrected');
+};
+
+const checkAmount = (): void => {
+  const receipt = bill();
+  TipService.setPercentage(receipt, 15);
+  TipService.setAmount(receipt, 500);
+  same(amounts(receipt), { tip: 500, total: 3800, printedTip: 0, printedTotal: 3300 }, 'a set tip amount');
+  same(receipt.tipPercentage, undefined, 'tip percentage after setting an amount');
+
+  // Apply leaves a set amount alone
+  receipt.subtotal = 4000;
+  TipService.apply(receipt);
+  same(receipt.tip, 500, 'a set tip amount after the subtotal was corrected');
+};
+
+const checkPrinted = (): void => {
+  // Without a tip set in the app, a re-scan's tip and total are simply taken
+  const untouched = bill();
+  TipService.setPrinted(untouched, 100, 3400);
+  same(amounts(untouched), { tip: 100, total: 3400, printedTip: undefined, printedTotal: undefined }, 're-scan without a tip set');
+
+  // With one set, the re-scan replaces the printed amounts and the tip stays the user's
+  const receipt = bill();
+  TipService.setPercentage(receipt, 20, 'pre_tax');
+  TipService.setPrinted(receipt, 100, 3400);
+  same(amounts(receipt), { tip: 600, total: 3900, printedTip: 100, printedTotal: 3400 }, 're-scan with a 20% tip set');
+
+  TipService.reset(receipt);
+  same([receipt.tipPercentage, receipt.printedTip, receipt.printedTotal], [undefined, undefined, undefined], 'after a reset');
+};
+
+const checkOverrides = (): void => {
+  const receipt = bill();
+  TipService.setPercentage(receipt, 20, 'pre_tax');
+  receipt.tipOverrides = [{ personId: 'alex', percentage: 25 }];
+
+  const splits = SplitCalculationService.calculateSplit(receipt);
+  const alex = splits.find(split => split.personId === 'alex')!;
+  const sam = splits.find(split => split.personId === 'sam')!;
+  same([alex.tipShare, alex.tipPercentage, sam.tipShare], [375, 25, 300], 'tips with Alex tipping 25%');
+  same(splits.reduce((sum, split) => sum + split.total, 0), 3975, 'split total with Alex tipping 5% more');
+
+  receipt.tipBasis = 'post_tax';
+  const postTax = SplitCalculationService.calculateSplit(receipt).find(split => split.personId === 'alex')!;
+  same(postTax.tipShare, 413, 'Alex tipping 25% of their share after tax');
+};
+
+checkPercentage();
+checkAmount();
+checkPrinted();
+checkOverrides();
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.log(`❌ ${problem}`));
+  process.exit(1);
+}
+console.log('✅ Tips follow their percentage, basis and overrides');
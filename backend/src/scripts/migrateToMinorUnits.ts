@@ -0,0 +1,126 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Receipt from '../models/Receipt';
+import Restaurant from '../models/Restaurant';
+import { CURRENCY_CONFIG } from '../config/currency';
+import { ReconciliationService } from '../services/reconciliationService';
+import { SplitCalculationService } from '../services/splitCalculationService';
+import { toMinorUnits } from '../utils/money';
+
+dotenv.config();
+
+/**
+ * One-off migration for receipts and restaurants saved while amounts were decimals: converts
+ * every stored amount to whole minor units of its currency, then re-runs reconciliation and
+ * the splits so their shares are allocated to the unit. Documents already in minor units are
+ * marked with amountsInMinorUnits and skipped, so it is safe to run more than once.
+ *
+ * Usage: npm run migrate:minor-units
+ */
+
+// Raw documents, read without the schema so the old decimal amounts aren't validated or defaulted
+type RawDocument = Record<string, any>;
+
+const convertAmounts = (entries: RawDocument[] | undefined, field: string, currency: string): RawDocument[] =>
+  (entries || []).map(entry => ({ ...entry, [field]: toMinorUnits(entry[field] || 0, currency) }));
+
+// The money fields shared by a receipt and an extraction result waiting in pendingReprocess
+const convertReceiptAmounts = (receipt: RawDocument, currency: string): RawDocument => ({
+  items: (receipt.items || []).map((item: RawDocument) => ({
+    ...item,
+    price: toMinorUnits(item.price || 0, currency),
+    adjustments: convertAmounts(item.adjustments, 'amount', currency)
+  })),
+  adjustments: convertAmounts(receipt.adjustments, 'amount', currency),
+  charges: convertAmounts(receipt.charges, 'amount', currency),
+  taxLines: convertAmounts(receipt.taxLines, 'amount', currency),
+  subtotal: toMinorUnits(receipt.subtotal || 0, currency),
+  tax: toMinorUnits(receipt.tax || 0, currency),
+  tip: toMinorUnits(receipt.tip || 0, currency),
+  total: toMinorUnits(receipt.total || 0, currency)
+});
+
+const migrateReceipts = async (): Promise<number> => {
+  const collection = Receipt.collection;
+  const cursor = collection.find({ amountsInMinorUnits: { $ne: true } });
+  let migrated = 0;
+
+  for await (const raw of cursor) {
+    const currency = raw.currency || CURRENCY_CONFIG.defaultCurrency;
+    const update: RawDocument = {
+      ...convertReceiptAmounts(raw, currency),
+      amountsInMinorUnits: true
+    };
+
+    if (raw.pendingReprocess?.result) {
+      const result = raw.pendingReprocess.result;
+      update['pendingReprocess.result'] = {
+        ...result,
+        ...convertReceiptAmounts(result, result.currency || currency)
+      };
+    }
+
+    // Reconciliation and splits are recalculated from the converted amounts
+    const receipt = Receipt.hydrate({ ...raw, ...update, reconciliation: undefined });
+    if (raw.reconciliation) {
+      receipt.reconciliation = {
+        ...raw.reconciliation,
+        itemsTotal: toMinorUnits(raw.reconciliation.itemsTotal || 0, currency),
+        issues: (raw.reconciliation.issues || []).map((issue: RawDocument) => ({
+          ...issue,
+          expected: toMinorUnits(issue.expected || 0, currency),
+          actual: toMinorUnits(issue.actual || 0, currency),
+          difference: toMinorUnits(issue.difference || 0, currency)
+        }))
+      };
+      update.reconciliation = ReconciliationService.apply(receipt);
+    }
+
+    if ((raw.people || []).length > 0) {
+      update.splitCalculations = SplitCalculationService.calculateSplit(receipt);
+    }
+
+    await collection.updateOne({ _id: raw._id }, { $set: update });
+    migrated++;
+    console.log(`✅ Receipt ${raw._id} (${currency})`);
+  }
+
+  return migrated;
+};
+
+const migrateRestaurants = async (): Promise<number> => {
+  const collection = Restaurant.collection;
+  const cursor = collection.find({ amountsInMinorUnits: { $ne: true } });
+  let migrated = 0;
+
+  for await (const raw of cursor) {
+    const currency = raw.currency || CURRENCY_CONFIG.defaultCurrency;
+    await collection.updateOne({ _id: raw._id }, {
+      $set: {
+        totalSpent: toMinorUnits(raw.totalSpent || 0, currency),
+        amountsInMinorUnits: true
+      }
+    });
+    migrated++;
+    console.log(`✅ Restaurant ${raw._id} (${currency})`);
+  }
+
+  return migrated;
+};
+
+const run = async (): Promise<void> => {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI as string);
+
+    const receipts = await migrateReceipts();
+    const restaurants = await migrateRestaurants();
+
+    console.log(`\nMigrated ${receipts} receipts and ${restaurants} restaurants to minor units`);
+    await mongoose.disconnect();
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+};
+
+run();
@@ -5,7 +5,15 @@ import mongoose from 'mongoose';
 import path from 'path';
 import receiptRoutes from './routes/receiptRoutes';
 import authRoutes from './routes/authRoutes';
+import fileRoutes from './routes/fileRoutes';
 import { validateAWSConfig } from './config/aws';
+import { AccountService } from './services/accountService';
+import { JobQueue } from './services/jobQueue';
+import { ReceiptProcessingService } from './services/receiptProcessingService';
+import { ReceiptReprocessService } from './services/receiptReprocessService';
+import { STORAGE_CONFIG } from './config/storage';
+import Receipt from './models/Receipt';
+import Restaurant from './models/Restaurant';
 
 // Load environment variables
 dotenv.config();
@@ -35,6 +43,18 @@ const connectDB = async (): Promise<void> => {
   }
 };
 
+// Amounts saved as decimals would be read as minor units (100x too small), so refuse to run until they're converted
+const checkMinorUnitsMigrated = async (): Promise<void> => {
+  const [receipts, restaurants] = await Promise.all([
+    Receipt.countDocuments({ amountsInMinorUnits: { $ne: true } }),
+    Restaurant.countDocuments({ amountsInMinorUnits: { $ne: true } })
+  ]);
+
+  if (receipts > 0 || restaurants > 0) {
+    throw new Error(`${receipts} receipts and ${restaurants} restaurants still have decimal amounts - run npm run migrate:minor-units first`);
+  }
+};
+
 // Basic route to test server
 app.get('/', (req: Request, res: Response) => {
   res.json({ 
@@ -46,6 +66,7 @@ app.get('/', (req: Request, res: Response) => {
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/receipts', receiptRoutes);
+app.use(STORAGE_CONFIG.local.routePath, fileRoutes);
 
 // Debug route to check file structure
 app.get('/debug/files', (req: Request, res: Response) => {
@@ -86,6 +107,7 @@ app.get('/health', async (req: Request, res: Response) => {
     status: 'OK',
     database: dbStatus,
     aws: awsConfigValid ? 'Configured' : 'Not Configured',
+    storage: STORAGE_CONFIG.driver,
     environment: process.env.NODE_ENV,
     timestamp: new Date().toISOString()
   });
@@ -110,6 +132,15 @@ const startServer = async () => {
   try {
     // Connect to MongoDB
     await connectDB();
+    await checkMinorUnitsMigrated();
+
+    // Purge accounts whose deletion grace period has ended
+    AccountService.startPurgeScheduler();
+
+    // Process uploaded receipts in the background
+    ReceiptProcessingService.registerJobHandler();
+    ReceiptReprocessService.registerJobHandler();
+    JobQueue.start();
     
     app.listen(PORT, () => {
       console.log(`✅ Server is running on http://localhost:${PORT}`);
@@ -0,0 +1,239 @@
+import archiver from 'archiver';
+import path from 'path';
+import mongoose from 'mongoose';
+import { Writable } from 'stream';
+import User, { IUser } from '../models/User';
+import Receipt from '../models/Receipt';
+import Restaurant from '../models/Restaurant';
+import Session from '../models/Session';
+import Job from '../models/Job';
+import { StorageService } from './storage';
+import { SessionService } from './sessionService';
+import { CurrencyService } from './currency';
+import { AUTH_CONFIG } from '../config/auth';
+
+export interface PurgeResult {
+  userId: string;
+  receiptsDeleted: number;
+  restaurantsDeleted: number;
+  imagesDeleted: number;
+}
+
+export class AccountService {
+
+  /**
+   * Mark an account for deletion after the grace period and log it out everywhere
+   */
+  static async scheduleDeletion(user: IUser): Promise<Date> {
+    const scheduledFor = new Date(Date.now() + AUTH_CONFIG.accountDeletionGraceDays * 24 * 60 * 60 * 1000);
+
+    user.deletionRequestedAt = new Date();
+    user.deletionScheduledFor = scheduledFor;
+    await user.save();
+
+    await SessionService.revokeAllSessions((user._id as any).toString());
+
+    return scheduledFor;
+  }
+
+  /**
+   * Cancel a pending deletion during the grace period
+   */
+  static async cancelDeletion(user: IUser): Promise<void> {
+    user.deletionRequestedAt = undefined;
+    user.deletionScheduledFor = undefined;
+    await user.save();
+  }
+
+  /**
+   * Switch the currency spending is totalled in, converting every restaurant total to it.
+   * Returns how many restaurants were converted.
+   */
+  static async changeHomeCurrency(user: IUser, homeCurrency: string): Promise<number> {
+    const restaurants = await Restaurant.find({ userId: user._id, currency: { $ne: homeCurrency } });
+
+    // Convert everything first so a missing rate leaves the history untouched
+    const converted = await Promise.all(restaurants.map(restaurant =>
+      CurrencyService.convert(restaurant.totalSpent, restaurant.currency, homeCurrency)
+    ));
+
+    for (const [index, restaurant] of restaurants.entries()) {
+      restaurant.totalSpent = converted[index];
+      restaurant.currency = homeCurrency;
+      await restaurant.save();
+    }
+
+    user.homeCurrency = homeCurrency;
+    await user.save();
+
+    return restaurants.length;
+  }
+
+  /**
+   * Permanently remove a user and everything they own: receipt images, receipts, their
+   * background jobs, restaurant history and sessions. People on other users' receipts
+   * linked to the account are unlinked.
+   */
+  static async purgeAccount(userId: string): Promise<PurgeResult> {
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const receipts = await Receipt.find({ userId: userObjectId }).select('_id s3Key');
+
+    let imagesDeleted = 0;
+    let imageErrors = 0;
+
+    // Step 1: Delete receipt images from storage
+    for (const receipt of receipts) {
+      if (!receipt.s3Key) continue;
+
+      try {
+        await StorageService.getDriver().deleteFile(receipt.s3Key);
+        imagesDeleted++;
+      } catch (error) {
+        imageErrors++;
+        console.error(`Error deleting image ${receipt.s3Key} during account purge:`, error);
+      }
+    }
+
+    if (imageErrors > 0) {
+      // Leave the account in place so the next purge run retries the images
+      throw new Error(`Failed to delete ${imageErrors} receipt image(s) for user ${userId}`);
+    }
+
+    // Step 2: Delete database records
+    await Job.deleteMany({ 'payload.receiptId': { $in: receipts.map(receipt => (receipt._id as any).toString()) } });
+    const receiptResult = await Receipt.deleteMany({ userId: userObjectId });
+    const restaurantResult = await Restaurant.deleteMany({ userId: userObjectId });
+    await Session.deleteMany({ userId: userObjectId });
+
+    // Step 3: Unlink the account from people on other users' receipts
+    await Receipt.updateMany(
+      { 'people.userId': userObjectId },
+      { $unset: { 'people.$[person].userId': 1 } },
+      { arrayFilters: [{ 'person.userId': userObjectId }] }
+    );
+
+    await User.findByIdAndDelete(userObjectId);
+
+    return {
+      userId,
+      receiptsDeleted: receiptResult.deletedCount,
+      restaurantsDeleted: restaurantResult.deletedCount,
+      imagesDeleted
+    };
+  }
+
+  /**
+   * Purge every account whose grace period has ended
+   */
+  static async purgeDueAccounts(): Promise<PurgeResult[]> {
+    const dueUsers = await User.find({ deletionScheduledFor: { $lte: new Date() } }).select('_id');
+    const results: PurgeResult[] = [];
+
+    for (const user of dueUsers) {
+      const userId = (user._id as any).toString();
+      try {
+        const result = await this.purgeAccount(userId);
+        console.log(`🗑️ Purged account ${userId}: ${result.receiptsDeleted} receipts, ${result.restaurantsDeleted} restaurants, ${result.imagesDeleted} images`);
+        results.push(result);
+      } catch (error) {
+        console.error(`❌ Error purging account ${userId}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Run the purge on startup and then on a fixed interval
+   */
+  static startPurgeScheduler(): NodeJS.Timeout {
+    const run = () => {
+      this.purgeDueAccounts().catch(error => console.error('❌ Account purge run failed:', error));
+    };
+
+    run();
+    const timer = setInterval(run, AUTH_CONFIG.accountPurgeIntervalMinutes * 60 * 1000);
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * Stream a zip of everything we hold for a user: profile, receipts with their
+   * splits, restaurant history and the original receipt images
+   */
+  static async writeExportArchive(userId: string, output: Writable): Promise<void> {
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    const user = await User.findById(userObjectId).select('-password');
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const receipts = await Receipt.find({ userId: userObjectId }).sort({ date: -1 });
+    const restaurants = await Restaurant.find({ userId: userObjectId }).sort({ name: 1 });
+    const sessions = await SessionService.listActiveSessions(userId);
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('finish', () => resolve());
+      output.on('close', () => resolve());
+      archive.on('error', reject);
+      archive.on('warning', warning => console.warn('Export archive warning:', warning));
+    });
+
+    archive.pipe(output);
+
+    const toJson = (data: unknown) => JSON.stringify(data, null, 2);
+
+    archive.append(toJson({
+      id: (user._id as any).toString(),
+      name: user.name,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      homeCurrency: user.homeCurrency,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+      deletionScheduledFor: user.deletionScheduledFor,
+      activeSessions: sessions
+    }), { name: 'profile.json' });
+
+    archive.append(toJson(receipts.map(receipt => receipt.toObject())), { name: 'receipts.json' });
+
+    archive.append(toJson(receipts.map(receipt => ({
+      receiptId: (receipt._id as any).toString(),
+      restaurantName: receipt.restaurantName,
+      date: receipt.date,
+      people: receipt.people,
+      splitCalculations: receipt.splitCalculations || []
+    }))), { name: 'splits.json' });
+
+    archive.append(toJson(restaurants.map(restaurant => restaurant.toObject())), { name: 'restaurants.json' });
+
+    // Original images, named after the receipt they belong to
+    const missingImages: string[] = [];
+    for (const receipt of receipts) {
+      if (!receipt.s3Key) continue;
+
+      try {
+        const file = await StorageService.getDriver().downloadFile(receipt.s3Key);
+        const extension = path.extname(receipt.s3Key) || '.jpg';
+        archive.append(file.body, { name: `images/${(receipt._id as any).toString()}${extension}` });
+      } catch (error) {
+        console.error(`Error adding image ${receipt.s3Key} to export:`, error);
+        missingImages.push((receipt._id as any).toString());
+      }
+    }
+
+    if (missingImages.length > 0) {
+      archive.append(toJson({
+        message: 'These receipt images could not be retrieved when the export was created',
+        receiptIds: missingImages
+      }), { name: 'images/MISSING.json' });
+    }
+
+    await archive.finalize();
+    await finished;
+  }
+}
+
+export default AccountService;
@@ -0,0 +1,125 @@
+import { RECONCILIATION_TOLERANCE, ReconcilableReceipt, ReconciliationService } from './reconciliationService';
+import { nameSimilarity, normalizeText } from '../utils/textSimilarity';
+import { formatMoney } from '../utils/currency';
+import { CURRENCY_CONFIG } from '../config/currency';
+
+export interface ItemConfidence {
+  confidence: number; // 0-100
+  reasons: string[]; // Why the score was lowered, for the review UI
+}
+
+export interface ReceiptConfidence {
+  items: ItemConfidence[];
+  overall: number; // 0-100
+}
+
+export interface ConfidenceSignals {
+  itemOcrConfidence: (number | undefined)[]; // Average OCR confidence of the lines behind each item, undefined if not found
+  crossCheckItems?: Array<{ name: string; quantity: number; price: number }>; // A second parser's reading of the same text, prices in minor units
+}
+
+// Score for an item whose text couldn't be traced back to any OCR line
+const UNLOCATED_OCR_CONFIDENCE = 50;
+
+// Multipliers applied to the OCR confidence when a signal disagrees
+const PENALTIES = {
+  missingFromCrossCheck: 0.75,
+  amountDiffers: 0.8,
+  quantityDiffers: 0.9,
+  namedByReconciliation: 0.8,
+  receiptUnreconciled: 0.85
+};
+
+const roundScore = (score: number): number => Math.round(Math.max(0, Math.min(100, score)) * 10) / 10;
+
+export class ConfidenceService {
+
+  /**
+   * Work out per-item and overall confidence from the OCR lines behind each item, whether a
+   * second parser read the item the same way, and whether the receipt's amounts reconcile
+   */
+  static scoreReceipt(receipt: ReconcilableReceipt, signals: ConfidenceSignals): ReceiptConfidence {
+    const reconciliation = ReconciliationService.check(receipt);
+    const crossCheckMatches = signals.crossCheckItems
+      ? this.matchCrossCheck(receipt.items, signals.crossCheckItems)
+      : undefined;
+
+    const items = receipt.items.map((item, index) => {
+      const reasons: string[] = [];
+      const ocrConfidence = signals.itemOcrConfidence[index];
+      let confidence = ocrConfidence ?? UNLOCATED_OCR_CONFIDENCE;
+
+      if (ocrConfidence === undefined) {
+        reasons.push("Couldn't find this item in the OCR text");
+      } else if (ocrConfidence < 80) {
+        reasons.push(`The text was hard to read (OCR confidence ${Math.round(ocrConfidence)}%)`);
+      }
+
+      // Step 1: Did the layout parser read the same item?
+      if (crossCheckMatches) {
+        const other = crossCheckMatches[index];
+        if (!other) {
+          confidence *= PENALTIES.missingFromCrossCheck;
+          reasons.push('The layout parser did not find this item');
+        } else if (Math.abs(other.price * other.quantity - item.price * item.quantity) > RECONCILIATION_TOLERANCE) {
+          confidence *= PENALTIES.amountDiffers;
+          reasons.push(`The layout parser read the amount as ${formatMoney(other.price * other.quantity, receipt.currency || CURRENCY_CONFIG.defaultCurrency)}`);
+        } else if (other.quantity !== item.quantity) {
+          confidence *= PENALTIES.quantityDiffers;
+          reasons.push(`The layout parser read the quantity as ×${other.quantity}`);
+        }
+      }
+
+      // Step 2: Is this item one of the likely causes of a mismatch?
+      const suggestions = reconciliation.issues
+        .flatMap(issue => issue.suggestions)
+        .filter(suggestion => suggestion.itemIndex === index);
+      if (suggestions.length > 0) {
+        confidence *= PENALTIES.namedByReconciliation;
+        reasons.push(...suggestions.map(suggestion => suggestion.message));
+      }
+
+      return { confidence: roundScore(confidence), reasons };
+    });
+
+    const itemAverage = items.length > 0
+      ? items.reduce((sum, item) => sum + item.confidence, 0) / items.length
+      : UNLOCATED_OCR_CONFIDENCE;
+    const overall = itemAverage * (reconciliation.status === 'balanced' ? 1 : PENALTIES.receiptUnreconciled);
+
+    return { items, overall: roundScore(overall) };
+  }
+
+  /**
+   * Pair each item with the cross-check item of the most similar name, each used at most once
+   */
+  private static matchCrossCheck(
+    items: ReconcilableReceipt['items'],
+    crossCheckItems: NonNullable<ConfidenceSignals['crossCheckItems']>
+  ): (NonNullable<ConfidenceSignals['crossCheckItems']>[number] | undefined)[] {
+    const used = new Set<number>();
+
+    return items.map(item => {
+      let best: { index: number; score: number } | undefined;
+
+      crossCheckItems.forEach((other, index) => {
+        // Either parser may have kept a wrapped line or modifier the other dropped
+        const itemName = normalizeText(item.name);
+        const otherName = normalizeText(other.name);
+        const contained = itemName.length > 3 && otherName.length > 3 && (itemName.includes(otherName) || otherName.includes(itemName));
+        const score = contained ? Math.max(0.9, nameSimilarity(item.name, other.name)) : nameSimilarity(item.name, other.name);
+        if (!used.has(index) && score >= 0.75 && (!best || score > best.score)) {
+          best = { index, score };
+        }
+      });
+
+      if (!best) {
+        return undefined;
+      }
+      used.add(best.index);
+      return crossCheckItems[best.index];
+    });
+  }
+}
+
+export default ConfidenceService;
@@ -0,0 +1,15 @@
+export interface ExchangeRates {
+  base: string; // ISO 4217 code the rates are quoted against
+  asOf?: string; // When the rates were taken, if the source says
+  rates: Record<string, number>; // Units of each currency per one unit of the base
+}
+
+// Anywhere exchange rates can come from
+export interface ExchangeRateSource {
+  readonly name: string;
+
+  /**
+   * Current rates, all quoted against one base currency
+   */
+  getRates(): Promise<ExchangeRates>;
+}
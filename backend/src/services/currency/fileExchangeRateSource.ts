@@ -0,0 +1,42 @@
+import fs from 'fs/promises';
+import { CURRENCY_CONFIG } from '../../config/currency';
+import { ExchangeRateSource, ExchangeRates } from './exchangeRateSource';
+
+/**
+ * Reads rates from a JSON file ({ base, asOf, rates }), so conversion works offline and
+ * the table can be updated by hand or by a cron job. The file is re-read when it changes.
+ */
+export class FileExchangeRateSource implements ExchangeRateSource {
+  readonly name = 'file';
+  private cached: { modifiedAt: number; rates: ExchangeRates } | null = null;
+
+  constructor(private config: typeof CURRENCY_CONFIG.file = CURRENCY_CONFIG.file) {}
+
+  async getRates(): Promise<ExchangeRates> {
+    const stats = await fs.stat(this.config.path);
+    if (this.cached && this.cached.modifiedAt === stats.mtimeMs) {
+      return this.cached.rates;
+    }
+
+    const rates = this.validate(JSON.parse(await fs.readFile(this.config.path, 'utf8')));
+    this.cached = { modifiedAt: stats.mtimeMs, rates };
+    return rates;
+  }
+
+  private validate(data: any): ExchangeRates {
+    if (!data || typeof data.base !== 'string' || !data.rates || typeof data.rates !== 'object') {
+      throw new Error(`Exchange rate file ${this.config.path} must contain "base" and "rates"`);
+    }
+
+    const base = data.base.toUpperCase();
+    const rates: Record<string, number> = { [base]: 1 };
+    Object.entries(data.rates).forEach(([currency, rate]) => {
+      if (typeof rate !== 'number' || !(rate > 0)) {
+        throw new Error(`Exchange rate for ${currency} in ${this.config.path} must be a positive number`);
+      }
+      rates[currency.toUpperCase()] = rate;
+    });
+
+    return { base, asOf: data.asOf, rates };
+  }
+}
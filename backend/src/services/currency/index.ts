@@ -0,0 +1,65 @@
+import { CURRENCY_CONFIG } from '../../config/currency';
+import { ExchangeRateSource } from './exchangeRateSource';
+import { FileExchangeRateSource } from './fileExchangeRateSource';
+import { fromMinorUnits, toMinorUnits } from '../../utils/money';
+
+export * from './exchangeRateSource';
+export { FileExchangeRateSource } from './fileExchangeRateSource';
+
+export class CurrencyService {
+  private static source: ExchangeRateSource | null = null;
+
+  /**
+   * Get the configured rate source (created on first use)
+   */
+  static getSource(): ExchangeRateSource {
+    if (!this.source) {
+      this.source = this.createSource();
+    }
+    return this.source;
+  }
+
+  /**
+   * Override the rate source, e.g. with fixed rates in tests
+   */
+  static setSource(source: ExchangeRateSource): void {
+    this.source = source;
+  }
+
+  /**
+   * Convert an amount of minor units between currencies through the source's base currency
+   */
+  static async convert(amount: number, from: string, to: string): Promise<number> {
+    if (from === to || amount === 0) {
+      return amount;
+    }
+
+    const { rates } = await this.getSource().getRates();
+    const fromRate = rates[from];
+    const toRate = rates[to];
+    if (!fromRate || !toRate) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+
+    return toMinorUnits((fromMinorUnits(amount, from) / fromRate) * toRate, to);
+  }
+
+  /**
+   * Whether amounts in this currency can be converted
+   */
+  static async isSupported(currency: string): Promise<boolean> {
+    const { rates } = await this.getSource().getRates();
+    return !!rates[currency];
+  }
+
+  private static createSource(): ExchangeRateSource {
+    switch (CURRENCY_CONFIG.rateSource) {
+      case 'file':
+        return new FileExchangeRateSource();
+      default:
+        throw new Error(`Unknown EXCHANGE_RATE_SOURCE "${CURRENCY_CONFIG.rateSource}"`);
+    }
+  }
+}
+
+export default CurrencyService;
@@ -0,0 +1,279 @@
+import os from 'os';
+import Job, { IJob } from '../models/Job';
+import { JOB_CONFIG } from '../config/jobs';
+
+export interface JobDefinition {
+  /**
+   * Do the work. Throwing schedules a retry with backoff until maxAttempts is reached.
+   */
+  handler: (job: IJob) => Promise<void>;
+
+  /**
+   * Called after every failed attempt, e.g. to record the error where users can see it
+   */
+  onFailure?: (job: IJob, error: Error, willRetry: boolean) => Promise<void>;
+}
+
+// Recorded on a job whose worker died during its last attempt
+const ABANDONED_ERROR = 'The worker running this job stopped before it finished';
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * A small MongoDB-backed job queue. Workers poll for due jobs and claim them atomically,
+ * so several server processes can share one queue.
+ */
+export class JobQueue {
+  private static definitions = new Map<string, JobDefinition>();
+  private static timer: NodeJS.Timeout | null = null;
+  private static activeJobs = 0;
+  private static polling = false;
+  private static workerId = `${os.hostname()}:${process.pid}`;
+
+  /**
+   * Register the code that runs a job type
+   */
+  static register(type: string, definition: JobDefinition): void {
+    this.definitions.set(type, definition);
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  static async enqueue(type: string, payload: Record<string, any>, options: EnqueueOptions = {}): Promise<IJob> {
+    const job = new Job({
+      type,
+      payload,
+      maxAttempts: options.maxAttempts || JOB_CONFIG.maxAttempts,
+      runAt: options.runAt || new Date()
+    });
+
+    await job.save();
+    console.log(`📥 Queued ${type} job ${job._id}`);
+
+    // Pick it up straight away rather than waiting for the next poll
+    if (this.timer) {
+      setImmediate(() => this.poll());
+    }
+
+    return job;
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  static start(): NodeJS.Timeout {
+    if (this.timer) {
+      return this.timer;
+    }
+
+    this.timer = setInterval(() => this.poll(), JOB_CONFIG.pollIntervalMs);
+    this.timer.unref();
+    console.log(`⚙️ Job worker ${this.workerId} started (${[...this.definitions.keys()].join(', ') || 'no job types'})`);
+
+    this.poll();
+    return this.timer;
+  }
+
+  /**
+   * Stop polling (jobs already running are left to finish)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim and run due jobs until we're at the concurrency limit or the queue is empty.
+   * Only one poll runs at a time, so a slow one can't overlap the next and claim too many jobs.
+   */
+  static async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.claimAndRun();
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Delay before the next attempt: exponential, capped
+   */
+  static backoffDelay(attempts: number): number {
+    return Math.min(JOB_CONFIG.backoffBaseMs * Math.pow(2, Math.max(0, attempts - 1)), JOB_CONFIG.backoffMaxMs);
+  }
+
+  /**
+   * Atomically move one due job to running. Jobs whose worker died mid-run are picked up again.
+   */
+  private static async claimNext(): Promise<IJob | null> {
+    const now = new Date();
+    const types = [...this.definitions.keys()];
+
+    if (types.length === 0) {
+      return null;
+    }
+
+    return Job.findOneAndUpdate(
+      {
+        type: { $in: types },
+        $or: [
+          { status: 'queued', runAt: { $lte: now } },
+          {
+            status: 'running',
+            lockedAt: { $lte: new Date(now.getTime() - JOB_CONFIG.lockTimeoutMs) },
+            $expr: { $lt: ['$attempts', '$maxAttempts'] }
+          }
+        ]
+      },
+      {
+        $set: { status: 'running', lockedAt: now, lockedBy: this.workerId },
+        $inc: { attempts: 1 }
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Fail jobs whose worker died during their last attempt. claimNext won't pick them up again, so
+   * without this they'd stay running for good and their onFailure (which tells the user) would
+   * never run.
+   */
+  static async failAbandonedJobs(): Promise<number> {
+    const now = new Date();
+    const types = [...this.definitions.keys()];
+    let failed = 0;
+
+    if (types.length === 0) {
+      return 0;
+    }
+
+    // One at a time and atomically, so only one worker fails each job and calls its onFailure
+    for (;;) {
+      const job = await Job.findOneAndUpdate(
+        {
+          type: { $in: types },
+          status: 'running',
+          lockedAt: { $lte: new Date(now.getTime() - JOB_CONFIG.lockTimeoutMs) },
+          $expr: { $gte: ['$attempts', '$maxAttempts'] }
+        },
+        {
+          $set: { status: 'failed', finishedAt: now, lastError: ABANDONED_ERROR },
+          $unset: { lockedAt: 1, lockedBy: 1 }
+        },
+        { new: true }
+      );
+
+      if (!job) {
+        return failed;
+      }
+
+      failed++;
+      console.error(`❌ ${job.type} job ${job._id} failed after ${job.attempts} attempt(s): ${ABANDONED_ERROR}`);
+
+      try {
+        await this.definitions.get(job.type)!.onFailure?.(job, new Error(ABANDONED_ERROR), false);
+      } catch (error) {
+        console.error(`❌ Error recording failure for job ${job._id}:`, error);
+      }
+    }
+  }
+
+  private static async claimAndRun(): Promise<void> {
+    try {
+      await this.failAbandonedJobs();
+    } catch (error) {
+      console.error('❌ Error failing abandoned jobs:', error);
+    }
+
+    while (this.activeJobs < JOB_CONFIG.concurrency) {
+      let job: IJob | null;
+      try {
+        job = await this.claimNext();
+      } catch (error) {
+        console.error('❌ Error claiming job:', error);
+        return;
+      }
+
+      if (!job) {
+        return;
+      }
+
+      this.activeJobs++;
+      this.runJob(job).finally(() => {
+        this.activeJobs--;
+      });
+    }
+  }
+
+  /**
+   * Keep a running job's lock fresh so other workers don't take it for crashed, however long it runs
+   */
+  private static renewLock(job: IJob): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      Job.updateOne(
+        { _id: job._id, status: 'running', lockedBy: this.workerId },
+        { $set: { lockedAt: new Date() } }
+      ).catch(error => console.error(`❌ Error renewing lock for job ${job._id}:`, error));
+    }, JOB_CONFIG.lockRenewIntervalMs);
+    timer.unref();
+    return timer;
+  }
+
+  private static async runJob(job: IJob): Promise<void> {
+    const definition = this.definitions.get(job.type)!;
+    const lockRenewal = this.renewLock(job);
+
+    try {
+      console.log(`▶️ Running ${job.type} job ${job._id} (attempt ${job.attempts}/${job.maxAttempts})`);
+      await definition.handler(job);
+
+      job.status = 'completed';
+      job.finishedAt = new Date();
+      job.lockedAt = undefined;
+      job.lockedBy = undefined;
+      job.lastError = undefined;
+      await job.save();
+      console.log(`✅ Finished ${job.type} job ${job._id}`);
+
+    } catch (error) {
+      const jobError = error instanceof Error ? error : new Error(String(error));
+      const willRetry = job.attempts < job.maxAttempts;
+
+      job.lastError = jobError.message;
+      job.lockedAt = undefined;
+      job.lockedBy = undefined;
+
+      if (willRetry) {
+        const delay = this.backoffDelay(job.attempts);
+        job.status = 'queued';
+        job.runAt = new Date(Date.now() + delay);
+        console.warn(`⚠️ ${job.type} job ${job._id} failed, retrying in ${Math.round(delay / 1000)}s:`, jobError.message);
+      } else {
+        job.status = 'failed';
+        job.finishedAt = new Date();
+        console.error(`❌ ${job.type} job ${job._id} failed after ${job.attempts} attempt(s):`, jobError.message);
+      }
+
+      try {
+        await job.save();
+        await definition.onFailure?.(job, jobError, willRetry);
+      } catch (saveError) {
+        console.error(`❌ Error recording failure for job ${job._id}:`, saveError);
+      }
+    } finally {
+      clearInterval(lockRenewal);
+    }
+  }
+}
+
+export default JobQueue;
@@ -0,0 +1,187 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { MAIL_CONFIG } from '../config/mail';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a message - swap implementations with MAIL_TRANSPORT
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Prints emails to the server log (default for local development)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log('📧 Email (console transport):');
+    console.log(`   From: ${message.from}`);
+    console.log(`   To: ${message.to}`);
+    console.log(`   Subject: ${message.subject}`);
+    console.log(message.text);
+  }
+}
+
+/**
+ * Writes each email as a JSON file so tests and local setups can read links back out
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private outboxDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const fileName = `${Date.now()}_${safeRecipient}.json`;
+    const filePath = path.join(this.outboxDir, fileName);
+
+    await fs.writeFile(filePath, JSON.stringify({
+      ...message,
+      sentAt: new Date().toISOString()
+    }, null, 2));
+
+    console.log(`📧 Email written to ${filePath}`);
+  }
+}
+
+/**
+ * Sends real email through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(config: typeof MAIL_CONFIG.smtp) {
+    if (!config.host) {
+      throw new Error('SMTP_HOST environment variable is required for the smtp mail transport');
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+export class MailService {
+  private static transport: MailTransport | null = null;
+
+  /**
+   * Get the configured transport (created on first use)
+   */
+  static getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = this.createTransport();
+    }
+    return this.transport;
+  }
+
+  /**
+   * Override the transport, e.g. with an in-memory one in tests
+   */
+  static setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email from the configured sender address
+   */
+  static async send(message: MailMessage): Promise<void> {
+    try {
+      await this.getTransport().send({ ...message, from: MAIL_CONFIG.from });
+    } catch (error) {
+      console.error('Mail delivery error:', error);
+      throw new Error(`Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Send a password reset link
+   */
+  static async sendPasswordReset(to: string, name: string, resetToken: string, expiresInMinutes: number): Promise<void> {
+    const resetUrl = `${MAIL_CONFIG.appUrl}/?resetToken=${encodeURIComponent(resetToken)}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your SplitBite password',
+      text:
+        `Hi ${name},\n\n` +
+        `We received a request to reset your SplitBite password. Use the link below to choose a new one:\n\n` +
+        `${resetUrl}\n\n` +
+        `This link expires in ${expiresInMinutes} minutes and can only be used once. ` +
+        `If you didn't ask for this, you can ignore this email.\n`
+    });
+  }
+
+  /**
+   * Send an email address verification link
+   */
+  static async sendEmailVerification(to: string, name: string, verificationToken: string, expiresInHours: number): Promise<void> {
+    const verifyUrl = `${MAIL_CONFIG.appUrl}/?verifyToken=${encodeURIComponent(verificationToken)}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your SplitBite email',
+      text:
+        `Hi ${name},\n\n` +
+        `Please confirm that this is your email address so friends can find you on shared receipts:\n\n` +
+        `${verifyUrl}\n\n` +
+        `This link expires in ${expiresInHours} hours.\n`
+    });
+  }
+
+  /**
+   * Let the user know their password was changed
+   */
+  static async sendPasswordChanged(to: string, name: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your SplitBite password was changed',
+      text:
+        `Hi ${name},\n\n` +
+        `The password for your SplitBite account was just changed and you have been logged out of your other devices.\n\n` +
+        `If this wasn't you, reset your password right away.\n`
+    });
+  }
+
+  /**
+   * Confirm an account deletion request and explain how to cancel it
+   */
+  static async sendAccountDeletionScheduled(to: string, name: string, scheduledFor: Date): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your SplitBite account is scheduled for deletion',
+      text:
+        `Hi ${name},\n\n` +
+        `We received a request to delete your SplitBite account. Your account, receipts, receipt images and ` +
+        `restaurant history will be permanently deleted on ${scheduledFor.toDateString()}.\n\n` +
+        `Changed your mind? Log in at ${MAIL_CONFIG.appUrl} before then and choose to keep your account.\n`
+    });
+  }
+
+  private static createTransport(): MailTransport {
+    switch (MAIL_CONFIG.transport) {
+      case 'smtp':
+        return new SmtpMailTransport(MAIL_CONFIG.smtp);
+      case 'file':
+        return new FileMailTransport(MAIL_CONFIG.outboxDir);
+      case 'console':
+        return new ConsoleMailTransport();
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT "${MAIL_CONFIG.transport}"`);
+    }
+  }
+}
+
+export default MailService;
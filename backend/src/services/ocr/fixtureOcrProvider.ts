@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { OCR_CONFIG } from '../../config/ocr';
+import { OcrLine, OcrProvider, OcrResult } from './ocrProvider';
+
+// Shape of a fixture file: recorded OCR output for one receipt image
+export interface OcrFixture {
+  description?: string;
+  lines: OcrLine[];
+}
+
+/**
+ * Replays recorded OCR output so the parsing pipeline can run offline and in tests.
+ * Looks for "<sha256 of image>.json" in the fixture folder, then "default.json",
+ * unless OCR_FIXTURE_FILE pins a single fixture.
+ */
+export class FixtureOcrProvider implements OcrProvider {
+  readonly name = 'fixture';
+
+  constructor(private config: typeof OCR_CONFIG.fixture = OCR_CONFIG.fixture) {}
+
+  async detectText(imageBytes: Buffer): Promise<OcrResult> {
+    const imageHash = crypto.createHash('sha256').update(imageBytes).digest('hex');
+
+    const candidates = this.config.file
+      ? [path.resolve(this.config.dir, this.config.file)]
+      : [path.join(this.config.dir, `${imageHash}.json`), path.join(this.config.dir, 'default.json')];
+
+    for (const candidate of candidates) {
+      let contents: string;
+      try {
+        contents = await fs.readFile(candidate, 'utf8');
+      } catch {
+        continue;
+      }
+
+      const fixture = JSON.parse(contents) as OcrFixture;
+      if (!Array.isArray(fixture.lines)) {
+        throw new Error(`OCR fixture ${candidate} has no "lines" array`);
+      }
+
+      console.log(`🧾 Replaying OCR fixture ${path.basename(candidate)}`);
+      return {
+        provider: this.name,
+        lines: fixture.lines,
+        raw: { fixture: path.basename(candidate), imageHash }
+      };
+    }
+
+    throw new Error(`No OCR fixture found for image ${imageHash} in ${this.config.dir}`);
+  }
+}
+
+export default FixtureOcrProvider;
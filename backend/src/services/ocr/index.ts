@@ -0,0 +1,49 @@
+import { OCR_CONFIG, OcrProviderType } from '../../config/ocr';
+import { OcrProvider } from './ocrProvider';
+import { TextractOcrProvider } from './textractOcrProvider';
+import { TesseractOcrProvider } from './tesseractOcrProvider';
+import { FixtureOcrProvider } from './fixtureOcrProvider';
+
+export * from './ocrProvider';
+export { TextractOcrProvider } from './textractOcrProvider';
+export { TesseractOcrProvider } from './tesseractOcrProvider';
+export { FixtureOcrProvider, OcrFixture } from './fixtureOcrProvider';
+
+export class OcrService {
+  private static provider: OcrProvider | null = null;
+
+  /**
+   * Get the configured OCR provider (created on first use)
+   */
+  static getProvider(): OcrProvider {
+    if (!this.provider) {
+      this.provider = this.createProvider(OCR_CONFIG.provider);
+    }
+    return this.provider;
+  }
+
+  /**
+   * Override the provider, e.g. with a fixture provider in tests
+   */
+  static setProvider(provider: OcrProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Create a provider by name, e.g. to re-run OCR on a receipt with a different engine
+   */
+  static createProvider(type: OcrProviderType): OcrProvider {
+    switch (type) {
+      case 'textract':
+        return new TextractOcrProvider();
+      case 'tesseract':
+        return new TesseractOcrProvider();
+      case 'fixture':
+        return new FixtureOcrProvider();
+      default:
+        throw new Error(`Unknown OCR provider "${type}"`);
+    }
+  }
+}
+
+export default OcrService;
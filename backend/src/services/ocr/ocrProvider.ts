@@ -0,0 +1,55 @@
+// Position of a line on the page, as fractions (0-1) of the image width and height
+export interface OcrBoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrLine {
+  text: string;
+  confidence: number; // 0-100
+  boundingBox: OcrBoundingBox;
+}
+
+export interface OcrResult {
+  provider: string;
+  lines: OcrLine[]; // In reading order, top to bottom
+  raw?: any; // Provider-specific response, kept for debugging
+}
+
+// Anything that can turn a receipt image into lines of text - swap implementations with OCR_PROVIDER
+export interface OcrProvider {
+  readonly name: string;
+
+  detectText(imageBytes: Buffer, mimeType?: string): Promise<OcrResult>;
+}
+
+/**
+ * Sort lines top to bottom, then left to right for lines that share a row
+ */
+export const sortLinesInReadingOrder = (lines: OcrLine[]): OcrLine[] => {
+  return [...lines].sort((a, b) => {
+    const rowTolerance = Math.min(a.boundingBox.height, b.boundingBox.height) / 2;
+    if (Math.abs(a.boundingBox.top - b.boundingBox.top) > rowTolerance) {
+      return a.boundingBox.top - b.boundingBox.top;
+    }
+    return a.boundingBox.left - b.boundingBox.left;
+  });
+};
+
+/**
+ * Smallest box that covers all the given boxes
+ */
+export const mergeBoundingBoxes = (boxes: OcrBoundingBox[]): OcrBoundingBox | undefined => {
+  if (boxes.length === 0) {
+    return undefined;
+  }
+
+  const left = Math.min(...boxes.map(box => box.left));
+  const top = Math.min(...boxes.map(box => box.top));
+  const right = Math.max(...boxes.map(box => box.left + box.width));
+  const bottom = Math.max(...boxes.map(box => box.top + box.height));
+
+  return { left, top, width: right - left, height: bottom - top };
+};
@@ -0,0 +1,68 @@
+import Tesseract from 'tesseract.js';
+import { OCR_CONFIG } from '../../config/ocr';
+import { getImageDimensions } from '../../utils/imageSize';
+import { OcrLine, OcrProvider, OcrResult, sortLinesInReadingOrder } from './ocrProvider';
+
+/**
+ * Tesseract running locally through tesseract.js - no cloud account needed.
+ * Point TESSERACT_LANG_PATH at a folder of *.traineddata files to run without network access.
+ */
+export class TesseractOcrProvider implements OcrProvider {
+  readonly name = 'tesseract';
+
+  constructor(private config: typeof OCR_CONFIG.tesseract = OCR_CONFIG.tesseract) {}
+
+  async detectText(imageBytes: Buffer): Promise<OcrResult> {
+    let worker: Tesseract.Worker | null = null;
+
+    try {
+      worker = await Tesseract.createWorker(this.config.language, undefined, {
+        langPath: this.config.langPath
+      });
+
+      const { data } = await worker.recognize(imageBytes);
+
+      // Tesseract reports pixels; normalize against the image so geometry matches other providers
+      const dimensions = getImageDimensions(imageBytes) || this.textExtent(data.lines);
+
+      const lines: OcrLine[] = data.lines
+        .map(line => ({
+          text: line.text.trim(),
+          confidence: line.confidence,
+          boundingBox: {
+            left: line.bbox.x0 / dimensions.width,
+            top: line.bbox.y0 / dimensions.height,
+            width: (line.bbox.x1 - line.bbox.x0) / dimensions.width,
+            height: (line.bbox.y1 - line.bbox.y0) / dimensions.height
+          }
+        }))
+        .filter(line => line.text.length > 0);
+
+      return {
+        provider: this.name,
+        lines: sortLinesInReadingOrder(lines),
+        raw: { text: data.text, confidence: data.confidence }
+      };
+
+    } catch (error) {
+      console.error('Tesseract text detection error:', error);
+      throw new Error(`Failed to detect text from receipt: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (worker) {
+        await worker.terminate();
+      }
+    }
+  }
+
+  /**
+   * Fallback page size when the image header can't be read: the area covered by text
+   */
+  private textExtent(lines: Tesseract.Line[]): { width: number; height: number } {
+    return {
+      width: Math.max(1, ...lines.map(line => line.bbox.x1)),
+      height: Math.max(1, ...lines.map(line => line.bbox.y1))
+    };
+  }
+}
+
+export default TesseractOcrProvider;
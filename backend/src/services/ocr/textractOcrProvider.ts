@@ -0,0 +1,54 @@
+import { textract } from '../../config/aws';
+import { OcrLine, OcrProvider, OcrResult } from './ocrProvider';
+
+/**
+ * AWS Textract (synchronous DetectDocumentText)
+ */
+export class TextractOcrProvider implements OcrProvider {
+  readonly name = 'textract';
+
+  async detectText(imageBytes: Buffer): Promise<OcrResult> {
+    try {
+      const params = {
+        Document: {
+          Bytes: imageBytes // Sent inline so this works with any storage driver
+        }
+      };
+
+      const result = await textract.detectDocumentText(params).promise();
+
+      if (!result.Blocks) {
+        throw new Error('No text blocks found in the document');
+      }
+
+      // Textract already returns lines in reading order with normalized geometry
+      const lines: OcrLine[] = result.Blocks
+        .filter(block => block.BlockType === 'LINE' && (block.Text || '').trim().length > 0)
+        .map(block => {
+          const box = block.Geometry?.BoundingBox;
+          return {
+            text: block.Text || '',
+            confidence: block.Confidence || 0,
+            boundingBox: {
+              left: box?.Left || 0,
+              top: box?.Top || 0,
+              width: box?.Width || 0,
+              height: box?.Height || 0
+            }
+          };
+        });
+
+      return {
+        provider: this.name,
+        lines,
+        raw: result
+      };
+
+    } catch (error) {
+      console.error('Textract text detection error:', error);
+      throw new Error(`Failed to detect text from receipt: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export default TextractOcrProvider;
@@ -0,0 +1,117 @@
+import { PARSER_CONFIG, ReceiptParserType } from '../../config/parser';
+import { ReceiptParserError, ReceiptParserProvider } from './parserProvider';
+import { OpenAIParserProvider } from './openaiParserProvider';
+import { LocalLlmParserProvider } from './localLlmParserProvider';
+import { MockParserProvider } from './mockParserProvider';
+import { ParsedReceipt, validateParserResponse } from './receiptSchema';
+import { buildParseMessages, buildRepairMessages } from './prompts';
+
+export * from './parserProvider';
+export * from './receiptSchema';
+export { OpenAIParserProvider } from './openaiParserProvider';
+export { LocalLlmParserProvider } from './localLlmParserProvider';
+export { MockParserProvider } from './mockParserProvider';
+export {
+  ChargeType,
+  LayoutCharge,
+  LayoutDiscount,
+  LayoutParser,
+  LayoutParsedReceipt,
+  LayoutReceiptItem,
+  LayoutTaxLine,
+  TaxCategory
+} from './layoutParser';
+
+export interface ParseOptions {
+  provider?: ReceiptParserProvider; // Defaults to the configured provider
+  hint?: string; // Extra context from the user, e.g. "prices are in EUR"
+}
+
+export interface ParseOutcome {
+  receipt: ParsedReceipt;
+  provider: string;
+  attempts: number; // 1 when the first response was valid
+}
+
+export class ReceiptParsingService {
+  private static provider: ReceiptParserProvider | null = null;
+
+  /**
+   * Get the configured parser provider (created on first use)
+   */
+  static getProvider(): ReceiptParserProvider {
+    if (!this.provider) {
+      this.provider = this.createProvider(PARSER_CONFIG.provider);
+    }
+    return this.provider;
+  }
+
+  /**
+   * Override the provider, e.g. with the mock provider in tests
+   */
+  static setProvider(provider: ReceiptParserProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Parse OCR text into a validated receipt. Invalid responses are sent back to the
+   * model with the validation errors before giving up with a ReceiptParserError.
+   */
+  static async parseReceiptText(ocrText: string, options: ParseOptions = {}): Promise<ParseOutcome> {
+    let provider: ReceiptParserProvider;
+    try {
+      provider = options.provider || this.getProvider();
+    } catch (error) {
+      throw new ReceiptParserError(`Receipt parser unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    let messages = buildParseMessages(ocrText, options.hint);
+    let lastErrors: string[] = [];
+    const maxAttempts = 1 + Math.max(0, PARSER_CONFIG.maxRepairAttempts);
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let response: string;
+      try {
+        response = await provider.complete({ ocrText, messages });
+      } catch (error) {
+        console.error(`❌ ${provider.name} parser request failed:`, error);
+        throw new ReceiptParserError(`Failed to parse receipt with ${provider.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      console.log(`🤖 ${provider.name} raw response (attempt ${attempt}):`, response);
+
+      const validation = validateParserResponse(response);
+      if (validation.success) {
+        console.log('✅ Parsed receipt data:', JSON.stringify(validation.data, null, 2));
+        return { receipt: validation.data, provider: provider.name, attempts: attempt };
+      }
+
+      lastErrors = validation.errors;
+      console.warn(`⚠️ ${provider.name} response failed validation (attempt ${attempt}):`, lastErrors);
+      messages = buildRepairMessages(messages, response, lastErrors);
+    }
+
+    throw new ReceiptParserError(
+      `${provider.name} response failed validation after ${maxAttempts} attempt(s)`,
+      lastErrors
+    );
+  }
+
+  /**
+   * Create a provider by name, e.g. to re-parse a receipt with a different model
+   */
+  static createProvider(type: ReceiptParserType): ReceiptParserProvider {
+    switch (type) {
+      case 'openai':
+        return new OpenAIParserProvider();
+      case 'local':
+        return new LocalLlmParserProvider();
+      case 'mock':
+        return new MockParserProvider();
+      default:
+        throw new Error(`Unknown receipt parser "${type}"`);
+    }
+  }
+}
+
+export default ReceiptParsingService;
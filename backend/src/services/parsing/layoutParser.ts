@@ -0,0 +1,489 @@
+import { OcrBoundingBox, OcrLine, mergeBoundingBoxes } from '../ocr/ocrProvider';
+import { detectCurrency } from '../../utils/currency';
+
+export interface LayoutReceiptItem {
+  name: string;
+  quantity: number;
+  price: number; // Per unit, like the LLM parser returns
+  confidence: number;
+  sourceRegion?: OcrBoundingBox; // Covers the name and price lines
+  taxCategory: TaxCategory;
+}
+
+export type TaxCategory = 'standard' | 'alcohol' | 'grocery' | 'exempt';
+
+export interface LayoutTaxLine {
+  name: string;
+  category: TaxCategory;
+  rate?: number; // Percent, when printed on the line
+  amount: number;
+}
+
+export interface LayoutDiscount {
+  name: string;
+  amount: number; // Amount taken off, as a positive number
+  itemIndex?: number; // The item it was printed under; missing for receipt-wide discounts
+}
+
+export type ChargeType = 'service_charge' | 'delivery_fee' | 'bag_fee' | 'auto_gratuity' | 'other_fee';
+
+export interface LayoutCharge {
+  name: string;
+  type: ChargeType;
+  amount: number;
+}
+
+export interface LayoutParsedReceipt {
+  restaurantName?: string;
+  date?: string; // YYYY-MM-DD
+  currency?: string; // ISO 4217 code, if the receipt shows one
+  items: LayoutReceiptItem[];
+  discounts: LayoutDiscount[];
+  charges: LayoutCharge[]; // Service charges, fees and auto-gratuity - kept apart from the tip
+  taxLines: LayoutTaxLine[];
+  subtotal?: number;
+  tax?: number; // Sum of the tax lines
+  tip?: number;
+  total?: number;
+  confidence: number;
+}
+
+// One physical row of the receipt, rebuilt from the OCR lines that share it
+interface LayoutRow {
+  lines: OcrLine[];
+  left: number;
+  label: string; // Row text without its amount
+  amount?: number;
+  amountRight?: number; // Right edge of the amount, to find the price column
+  taxFlag?: string; // Letter printed after the amount, e.g. "T" for taxable
+}
+
+type Section = 'header' | 'items' | 'totals' | 'footer';
+type TotalField = 'subtotal' | 'tax' | 'tip' | 'total';
+
+// Amount at the end of a cell, optionally negative, with a currency symbol either side and followed by a tax flag like "T" or "A"
+const TRAILING_AMOUNT = /(?:^|\s)(-)?[$€£¥]?\s?(\d{1,3}(?:,\d{3})+|\d+)[.,](\d{2})(-)?(?:\s?[€£])?(?:\s?([A-Z]))?$/;
+
+const TOTAL_LABELS: Array<[TotalField, RegExp]> = [
+  ['subtotal', /\bsub[\s-]?total\b/],
+  ['tip', /\b(tip|gratuity)\b/],
+  ['tax', /\b(tax|vat|gst|hst|pst)\b/],
+  ['total', /\b(total|amount due|balance due|balance)\b/]
+];
+
+const PAYMENT_LABEL = /\b(visa|mastercard|amex|american express|discover|debit|credit|card|cash|change|tender(ed)?|paid|payment|auth(orization)?|approval|approved|acct|account|contactless|chip)\b|[x*]{4,}/;
+const FOOTER_LABEL = /thank you|thanks|come again|see you|www\.|\.com\b|survey|customer copy|merchant copy|signature/;
+const HEADER_LABEL = /\b(server|table|tbl|guests?|covers|check|chk|order|cashier|station|terminal|host|ticket)\b/;
+const PHONE = /\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}/;
+const CONTINUATION_START = /^([a-z(&+]|w\/|with\b)/;
+const DISCOUNT_LABEL = /\b(discount|disc|coupon|voucher|promo|comp|savings|off)\b/;
+const RECEIPT_WIDE_DISCOUNT = /\b(coupon|voucher|promo|order|total|check|bill|loyalty|member|employee|staff|military|senior)\b/;
+
+// Checked in order, so auto-gratuity wins over the plain "gratuity" tip label
+const CHARGE_LABELS: Array<[ChargeType, RegExp]> = [
+  ['auto_gratuity', /\b(auto(matic)?[\s-]?grat(uity)?|gratuity (added|included)|(added|included) gratuity|large party|party of \d+)\b/],
+  ['service_charge', /\b(service (charge|fee)|svc (chg|charge|fee)|srv chg)\b/],
+  ['delivery_fee', /\bdelivery\b/],
+  ['bag_fee', /\b(bags?|packaging|container) (fee|charge)\b/],
+  ['other_fee', /\b(fee|surcharge|kitchen appreciation)\b/]
+];
+
+const TAX_LINE_CATEGORIES: Array<[TaxCategory, RegExp]> = [
+  ['alcohol', /\b(alcohol|liquor|beer|wine|spirits?)\b/],
+  ['grocery', /\b(grocery|groceries)\b/]
+];
+const TAX_RATE = /(\d{1,2}(?:[.,]\d{1,3})?)\s?%/;
+const EXEMPT_FLAGS = ['N', 'E', 'X'];
+const ALCOHOLIC_ITEM = /\b(beers?|ale|ipa|lager|pils(ner)?|stout|porter|wines?|merlot|cabernet|chardonnay|pinot|sauvignon|riesling|rose|prosecco|champagne|cava|cocktails?|margarita|mojito|martini|negroni|spritz|sangria|vodka|gin|rum|tequila|whiske?y|bourbon|scotch|mezcal|sake|soju|cider|draft|draught|pint|shots?)\b/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// How far (as a fraction of page width) an amount may sit left of the price column and still count
+const PRICE_COLUMN_TOLERANCE = 0.06;
+// How much further right a line must start than the item above to count as a wrapped continuation
+const INDENT_TOLERANCE = 0.02;
+
+/**
+ * Whether a discount line applies to the whole receipt rather than the item above it
+ */
+export const isReceiptWideDiscount = (label: string): boolean => RECEIPT_WIDE_DISCOUNT.test(label.toLowerCase());
+
+/**
+ * The kind of extra charge a totals line is, if it is one
+ */
+export const classifyCharge = (label: string): ChargeType | undefined =>
+  CHARGE_LABELS.find(([, pattern]) => pattern.test(label.toLowerCase()))?.[0];
+
+/**
+ * Which items a tax line like "Liquor Tax 10%" applies to, and its rate if printed
+ */
+export const classifyTaxLine = (label: string): { category: TaxCategory; rate?: number } => {
+  const lower = label.toLowerCase();
+  const rate = lower.match(TAX_RATE);
+  return {
+    category: TAX_LINE_CATEGORIES.find(([, pattern]) => pattern.test(lower))?.[0] || 'standard',
+    rate: rate ? parseFloat(rate[1].replace(',', '.')) : undefined
+  };
+};
+
+/**
+ * Tax category for each item. Items flagged non-taxable (or left unflagged when other items
+ * carry a tax flag) are exempt; drinks go in the alcohol category when the receipt has an
+ * alcohol tax line to charge them against.
+ */
+export const assignTaxCategories = (
+  items: Array<{ name: string; taxFlag?: string }>,
+  taxLines: Array<{ category: TaxCategory }>
+): TaxCategory[] => {
+  const flagsTaxable = items.some(item => item.taxFlag && !EXEMPT_FLAGS.includes(item.taxFlag));
+  const hasAlcoholTax = taxLines.some(line => line.category === 'alcohol');
+
+  return items.map(item => {
+    if ((item.taxFlag && EXEMPT_FLAGS.includes(item.taxFlag)) || (flagsTaxable && !item.taxFlag)) {
+      return 'exempt';
+    }
+    return hasAlcoholTax && ALCOHOLIC_ITEM.test(item.name) ? 'alcohol' : 'standard';
+  });
+};
+
+/**
+ * Rule-based receipt parser used when the LLM parser is unavailable. Works from OCR geometry:
+ * lines are regrouped into rows, prices are taken from the right-aligned column, wrapped
+ * item names are joined, and the header, footer and payment sections are skipped.
+ */
+export class LayoutParser {
+
+  static parse(ocrLines: OcrLine[]): LayoutParsedReceipt {
+    const rows = this.buildRows(ocrLines);
+    const priceColumnRight = this.findPriceColumn(rows);
+
+    const result: LayoutParsedReceipt = { items: [], discounts: [], charges: [], taxLines: [], confidence: 0 };
+    const usedLines: OcrLine[] = [];
+    const headerRows: LayoutRow[] = [];
+    let pendingName: LayoutRow[] = [];
+    let lastItem: { item: LayoutReceiptItem; left: number } | null = null;
+    let section: Section = 'header';
+    const itemTaxFlags: (string | undefined)[] = [];
+
+    for (const row of rows) {
+      const label = row.label.toLowerCase();
+      const totalField = this.classifyTotal(label);
+      const isPrice = row.amount !== undefined && row.amountRight! >= priceColumnRight - PRICE_COLUMN_TOLERANCE;
+
+      if (section === 'footer') {
+        continue;
+      }
+
+      if (PAYMENT_LABEL.test(label) || FOOTER_LABEL.test(label)) {
+        // Card slips and "thank you" lines mean the useful part of the receipt is over
+        if (section !== 'header') {
+          section = 'footer';
+        }
+        continue;
+      }
+
+      // Discounts below the subtotal are printed either negative or as a labelled positive amount
+      if (section === 'totals' && row.amount !== undefined && (row.amount < 0 || (DISCOUNT_LABEL.test(label) && !totalField))) {
+        result.discounts.push({ name: row.label || 'Discount', amount: Math.abs(row.amount) });
+        usedLines.push(...row.lines);
+        continue;
+      }
+
+      const chargeType = row.amount !== undefined && row.amount > 0 ? classifyCharge(label) : undefined;
+      if (chargeType) {
+        // Fees are totals lines even when the restaurant prints them among the items
+        result.charges.push({ name: row.label, type: chargeType, amount: row.amount! });
+        usedLines.push(...row.lines);
+        pendingName = [];
+        continue;
+      }
+
+      if (totalField && row.amount !== undefined) {
+        // Later rows win, so a "Total" printed after the tip line replaces the pre-tip total
+        section = 'totals';
+        usedLines.push(...row.lines);
+
+        if (totalField === 'tax') {
+          // Several tax lines add up; a "Total Tax" line after them only restates the sum
+          if (!(/\btotal\b/.test(label) && result.taxLines.length > 0)) {
+            result.taxLines.push({ name: row.label, ...classifyTaxLine(row.label), amount: row.amount });
+          }
+          result.tax = Math.round(result.taxLines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+        } else {
+          result[totalField] = row.amount;
+        }
+        continue;
+      }
+
+      if (section === 'totals') {
+        continue;
+      }
+
+      if (section === 'header') {
+        if (!isPrice || HEADER_LABEL.test(label) || PHONE.test(label)) {
+          headerRows.push(row);
+          continue;
+        }
+        section = 'items';
+      }
+
+      // Item section
+      if (!isPrice) {
+        if (!/[a-z]{2,}/i.test(row.label)) {
+          continue; // Separators, unit-price-only lines etc.
+        }
+
+        const continuesLastItem = lastItem && pendingName.length === 0 &&
+          (row.left > lastItem.left + INDENT_TOLERANCE || CONTINUATION_START.test(row.label));
+
+        if (continuesLastItem) {
+          lastItem!.item.name = `${lastItem!.item.name} ${row.label}`;
+          lastItem!.item.sourceRegion = mergeBoundingBoxes([
+            lastItem!.item.sourceRegion!,
+            ...row.lines.map(line => line.boundingBox)
+          ]);
+          usedLines.push(...row.lines);
+        } else {
+          pendingName.push(row);
+        }
+        continue;
+      }
+
+      if (row.amount! < 0) {
+        // Happy hour, comps and voids come straight after the item they take money off
+        const receiptWide = !lastItem || isReceiptWideDiscount(row.label);
+        result.discounts.push({
+          name: row.label || 'Discount',
+          amount: Math.abs(row.amount!),
+          itemIndex: receiptWide ? undefined : result.items.length - 1
+        });
+        usedLines.push(...row.lines);
+        pendingName = [];
+        continue;
+      }
+
+      const { name, quantity } = this.splitQuantity(row.label);
+      let itemName = name;
+
+      if (!/[a-z]{2,}/i.test(itemName)) {
+        // Price (or "2 @ 7.00") on its own line under the item name
+        itemName = pendingName.map(pending => pending.label).join(' ');
+      } else if (pendingName.length > 0 && CONTINUATION_START.test(itemName)) {
+        // Long name wrapped so that the price sits on the last line
+        itemName = `${pendingName.map(pending => pending.label).join(' ')} ${itemName}`;
+      } else {
+        // Anything else left over was a category heading such as "DRINKS"
+        pendingName = [];
+      }
+
+      if (!itemName) {
+        continue;
+      }
+
+      const lines = [...pendingName.flatMap(pending => pending.lines), ...row.lines];
+      const item: LayoutReceiptItem = {
+        name: itemName.trim(),
+        quantity,
+        price: Math.round((row.amount! / quantity) * 100) / 100,
+        confidence: this.averageConfidence(lines),
+        sourceRegion: mergeBoundingBoxes(lines.map(line => line.boundingBox)),
+        taxCategory: 'standard'
+      };
+
+      result.items.push(item);
+      itemTaxFlags.push(row.taxFlag);
+      usedLines.push(...lines);
+      lastItem = { item, left: Math.min(...lines.map(line => line.boundingBox.left)) };
+      pendingName = [];
+    }
+
+    assignTaxCategories(
+      result.items.map((item, index) => ({ name: item.name, taxFlag: itemTaxFlags[index] })),
+      result.taxLines
+    ).forEach((category, index) => {
+      result.items[index].taxCategory = category;
+    });
+
+    result.restaurantName = this.findRestaurantName(headerRows);
+    result.date = this.findDate(rows);
+    result.currency = detectCurrency(ocrLines.map(line => line.text).join('\n'));
+    result.confidence = this.averageConfidence(usedLines.length > 0 ? usedLines : ocrLines);
+
+    return result;
+  }
+
+  /**
+   * Group lines whose vertical centres line up into rows, top to bottom, left to right
+   */
+  private static buildRows(ocrLines: OcrLine[]): LayoutRow[] {
+    const lines = ocrLines
+      .filter(line => line.text.trim().length > 0)
+      .sort((a, b) => this.centre(a) - this.centre(b));
+
+    const heights = lines.map(line => line.boundingBox.height).sort((a, b) => a - b);
+    const tolerance = (heights[Math.floor(heights.length / 2)] || 0) / 2;
+
+    const groups: OcrLine[][] = [];
+    for (const line of lines) {
+      const group = groups[groups.length - 1];
+      const groupCentre = group && group.reduce((sum, member) => sum + this.centre(member), 0) / group.length;
+
+      if (group && Math.abs(this.centre(line) - groupCentre) <= tolerance) {
+        group.push(line);
+      } else {
+        groups.push([line]);
+      }
+    }
+
+    return groups.map(group => {
+      const cells = group.sort((a, b) => a.boundingBox.left - b.boundingBox.left);
+      const lastCell = cells[cells.length - 1];
+      const amountMatch = lastCell.text.trim().match(TRAILING_AMOUNT);
+
+      const row: LayoutRow = {
+        lines: cells,
+        left: cells[0].boundingBox.left,
+        label: cells.map(cell => cell.text.trim()).join(' ')
+      };
+
+      if (amountMatch) {
+        const negative = Boolean(amountMatch[1] || amountMatch[4]);
+        const value = parseFloat(`${amountMatch[2].replace(/,/g, '')}.${amountMatch[3]}`);
+        const labelCells = cells.slice(0, -1).map(cell => cell.text.trim());
+        const remainder = lastCell.text.trim().slice(0, amountMatch.index).trim();
+
+        row.amount = negative ? -value : value;
+        row.amountRight = lastCell.boundingBox.left + lastCell.boundingBox.width;
+        row.taxFlag = amountMatch[5];
+        row.label = [...labelCells, remainder].filter(text => text.length > 0).join(' ');
+      }
+
+      return row;
+    });
+  }
+
+  /**
+   * Right edge of the price column: the most common right edge among rows that end in an amount
+   */
+  private static findPriceColumn(rows: LayoutRow[]): number {
+    const edges = rows
+      .filter(row => row.amountRight !== undefined)
+      .map(row => row.amountRight!)
+      .sort((a, b) => a - b);
+
+    if (edges.length === 0) {
+      return Infinity;
+    }
+
+    // Upper median, so a few mid-row unit prices don't drag the column left
+    return edges[Math.floor(edges.length * 0.75)];
+  }
+
+  private static classifyTotal(label: string): TotalField | undefined {
+    if (/\b(items?|qty|quantity)\b/.test(label)) {
+      return undefined; // "Total items: 4"
+    }
+    return TOTAL_LABELS.find(([, pattern]) => pattern.test(label))?.[0];
+  }
+
+  /**
+   * Pull a quantity out of "2 Burger", "2x Burger", "Burger x2" or "Burger 2 @ 7.00"
+   */
+  private static splitQuantity(label: string): { name: string; quantity: number } {
+    const patterns: Array<[RegExp, number, number]> = [
+      [/^(\d{1,3})\s*[x×@]?\s+(.+)$/i, 2, 1],
+      [/^(.*?)\s*(\d{1,3})\s*[x×@]\s*[$€£¥]?\d+[.,]\d{2}$/i, 1, 2],
+      [/^(.+?)\s+[x×]\s*(\d{1,3})$/i, 1, 2]
+    ];
+
+    for (const [pattern, nameGroup, quantityGroup] of patterns) {
+      const match = label.match(pattern);
+      const quantity = match ? parseInt(match[quantityGroup]) : 0;
+      if (match && quantity > 0) {
+        return { name: this.stripUnitPrice(match[nameGroup]), quantity };
+      }
+    }
+
+    return { name: this.stripUnitPrice(label), quantity: 1 };
+  }
+
+  /**
+   * Drop a unit price column that OCR read into the name ("Pad Thai 13.00")
+   */
+  private static stripUnitPrice(name: string): string {
+    return name.replace(/\s+(?:@\s*)?[$€£¥]?\d+[.,]\d{2}$/, '').trim();
+  }
+
+  /**
+   * First header row that looks like a name rather than an address, phone number or date
+   */
+  private static findRestaurantName(headerRows: LayoutRow[]): string | undefined {
+    const nameRow = headerRows.find(row =>
+      /[a-z]{3,}/i.test(row.label) &&
+      !/^\d/.test(row.label) &&
+      !PHONE.test(row.label) &&
+      !HEADER_LABEL.test(row.label.toLowerCase()) &&
+      !this.parseDate(row.label)
+    );
+
+    return nameRow?.label.replace(/^welcome to\s+/i, '').trim();
+  }
+
+  private static findDate(rows: LayoutRow[]): string | undefined {
+    for (const row of rows) {
+      const date = this.parseDate(row.lines.map(line => line.text).join(' '));
+      if (date) {
+        return date;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Normalize the common printed date formats to YYYY-MM-DD (slashes are read as US month/day)
+   */
+  private static parseDate(text: string): string | undefined {
+    const format = (year: string, month: number, day: number): string | undefined => {
+      const fullYear = year.length === 2 ? `20${year}` : year;
+      if (month < 1 || month > 12 || day < 1 || day > 31) {
+        return undefined;
+      }
+      return `${fullYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    };
+
+    const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+    if (iso) {
+      return format(iso[1], parseInt(iso[2]), parseInt(iso[3]));
+    }
+
+    const us = text.match(/\b(\d{1,2})[/-](\d{1,2})[/-](\d{4}|\d{2})\b/);
+    if (us) {
+      return format(us[3], parseInt(us[1]), parseInt(us[2]));
+    }
+
+    const dotted = text.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})\b/);
+    if (dotted) {
+      return format(dotted[3], parseInt(dotted[2]), parseInt(dotted[1]));
+    }
+
+    const named = text.match(/\b(?:(\d{1,2})\s+)?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(?:(\d{1,2}),?\s+)?(\d{4})\b/i);
+    if (named && (named[1] || named[3])) {
+      return format(named[4], MONTHS.indexOf(named[2].toLowerCase()) + 1, parseInt(named[1] || named[3]));
+    }
+
+    return undefined;
+  }
+
+  private static centre(line: OcrLine): number {
+    return line.boundingBox.top + line.boundingBox.height / 2;
+  }
+
+  private static averageConfidence(lines: OcrLine[]): number {
+    if (lines.length === 0) {
+      return 0;
+    }
+    return lines.reduce((sum, line) => sum + (line.confidence || 0), 0) / lines.length;
+  }
+}
+
+export default LayoutParser;
@@ -0,0 +1,20 @@
+import { PARSER_CONFIG } from '../../config/parser';
+import { OpenAIParserProvider } from './openaiParserProvider';
+
+/**
+ * A self-hosted model behind an OpenAI-compatible API (Ollama, llama.cpp server, vLLM, LM Studio...)
+ */
+export class LocalLlmParserProvider extends OpenAIParserProvider {
+  readonly name: string = 'local';
+
+  constructor(config: typeof PARSER_CONFIG.local = PARSER_CONFIG.local) {
+    super({
+      apiKey: config.apiKey,
+      model: config.model,
+      baseUrl: config.baseUrl,
+      jsonMode: config.jsonMode
+    });
+  }
+}
+
+export default LocalLlmParserProvider;
@@ -0,0 +1,138 @@
+import { ParsedReceipt } from './receiptSchema';
+import { ParserCompletionRequest, ReceiptParserProvider } from './parserProvider';
+import { assignTaxCategories, classifyCharge, classifyTaxLine, isReceiptWideDiscount } from './layoutParser';
+import { detectCurrency } from '../../utils/currency';
+
+const PRICE_ONLY = /^(?:-\s?)?[$€£¥]?-?\d+(?:,\d{3})*\.\d{2}-?$/;
+const DISCOUNT_LINE = /^(.+?)\s+(?:-\s?[$€£¥]?|\$-)(\d+(?:,\d{3})*\.\d{2})$|^(.+?)\s+[$€£¥]?(\d+(?:,\d{3})*\.\d{2})-$/;
+const ITEM_LINE = /^(?:(\d+)\s*x?\s+)?(.+?)\s+[$€£¥]?(\d+(?:,\d{3})*\.\d{2})$/i;
+const NOT_AN_ITEM = /total|tax|tip|gratuity|balance|change|cash|visa|mastercard|amex|card|due/i;
+
+/**
+ * Deterministic stand-in for an LLM: the same receipt text always produces the same JSON
+ * (receipts without a printed date get today's date, as the real prompt asks for).
+ * Lets uploads run end to end without an API key and gives tests a stable parser.
+ */
+export class MockParserProvider implements ReceiptParserProvider {
+  readonly name = 'mock';
+
+  async complete(request: ParserCompletionRequest): Promise<string> {
+    return JSON.stringify(this.parse(request.ocrText));
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  private parse(ocrText: string): ParsedReceipt {
+    const lines = this.joinPriceLines(
+      ocrText.split('\n').map(line => line.trim()).filter(line => line.length > 0)
+    );
+
+    const receipt: ParsedReceipt = {
+      restaurantName: lines.find(line => !/\d/.test(line)) || 'Unknown Restaurant',
+      restaurantAddress: null,
+      date: this.findDate(lines) || new Date().toISOString().split('T')[0],
+      currency: detectCurrency(ocrText) || null,
+      items: [],
+      discounts: [],
+      charges: [],
+      taxLines: [],
+      subtotal: 0,
+      tax: 0,
+      tip: 0,
+      total: 0
+    };
+
+    for (const line of lines) {
+      const discount = line.match(DISCOUNT_LINE);
+      if (discount) {
+        // Item discounts are printed straight under the item they apply to; anything past the subtotal is receipt-wide
+        const name = (discount[1] || discount[3]).trim();
+        const previousItem = receipt.items[receipt.items.length - 1];
+        const receiptWide = !previousItem || receipt.subtotal > 0 || isReceiptWideDiscount(name);
+        receipt.discounts.push({
+          name,
+          amount: parseFloat((discount[2] || discount[4]).replace(/,/g, '')),
+          itemName: receiptWide ? null : previousItem.name
+        });
+        continue;
+      }
+
+      const match = line.match(ITEM_LINE);
+      if (!match) continue;
+
+      const amount = parseFloat(match[3].replace(/,/g, ''));
+      const label = match[2].toLowerCase();
+
+      const chargeType = classifyCharge(label);
+      if (chargeType) {
+        receipt.charges.push({ name: match[2].trim(), type: chargeType, amount });
+      } else if (/sub\s*total/.test(label)) {
+        receipt.subtotal = amount;
+      } else if (label.includes('tax')) {
+        // Several tax lines add up; a "Total Tax" line after them only restates the sum
+        if (!(label.includes('total') && receipt.taxLines.length > 0)) {
+          const { category, rate } = classifyTaxLine(label);
+          receipt.taxLines.push({ name: match[2].trim(), category, rate: rate ?? null, amount });
+        }
+        receipt.tax = Math.round(receipt.taxLines.reduce((sum, taxLine) => sum + taxLine.amount, 0) * 100) / 100;
+      } else if (label.includes('tip') || label.includes('gratuity')) {
+        receipt.tip = amount;
+      } else if (label.includes('total')) {
+        receipt.total = amount;
+      } else if (!NOT_AN_ITEM.test(label)) {
+        const quantity = match[1] ? parseInt(match[1]) : 1;
+        receipt.items.push({
+          name: match[2].trim(),
+          quantity,
+          price: Math.round((amount / quantity) * 100) / 100,
+          taxCategory: 'standard'
+        });
+      }
+    }
+
+    assignTaxCategories(receipt.items, receipt.taxLines).forEach((category, index) => {
+      receipt.items[index].taxCategory = category;
+    });
+
+    return receipt;
+  }
+
+  /**
+   * OCR often puts a price on its own line after the item - stitch them back together
+   */
+  private joinPriceLines(lines: string[]): string[] {
+    const joined: string[] = [];
+
+    for (const line of lines) {
+      const previous = joined[joined.length - 1];
+      if (PRICE_ONLY.test(line) && previous && !ITEM_LINE.test(previous)) {
+        joined[joined.length - 1] = `${previous} ${line}`;
+      } else {
+        joined.push(line);
+      }
+    }
+
+    return joined;
+  }
+
+  private findDate(lines: string[]): string | undefined {
+    for (const line of lines) {
+      const iso = line.match(/(\d{4})-(\d{2})-(\d{2})/);
+      if (iso) {
+        return iso[0];
+      }
+
+      const us = line.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+      if (us) {
+        const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+        return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+export default MockParserProvider;
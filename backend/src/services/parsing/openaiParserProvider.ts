@@ -0,0 +1,69 @@
+import OpenAI from 'openai';
+import { PARSER_CONFIG } from '../../config/parser';
+import { ParserCompletionRequest, ReceiptParserProvider } from './parserProvider';
+
+export interface OpenAIParserOptions {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  jsonMode?: boolean;
+}
+
+/**
+ * OpenAI chat completions
+ */
+export class OpenAIParserProvider implements ReceiptParserProvider {
+  readonly name: string = 'openai';
+  protected client: OpenAI;
+
+  constructor(protected options: OpenAIParserOptions = { ...PARSER_CONFIG.openai, jsonMode: true }) {
+    if (!options.apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+
+    // Fix for SSL certificate issues in development
+    if (process.env.NODE_ENV === 'development') {
+      process.env["NODE_TLS_REJECT_UNAUTHORIZED"] = "0";
+    }
+
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseUrl
+    });
+  }
+
+  async complete(request: ParserCompletionRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      messages: request.messages,
+      model: this.options.model,
+      temperature: PARSER_CONFIG.temperature,
+      max_tokens: PARSER_CONFIG.maxTokens,
+      ...(this.options.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+    });
+
+    const response = completion.choices[0]?.message?.content;
+
+    if (!response) {
+      throw new Error(`No response from ${this.name} model ${this.options.model}`);
+    }
+
+    return response;
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        messages: [{ role: 'user', content: 'Hello, respond with "OK" if you can receive this message.' }],
+        model: this.options.model,
+        max_tokens: 10
+      });
+
+      return completion.choices[0]?.message?.content?.includes('OK') || false;
+    } catch (error) {
+      console.error(`❌ ${this.name} connection test failed:`, error);
+      return false;
+    }
+  }
+}
+
+export default OpenAIParserProvider;
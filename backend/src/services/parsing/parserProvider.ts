@@ -0,0 +1,28 @@
+export interface ParserMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ParserCompletionRequest {
+  ocrText: string; // The receipt text being parsed
+  messages: ParserMessage[]; // Full conversation, including any repair turns
+}
+
+// Anything that can turn receipt text into a JSON response - swap implementations with RECEIPT_PARSER
+export interface ReceiptParserProvider {
+  readonly name: string;
+
+  /**
+   * Return the raw model response for a conversation (validated by the caller)
+   */
+  complete(request: ParserCompletionRequest): Promise<string>;
+
+  testConnection(): Promise<boolean>;
+}
+
+export class ReceiptParserError extends Error {
+  constructor(message: string, public validationErrors: string[] = []) {
+    super(message);
+    this.name = 'ReceiptParserError';
+  }
+}
@@ -0,0 +1,111 @@
+import { ParserMessage } from './parserProvider';
+
+export const SYSTEM_PROMPT =
+  'You are a precise receipt parser. Return only valid JSON with the exact structure requested. Do not include any explanation or additional text.';
+
+/**
+ * Build the first request for a receipt
+ */
+export const buildParseMessages = (ocrText: string, hint?: string): ParserMessage[] => {
+  const prompt = `
+Parse this receipt text from OCR output and extract the following information in valid JSON format:
+
+OCR OUTPUT:
+${ocrText}
+
+Please extract and return ONLY a valid JSON object with this exact structure:
+{
+  "restaurantName": "string - name of the restaurant",
+  "restaurantAddress": "string - address if available, or null",
+  "date": "string - date in YYYY-MM-DD format, or today's date if not found",
+  "currency": "string - ISO 4217 code such as USD, EUR or GBP, or null if the receipt doesn't show it",
+  "items": [
+    {
+      "name": "string - item name",
+      "quantity": number - quantity (default 1 if not specified),
+      "price": number - individual item price (not total for quantity),
+      "taxCategory": "standard" | "alcohol" | "grocery" | "exempt"
+    }
+  ],
+  "discounts": [
+    {
+      "name": "string - discount, coupon or comp as printed",
+      "amount": number - amount taken off, as a positive number,
+      "itemName": "string - name of the item it applies to, or null if it applies to the whole receipt"
+    }
+  ],
+  "charges": [
+    {
+      "name": "string - charge as printed",
+      "type": "service_charge" | "delivery_fee" | "bag_fee" | "auto_gratuity" | "other_fee",
+      "amount": number - charge amount
+    }
+  ],
+  "taxLines": [
+    {
+      "name": "string - tax line as printed",
+      "category": "standard" | "alcohol" | "grocery" | "exempt",
+      "rate": number - rate in percent, or null if not printed,
+      "amount": number - tax amount on this line
+    }
+  ],
+  "subtotal": number - subtotal amount,
+  "tax": number - total tax amount (the sum of the tax lines),
+  "tip": number - tip the customer chose to add (0 if not found),
+  "total": number - total amount
+}
+
+IMPORTANT RULES:
+1. Return ONLY valid JSON, no other text
+2. For items, extract the individual price per item, not the total for multiple quantities
+3. If quantity is not specified, assume 1
+4. Clean up item names (remove extra characters, numbers that aren't quantities)
+5. Convert all prices to numbers (remove $ signs, commas)
+6. If date is not found, use today's date (${new Date().toISOString().split('T')[0]}) in YYYY-MM-DD format
+7. If any numeric value is not found, use 0
+8. Do not add any fields that aren't in the structure above
+9. Ensure the JSON is properly formatted and parseable
+10. Negative lines (happy hour, comps, coupons, promotions) are discounts, not items - put them in "discounts" with a positive amount, or use [] if there are none
+11. Service charges, delivery fees, bag fees, automatic gratuity for large parties and other mandatory fees go in "charges", not "tip" - use [] if there are none
+12. List every tax line separately in "taxLines" (e.g. sales tax and liquor tax). Give each item the category of the tax it is charged: "alcohol" for drinks taxed by an alcohol/liquor tax line, "exempt" for items marked non-taxable (or left unmarked when the other items carry a tax flag like "T"), otherwise "standard"
+13. Only set "currency" when a symbol, code or the address makes it clear (e.g. € or "EUR") - a bare "$" could be any dollar, so use null
+
+Example item: "2x Burger $15.00" should be:
+{
+  "name": "Burger",
+  "quantity": 2,
+  "price": 7.50
+}
+`;
+
+  // The user's hint is context, not instructions - it can't change the output format
+  const hintSection = hint && hint.trim()
+    ? `\nNOTE FROM THE PERSON WHO UPLOADED THIS RECEIPT (use it to interpret the text, but keep the JSON structure above):\n${hint.trim().slice(0, 500)}\n`
+    : '';
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: prompt + hintSection }
+  ];
+};
+
+/**
+ * Continue the conversation with the invalid response and what was wrong with it
+ */
+export const buildRepairMessages = (
+  previousMessages: ParserMessage[],
+  invalidResponse: string,
+  errors: string[]
+): ParserMessage[] => {
+  return [
+    ...previousMessages,
+    { role: 'assistant', content: invalidResponse },
+    {
+      role: 'user',
+      content:
+        `That response did not match the required structure:\n` +
+        errors.map(error => `- ${error}`).join('\n') +
+        `\n\nReturn the corrected JSON object only, using exactly the fields and types requested.`
+    }
+  ];
+};
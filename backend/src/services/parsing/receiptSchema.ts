@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { CURRENCY_CODE } from '../../utils/currency';
+
+const taxCategorySchema = z.enum(['standard', 'alcohol', 'grocery', 'exempt']);
+
+// The exact shape we ask the model for - anything else is rejected and sent back for repair
+export const parsedReceiptSchema = z.object({
+  restaurantName: z.string().trim().min(1),
+  restaurantAddress: z.string().trim().nullable().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format'),
+  currency: z.string().regex(CURRENCY_CODE, 'Expected a 3-letter currency code like "USD"').nullable().default(null),
+  items: z.array(z.object({
+    name: z.string().trim().min(1),
+    quantity: z.number().int().positive(),
+    price: z.number().finite().nonnegative(),
+    taxCategory: taxCategorySchema.default('standard')
+  }).strict()),
+  discounts: z.array(z.object({
+    name: z.string().trim().min(1),
+    amount: z.number().finite().positive(), // Amount taken off, as a positive number
+    itemName: z.string().trim().min(1).nullable() // The item it applies to, or null for the whole receipt
+  }).strict()).default([]),
+  charges: z.array(z.object({
+    name: z.string().trim().min(1),
+    type: z.enum(['service_charge', 'delivery_fee', 'bag_fee', 'auto_gratuity', 'other_fee']),
+    amount: z.number().finite().positive()
+  }).strict()).default([]),
+  taxLines: z.array(z.object({
+    name: z.string().trim().min(1),
+    category: taxCategorySchema,
+    rate: z.number().finite().nonnegative().nullable(), // Percent, or null if not printed
+    amount: z.number().finite().nonnegative()
+  }).strict()).default([]),
+  subtotal: z.number().finite().nonnegative(),
+  tax: z.number().finite().nonnegative(),
+  tip: z.number().finite().nonnegative(),
+  total: z.number().finite().nonnegative()
+}).strict();
+
+export type ParsedReceipt = z.infer<typeof parsedReceiptSchema>;
+
+export type ReceiptValidationResult =
+  | { success: true; data: ParsedReceipt }
+  | { success: false; errors: string[] };
+
+/**
+ * Pull the JSON object out of a model response (tolerating code fences) and validate it
+ */
+export const validateParserResponse = (response: string): ReceiptValidationResult => {
+  const cleaned = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(cleaned);
+  } catch {
+    return { success: false, errors: ['Response is not valid JSON'] };
+  }
+
+  const result = parsedReceiptSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    };
+  }
+
+  return { success: true, data: result.data };
+};
@@ -0,0 +1,201 @@
+import mongoose from 'mongoose';
+import Receipt, { IReceipt } from '../models/Receipt';
+import Restaurant from '../models/Restaurant';
+import User from '../models/User';
+import Job, { IJob } from '../models/Job';
+import { JobQueue } from './jobQueue';
+import { StorageService } from './storage';
+import { TextractService } from './textractService';
+import { ReconciliationService } from './reconciliationService';
+import { SplitCalculationService } from './splitCalculationService';
+
+export const PROCESS_RECEIPT_JOB = 'process_receipt';
+
+export interface ReceiptProcessingStatus {
+  receiptId: string;
+  processingStatus: IReceipt['processingStatus'];
+  processingStage?: IReceipt['processingStage'];
+  processingError?: string;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: Date; // Set while waiting to retry after a failure
+}
+
+export class ReceiptProcessingService {
+
+  /**
+   * Register the receipt processing job with the queue (call before JobQueue.start)
+   */
+  static registerJobHandler(): void {
+    JobQueue.register(PROCESS_RECEIPT_JOB, {
+      handler: job => this.processReceipt(job.payload.receiptId),
+      onFailure: (job, error, willRetry) => this.recordFailure(job, error, willRetry)
+    });
+  }
+
+  /**
+   * Queue OCR and parsing for a receipt whose image is already in storage
+   */
+  static async enqueue(receipt: IReceipt): Promise<IJob> {
+    receipt.processingStatus = 'pending';
+    receipt.processingStage = 'queued';
+    receipt.processingError = undefined;
+    await receipt.save();
+
+    return JobQueue.enqueue(PROCESS_RECEIPT_JOB, { receiptId: (receipt._id as any).toString() });
+  }
+
+  /**
+   * Run OCR + parsing for a receipt and fill in its details
+   */
+  static async processReceipt(receiptId: string): Promise<void> {
+    const receipt = await Receipt.findById(receiptId);
+
+    if (!receipt) {
+      // Deleted while it was waiting in the queue - nothing to do
+      console.log(`🗑️ Receipt ${receiptId} no longer exists, skipping processing`);
+      return;
+    }
+
+    if (receipt.processingStatus === 'completed') {
+      return;
+    }
+
+    const setStage = async (stage: NonNullable<IReceipt['processingStage']>) => {
+      receipt.processingStage = stage;
+      await receipt.save();
+    };
+
+    receipt.processingStatus = 'processing';
+    await setStage('downloading');
+
+    // Step 1: Fetch the image back from storage
+    const file = await StorageService.getDriver().downloadFile(receipt.s3Key);
+
+    // Step 2: Run OCR and parse the receipt
+    console.log(`🔍 Processing receipt ${receiptId} with OCR...`);
+    const extractedData = await TextractService.extractReceiptData(file.body, file.contentType, {
+      onStage: setStage,
+      defaultCurrency: receipt.currency
+    });
+
+    // Step 3: Save the extracted details
+    receipt.processingStage = 'saving';
+    receipt.restaurantName = extractedData.restaurantName || 'Unknown Restaurant';
+    receipt.date = extractedData.date && !isNaN(new Date(extractedData.date).getTime()) ? new Date(extractedData.date) : receipt.date;
+    receipt.currency = extractedData.currency; // The user's home currency (set on upload) unless the receipt shows another we have rates for
+    receipt.items = extractedData.items.map(item => ({
+      name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+      assignedTo: [],
+      sourceRegion: item.sourceRegion,
+      confidence: item.confidence,
+      confidenceReasons: item.confidenceReasons,
+      adjustments: item.adjustments || [],
+      taxCategory: item.taxCategory
+    }));
+    receipt.adjustments = extractedData.adjustments || [];
+    receipt.charges = (extractedData.charges || []).map(charge => ({
+      ...charge,
+      distribution: SplitCalculationService.defaultChargeDistribution(charge.type),
+      assignedTo: []
+    }));
+    receipt.taxLines = extractedData.taxLines || [];
+    receipt.subtotal = extractedData.subtotal || 0;
+    receipt.tax = extractedData.tax || 0;
+    receipt.tip = extractedData.tip || 0;
+    receipt.total = extractedData.total || 0; // Left at 0 rather than guessed, so reconciliation flags it
+    receipt.ocrConfidence = extractedData.confidence;
+    receipt.rawTextractData = extractedData.rawData;
+    receipt.processingStatus = 'completed';
+    receipt.processingStage = undefined;
+    receipt.processingError = undefined;
+    receipt.processingWarnings = extractedData.warnings || [];
+
+    // Step 4: Check that the extracted amounts add up
+    const reconciliation = ReconciliationService.apply(receipt);
+    if (reconciliation.status === 'mismatch') {
+      console.warn(`⚠️ Receipt ${receiptId} doesn't reconcile:`, reconciliation.issues.map(issue => issue.message).join('; '));
+    }
+    await receipt.save();
+
+    // Step 5: Update restaurant history
+    await this.updateRestaurantHistory(receipt);
+
+    console.log(`✅ Receipt ${receiptId} processed and saved successfully`);
+  }
+
+  /**
+   * Current processing state of a receipt, including retry information from its latest job
+   */
+  static async getStatus(receipt: IReceipt): Promise<ReceiptProcessingStatus> {
+    const receiptId = (receipt._id as any).toString();
+    const job = await Job.findOne({ type: PROCESS_RECEIPT_JOB, 'payload.receiptId': receiptId }).sort({ createdAt: -1 });
+
+    return {
+      receiptId,
+      processingStatus: receipt.processingStatus,
+      processingStage: receipt.processingStage,
+      processingError: receipt.processingError,
+      attempts: job?.attempts || 0,
+      maxAttempts: job?.maxAttempts || 0,
+      nextAttemptAt: job && job.status === 'queued' && job.attempts > 0 ? job.runAt : undefined
+    };
+  }
+
+  /**
+   * Show the failure on the receipt so the frontend can explain what happened
+   */
+  private static async recordFailure(job: IJob, error: Error, willRetry: boolean): Promise<void> {
+    const receipt = await Receipt.findById(job.payload.receiptId);
+    if (!receipt) {
+      return;
+    }
+
+    receipt.processingStatus = willRetry ? 'pending' : 'failed';
+    receipt.processingStage = willRetry ? 'queued' : undefined;
+    receipt.processingError = willRetry
+      ? `Attempt ${job.attempts} of ${job.maxAttempts} failed, retrying: ${error.message}`
+      : error.message;
+    await receipt.save();
+  }
+
+  /**
+   * Count the visit against the restaurant (spending is only added when the split is finalized)
+   */
+  private static async updateRestaurantHistory(receipt: IReceipt): Promise<void> {
+    try {
+      let restaurant = await Restaurant.findOne({
+        userId: receipt.userId,
+        name: receipt.restaurantName
+      });
+
+      if (restaurant) {
+        // Update existing restaurant
+        restaurant.visitCount += 1;
+        // Don't update totalSpent here - only when split is finalized
+        restaurant.lastVisit = receipt.date;
+      } else {
+        // Create new restaurant entry, totalled in the user's home currency
+        const owner = await User.findById(receipt.userId).select('homeCurrency');
+        restaurant = new Restaurant({
+          name: receipt.restaurantName,
+          visitCount: 1,
+          totalSpent: 0, // Will be updated when split is finalized
+          currency: owner?.homeCurrency || receipt.currency,
+          lastVisit: receipt.date,
+          userId: new mongoose.Types.ObjectId(receipt.userId.toString())
+        });
+      }
+
+      await restaurant.save();
+      console.log('📍 Restaurant history updated');
+    } catch (restaurantError) {
+      console.error('Error updating restaurant history:', restaurantError);
+      // Don't fail the receipt processing if restaurant update fails
+    }
+  }
+}
+
+export default ReceiptProcessingService;
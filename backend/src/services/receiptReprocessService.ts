@@ -0,0 +1,484 @@
+import mongoose from 'mongoose';
+import Receipt, { IReceipt } from '../models/Receipt';
+import Restaurant from '../models/Restaurant';
+import User from '../models/User';
+import { IJob } from '../models/Job';
+import { OcrProviderType } from '../config/ocr';
+import { ReceiptParserType } from '../config/parser';
+import { JobQueue } from './jobQueue';
+import { OcrLine, OcrService } from './ocr';
+import { ReceiptParsingService } from './parsing';
+import { StorageService } from './storage';
+import { ExtractedReceiptData, TextractService } from './textractService';
+import { SplitCalculationService } from './splitCalculationService';
+import { CurrencyService } from './currency';
+import { ReconciliationService } from './reconciliationService';
+import { TipService } from './tipService';
+import { nameSimilarity } from '../utils/textSimilarity';
+
+export const REPROCESS_RECEIPT_JOB = 'reprocess_receipt';
+
+export interface ReprocessOptions {
+  mode: 'full' | 'parse';
+  ocrProvider?: OcrProviderType;
+  parser?: ReceiptParserType;
+  hint?: string;
+}
+
+type ItemSnapshot = { name: string; quantity: number; price: number };
+
+export interface ItemChange {
+  change: 'unchanged' | 'modified' | 'added' | 'removed';
+  currentIndex?: number; // Position in the receipt as it is now
+  newIndex?: number; // Position in the re-processed result
+  before?: ItemSnapshot;
+  after?: ItemSnapshot;
+  keepsAssignment: boolean; // True when the item's people carry over if applied
+  assignedTo: string[]; // People currently assigned to the item
+}
+
+export interface FieldChange {
+  field: 'restaurantName' | 'date' | 'currency' | 'subtotal' | 'tax' | 'tip' | 'total';
+  before: string | number;
+  after: string | number;
+}
+
+export interface ReprocessDiff {
+  fields: FieldChange[];
+  currency: string; // What the re-processed amounts are in
+  items: ItemChange[];
+  reconciliation: ReturnType<typeof ReconciliationService.check>; // How the result would add up if applied
+  summary: {
+    unchanged: number;
+    modified: number;
+    added: number;
+    removed: number;
+    assignmentsKept: number;
+    assignmentsLost: number;
+  };
+}
+
+export class ReceiptReprocessService {
+
+  /**
+   * Register the reprocess job with the queue (call before JobQueue.start)
+   */
+  static registerJobHandler(): void {
+    JobQueue.register(REPROCESS_RECEIPT_JOB, {
+      handler: job => this.runReprocess(job.payload.receiptId),
+      onFailure: (job, error, willRetry) => this.recordFailure(job, error, willRetry)
+    });
+  }
+
+  /**
+   * Queue a new OCR/parsing run. The result is kept aside until the user applies it.
+   * Returns null if a run is already queued or in progress for the receipt.
+   */
+  static async requestReprocess(receipt: IReceipt, options: ReprocessOptions): Promise<IJob | null> {
+    const pendingReprocess = {
+      status: 'queued' as const,
+      mode: options.mode,
+      ocrProvider: options.ocrProvider,
+      parser: options.parser,
+      hint: options.hint,
+      requestedAt: new Date()
+    };
+
+    // Claimed in one update, so two requests at once can't both start a run
+    const claimed = await Receipt.findOneAndUpdate(
+      {
+        _id: receipt._id,
+        processingStatus: 'completed',
+        'pendingReprocess.status': { $nin: ['queued', 'processing'] }
+      },
+      { $set: { pendingReprocess } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      return null;
+    }
+
+    receipt.pendingReprocess = claimed.pendingReprocess;
+    return JobQueue.enqueue(REPROCESS_RECEIPT_JOB, { receiptId: (receipt._id as any).toString() });
+  }
+
+  /**
+   * Run the requested OCR/parsing and store the result for review
+   */
+  static async runReprocess(receiptId: string): Promise<void> {
+    const receipt = await Receipt.findById(receiptId);
+    const pending = receipt?.pendingReprocess;
+
+    if (!receipt || !pending || (pending.status !== 'queued' && pending.status !== 'processing')) {
+      // Receipt deleted or request discarded while queued - nothing to do
+      return;
+    }
+
+    pending.status = 'processing';
+    pending.error = undefined;
+    receipt.markModified('pendingReprocess');
+    await receipt.save();
+
+    const extractionOptions = {
+      ocrProvider: pending.ocrProvider ? OcrService.createProvider(pending.ocrProvider as OcrProviderType) : undefined,
+      parser: pending.parser ? ReceiptParsingService.createProvider(pending.parser as ReceiptParserType) : undefined,
+      hint: pending.hint,
+      defaultCurrency: receipt.currency
+    };
+
+    let extractedData: ExtractedReceiptData;
+
+    if (pending.mode === 'parse') {
+      // Re-parse the text we already have, skipping OCR
+      const storedLines: OcrLine[] | undefined = receipt.rawTextractData?.ocrLines;
+      if (!storedLines || storedLines.length === 0) {
+        throw new Error('No stored OCR text for this receipt, reprocess it with OCR instead');
+      }
+
+      extractedData = await TextractService.extractFromOcrResult(
+        { provider: receipt.rawTextractData.ocrProvider || 'stored', lines: storedLines },
+        extractionOptions
+      );
+    } else {
+      const file = await StorageService.getDriver().downloadFile(receipt.s3Key);
+      extractedData = await TextractService.extractReceiptData(file.body, file.contentType, extractionOptions);
+    }
+
+    pending.status = 'ready';
+    pending.completedAt = new Date();
+    pending.result = extractedData;
+    receipt.markModified('pendingReprocess');
+    await receipt.save();
+
+    console.log(`✅ Reprocessed receipt ${receiptId}, waiting for review`);
+  }
+
+  /**
+   * Compare a finished reprocess result against the receipt as it is now
+   */
+  static buildDiff(receipt: IReceipt, result: ExtractedReceiptData): ReprocessDiff {
+    const currentItems = receipt.items.map(item => ({ name: item.name, quantity: item.quantity, price: item.price }));
+    const newItems = result.items.map(item => ({ name: item.name, quantity: item.quantity, price: item.price }));
+    const matches = this.matchItems(currentItems, newItems);
+    const matchedCurrent = new Map<number, number>([...matches].map(([newIndex, currentIndex]) => [currentIndex, newIndex]));
+
+    const items: ItemChange[] = [];
+
+    newItems.forEach((after, newIndex) => {
+      const currentIndex = matches.get(newIndex);
+
+      if (currentIndex === undefined) {
+        items.push({ change: 'added', newIndex, after, keepsAssignment: false, assignedTo: [] });
+        return;
+      }
+
+      const before = currentItems[currentIndex];
+      const assignedTo = receipt.items[currentIndex].assignedTo || [];
+      const identical = before.name === after.name && before.quantity === after.quantity && before.price === after.price;
+
+      items.push({
+        change: identical ? 'unchanged' : 'modified',
+        currentIndex,
+        newIndex,
+        before,
+        after,
+        keepsAssignment: assignedTo.length > 0,
+        assignedTo
+      });
+    });
+
+    currentItems.forEach((before, currentIndex) => {
+      if (!matchedCurrent.has(currentIndex)) {
+        items.push({
+          change: 'removed',
+          currentIndex,
+          before,
+          keepsAssignment: false,
+          assignedTo: receipt.items[currentIndex].assignedTo || []
+        });
+      }
+    });
+
+    const proposed = this.proposedFields(receipt, result);
+    const current: Record<FieldChange['field'], string | number> = {
+      restaurantName: receipt.restaurantName,
+      date: receipt.date.toISOString().split('T')[0],
+      currency: receipt.currency,
+      subtotal: receipt.subtotal,
+      tax: receipt.tax,
+      // Compared with what was printed, not a tip added in the app
+      tip: receipt.printedTip ?? receipt.tip,
+      total: receipt.printedTotal ?? receipt.total
+    };
+
+    const fields = (Object.keys(current) as FieldChange['field'][])
+      .filter(field => current[field] !== proposed[field])
+      .map(field => ({ field, before: current[field], after: proposed[field] }));
+
+    return {
+      fields,
+      currency: proposed.currency,
+      items,
+      reconciliation: ReconciliationService.check({
+        ...proposed,
+        items: result.items,
+        adjustments: result.adjustments,
+        charges: result.charges
+      }),
+      summary: {
+        unchanged: items.filter(item => item.change === 'unchanged').length,
+        modified: items.filter(item => item.change === 'modified').length,
+        added: items.filter(item => item.change === 'added').length,
+        removed: items.filter(item => item.change === 'removed').length,
+        assignmentsKept: items.filter(item => item.keepsAssignment).length,
+        assignmentsLost: items.filter(item => item.change === 'removed' && item.assignedTo.length > 0).length
+      }
+    };
+  }
+
+  /**
+   * Replace the receipt's details with the reprocess result, carrying people and
+   * assignments over to items that still match
+   */
+  static async applyReprocess(receipt: IReceipt): Promise<ReprocessDiff> {
+    const result: ExtractedReceiptData = receipt.pendingReprocess!.result;
+    const warnings = result.warnings || [];
+
+    // Results read before currencies were checked can be in one there are no rates for
+    if (result.currency && result.currency !== receipt.currency && !(await CurrencyService.isSupported(result.currency))) {
+      warnings.push(`The receipt looks like it's in ${result.currency}, which isn't supported, so its amounts were kept in ${receipt.currency}`);
+      result.currency = receipt.currency;
+    }
+
+    const diff = this.buildDiff(receipt, result);
+    const proposed = this.proposedFields(receipt, result);
+
+    const oldRestaurantName = receipt.restaurantName;
+    const oldUserAmount = receipt.isComplete ? this.userAmount(receipt) : 0;
+    const oldCurrency = receipt.currency;
+    const currentItems = receipt.items;
+
+    // Step 1: Rebuild the item list, keeping assignments for matched items
+    receipt.items = result.items.map((item, newIndex) => {
+      const match = diff.items.find(change => change.newIndex === newIndex && change.currentIndex !== undefined);
+      const previous = match ? currentItems[match.currentIndex!] : undefined;
+
+      return {
+        name: item.name,
+        quantity: item.quantity,
+        price: item.price,
+        assignedTo: previous?.assignedTo || [],
+        shares: previous?.shares || [],
+        units: previous && previous.quantity === item.quantity ? previous.units || [] : [], // Unit counts only carry over to the same quantity
+        notes: previous?.notes,
+        sourceRegion: item.sourceRegion,
+        confidence: item.confidence,
+        confidenceReasons: item.confidenceReasons,
+        adjustments: item.adjustments || [],
+        taxCategory: item.taxCategory
+      };
+    });
+
+    // Step 2: Update the receipt details
+    receipt.restaurantName = proposed.restaurantName;
+    receipt.date = new Date(proposed.date);
+    receipt.currency = proposed.currency;
+    receipt.subtotal = proposed.subtotal;
+    receipt.tax = proposed.tax;
+    TipService.setPrinted(receipt, proposed.tip, proposed.total);
+    receipt.adjustments = result.adjustments || [];
+    receipt.charges = this.carryOverCharges(receipt, result);
+    receipt.taxLines = result.taxLines || [];
+    receipt.ocrConfidence = result.confidence;
+    receipt.processingWarnings = warnings;
+    receipt.rawTextractData = result.rawData;
+    receipt.pendingReprocess = undefined;
+    ReconciliationService.apply(receipt);
+
+    // Step 3: Recalculate splits for the new items
+    if (receipt.people && receipt.people.length > 0) {
+      receipt.splitCalculations = SplitCalculationService.calculateSplit(receipt);
+      receipt.isComplete = SplitCalculationService.isReceiptComplete(receipt);
+    }
+
+    await receipt.save();
+
+    // Step 4: Keep restaurant history in step with the new name and split
+    const newUserAmount = receipt.isComplete ? this.userAmount(receipt) : 0;
+    await this.updateRestaurantHistory(receipt, oldRestaurantName, oldUserAmount, oldCurrency, newUserAmount);
+
+    return diff;
+  }
+
+  /**
+   * Drop a pending reprocess result without changing the receipt
+   */
+  static async discardReprocess(receipt: IReceipt): Promise<void> {
+    receipt.pendingReprocess = undefined;
+    await receipt.save();
+  }
+
+  /**
+   * Pair re-processed items with current ones by name similarity, preferring equal prices.
+   * Returns a map of new item index -> current item index.
+   */
+  private static matchItems(currentItems: ItemSnapshot[], newItems: ItemSnapshot[]): Map<number, number> {
+    const candidates: Array<{ newIndex: number; currentIndex: number; score: number }> = [];
+
+    newItems.forEach((newItem, newIndex) => {
+      currentItems.forEach((currentItem, currentIndex) => {
+        const similarity = nameSimilarity(currentItem.name, newItem.name);
+        if (similarity >= 0.75) {
+          const samePrice = currentItem.price === newItem.price;
+          candidates.push({ newIndex, currentIndex, score: similarity + (samePrice ? 0.1 : 0) });
+        }
+      });
+    });
+
+    // Best pairs first; each item can only be matched once
+    candidates.sort((a, b) => b.score - a.score || a.newIndex - b.newIndex);
+
+    const matches = new Map<number, number>();
+    const usedCurrent = new Set<number>();
+
+    for (const candidate of candidates) {
+      if (matches.has(candidate.newIndex) || usedCurrent.has(candidate.currentIndex)) continue;
+      matches.set(candidate.newIndex, candidate.currentIndex);
+      usedCurrent.add(candidate.currentIndex);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Receipt fields as they would be after applying, using the same defaults as the first upload
+   */
+  private static proposedFields(receipt: IReceipt, result: ExtractedReceiptData) {
+    const parsedDate = result.date && !isNaN(new Date(result.date).getTime()) ? new Date(result.date) : receipt.date;
+
+    return {
+      restaurantName: result.restaurantName || receipt.restaurantName,
+      date: parsedDate.toISOString().split('T')[0],
+      currency: result.currency || receipt.currency, // Receipts that don't show a currency keep the one they have
+      subtotal: result.subtotal || 0,
+      tax: result.tax || 0,
+      tip: result.tip || 0,
+      total: result.total || 0
+    };
+  }
+
+  /**
+   * New charges keep the distribution the user picked for a charge of the same type
+   */
+  private static carryOverCharges(receipt: IReceipt, result: ExtractedReceiptData): IReceipt['charges'] {
+    const previousCharges = [...(receipt.charges || [])];
+
+    return (result.charges || []).map(charge => {
+      const previousIndex = previousCharges.findIndex(previous => previous.type === charge.type);
+      const previous = previousIndex >= 0 ? previousCharges.splice(previousIndex, 1)[0] : undefined;
+
+      return {
+        ...charge,
+        distribution: previous?.distribution || SplitCalculationService.defaultChargeDistribution(charge.type),
+        assignedTo: previous?.assignedTo || []
+      };
+    });
+  }
+
+  /**
+   * The owner's share of a finalized split
+   */
+  private static userAmount(receipt: IReceipt): number {
+    return SplitCalculationService.ownerSplit(receipt, receipt.splitCalculations || [])?.total || 0;
+  }
+
+  /**
+   * Move the visit to the new restaurant name if it changed, and swap the old split amount for the new one.
+   * Amounts are converted from the receipt's currency (before and after) to each restaurant's.
+   */
+  private static async updateRestaurantHistory(
+    receipt: IReceipt,
+    oldRestaurantName: string,
+    oldUserAmount: number,
+    oldCurrency: string,
+    newUserAmount: number
+  ): Promise<void> {
+    try {
+      const userId = new mongoose.Types.ObjectId(receipt.userId.toString());
+
+      const oldRestaurant = await Restaurant.findOne({ userId, name: oldRestaurantName });
+      const oldAmount = oldRestaurant ? await CurrencyService.convert(oldUserAmount, oldCurrency, oldRestaurant.currency) : 0;
+
+      if (oldRestaurantName === receipt.restaurantName) {
+        if (oldRestaurant) {
+          const newAmount = await CurrencyService.convert(newUserAmount, receipt.currency, oldRestaurant.currency);
+          if (oldAmount !== newAmount) {
+            oldRestaurant.totalSpent = Math.max(0, oldRestaurant.totalSpent + newAmount - oldAmount);
+            await oldRestaurant.save();
+          }
+        }
+        return;
+      }
+
+      if (oldRestaurant) {
+        oldRestaurant.visitCount = Math.max(0, oldRestaurant.visitCount - 1);
+        oldRestaurant.totalSpent = Math.max(0, oldRestaurant.totalSpent - oldAmount);
+
+        if (oldRestaurant.visitCount === 0) {
+          await Restaurant.findByIdAndDelete(oldRestaurant._id);
+        } else {
+          await oldRestaurant.save();
+        }
+      }
+
+      let newRestaurant = await Restaurant.findOne({ userId, name: receipt.restaurantName });
+      if (newRestaurant) {
+        newRestaurant.visitCount += 1;
+        newRestaurant.totalSpent += await CurrencyService.convert(newUserAmount, receipt.currency, newRestaurant.currency);
+        if (!newRestaurant.lastVisit || receipt.date > newRestaurant.lastVisit) {
+          newRestaurant.lastVisit = receipt.date;
+        }
+      } else {
+        const owner = await User.findById(userId).select('homeCurrency');
+        const currency = owner?.homeCurrency || receipt.currency;
+        newRestaurant = new Restaurant({
+          name: receipt.restaurantName,
+          visitCount: 1,
+          totalSpent: await CurrencyService.convert(newUserAmount, receipt.currency, currency),
+          currency,
+          lastVisit: receipt.date,
+          userId
+        });
+      }
+
+      await newRestaurant.save();
+      console.log(`📍 Moved visit from ${oldRestaurantName} to ${receipt.restaurantName}`);
+    } catch (restaurantError) {
+      console.error('Error updating restaurant history after reprocess:', restaurantError);
+      // Don't fail the apply if restaurant update fails
+    }
+  }
+
+  /**
+   * Show why a reprocess failed once retries are used up
+   */
+  private static async recordFailure(job: IJob, error: Error, willRetry: boolean): Promise<void> {
+    if (willRetry) {
+      return;
+    }
+
+    const receipt = await Receipt.findById(job.payload.receiptId);
+    if (!receipt?.pendingReprocess) {
+      return;
+    }
+
+    receipt.pendingReprocess.status = 'failed';
+    receipt.pendingReprocess.error = error.message;
+    receipt.pendingReprocess.completedAt = new Date();
+    receipt.markModified('pendingReprocess');
+    await receipt.save();
+  }
+}
+
+export default ReceiptReprocessService;
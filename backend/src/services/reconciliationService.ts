@@ -0,0 +1,237 @@
+import { IReceipt } from '../models/Receipt';
+import { CURRENCY_CONFIG } from '../config/currency';
+import { formatMoney } from '../utils/currency';
+
+type Reconciliation = NonNullable<IReceipt['reconciliation']>;
+type ReconciliationIssue = Reconciliation['issues'][number];
+type ReconciliationSuggestion = ReconciliationIssue['suggestions'][number];
+
+// The amounts the checks look at (in minor units) - a receipt document or the same fields from a parse result
+export type ReconcilableReceipt = Partial<Pick<IReceipt, 'subtotal' | 'tax' | 'tip' | 'total'>> & {
+  items: Array<{ name: string; quantity: number; price: number; adjustments?: Array<{ amount: number }> }>;
+  adjustments?: Array<{ amount: number }>; // Receipt-wide discounts
+  charges?: Array<{ amount: number }>; // Service charges and fees
+  currency?: string | null; // For the messages - the default currency if not known
+};
+
+// Differences up to this many minor units are treated as rounding (unit prices derived from line totals lose a cent here and there)
+export const RECONCILIATION_TOLERANCE = 2;
+
+const formatAmount = (amount: number, currency: string): string => formatMoney(Math.abs(amount), currency);
+const isClose = (a: number, b: number): boolean => Math.abs(a - b) <= RECONCILIATION_TOLERANCE;
+const sumAmounts = (entries?: Array<{ amount: number }>): number =>
+  (entries || []).reduce((sum, entry) => sum + entry.amount, 0);
+
+export class ReconciliationService {
+
+  /**
+   * Check that the items (less their discounts) add up to the subtotal and that subtotal - receipt
+   * discounts + tax + tip adds up to the total
+   */
+  static check(receipt: ReconcilableReceipt): Omit<Reconciliation, 'acknowledgedAt'> {
+    const itemsTotal = receipt.items.reduce(
+      (sum, item) => sum + item.price * item.quantity - sumAmounts(item.adjustments),
+      0
+    );
+    const receiptDiscounts = sumAmounts(receipt.adjustments);
+    const currency = receipt.currency || CURRENCY_CONFIG.defaultCurrency;
+    const issues: ReconciliationIssue[] = [];
+
+    // Step 1: Items vs subtotal (without a printed subtotal, the items stand in for it).
+    // Receipt-wide discounts can be printed above the subtotal or between it and the total.
+    let subtotal = receipt.subtotal || 0;
+    const discountedBeforeSubtotal = receiptDiscounts > 0 && subtotal > 0 && isClose(itemsTotal - receiptDiscounts, subtotal);
+    const expectedSubtotal = discountedBeforeSubtotal ? itemsTotal - receiptDiscounts : itemsTotal;
+
+    if (subtotal <= 0 && itemsTotal > 0) {
+      issues.push(this.issue('missing_subtotal', itemsTotal, 0, 'No subtotal was found on the receipt', [
+        { cause: 'subtotal_not_found', message: `The items add up to ${formatAmount(itemsTotal, currency)}`, amount: itemsTotal }
+      ]));
+      subtotal = itemsTotal;
+    } else if (!isClose(expectedSubtotal, subtotal)) {
+      const difference = subtotal - expectedSubtotal;
+      issues.push(this.issue(
+        'items_vs_subtotal',
+        subtotal,
+        expectedSubtotal,
+        `Items add up to ${formatAmount(itemsTotal, currency)} but the subtotal is ${formatAmount(subtotal, currency)} (items are ${formatAmount(difference, currency)} ${difference > 0 ? 'short' : 'over'})`,
+        this.suggestItemCauses(receipt.items, difference, currency)
+      ));
+    }
+
+    // Step 2: Subtotal (less any discounts not already in it) + charges + tax + tip vs total
+    const tax = receipt.tax || 0;
+    const tip = receipt.tip || 0;
+    const charges = sumAmounts(receipt.charges);
+    const discountsAfterSubtotal = discountedBeforeSubtotal ? 0 : receiptDiscounts;
+    const expectedTotal = subtotal - discountsAfterSubtotal + charges + tax + tip;
+    const total = receipt.total || 0;
+    const parts = [
+      discountsAfterSubtotal > 0 ? 'Subtotal less discounts' : 'Subtotal',
+      ...(charges > 0 ? ['charges'] : []),
+      'tax'
+    ].join(', ') + ' and tip';
+
+    if (total <= 0 && expectedTotal > 0) {
+      issues.push(this.issue('missing_total', expectedTotal, 0, 'No total was found on the receipt', [
+        { cause: 'total_not_found', message: `${parts} add up to ${formatAmount(expectedTotal, currency)}`, amount: expectedTotal }
+      ]));
+    } else if (!isClose(expectedTotal, total)) {
+      const difference = total - expectedTotal;
+      issues.push(this.issue(
+        'subtotal_vs_total',
+        total,
+        expectedTotal,
+        `${parts} add up to ${formatAmount(expectedTotal, currency)} but the total is ${formatAmount(total, currency)} (total is ${formatAmount(difference, currency)} ${difference > 0 ? 'higher' : 'lower'})`,
+        this.suggestTotalCauses(tax, tip, difference, currency)
+      ));
+    }
+
+    return {
+      status: issues.length === 0 ? 'balanced' : 'mismatch',
+      itemsTotal,
+      issues,
+      checkedAt: new Date()
+    };
+  }
+
+  /**
+   * Re-check a receipt and store the result. An earlier acknowledgement is kept only if
+   * the discrepancies are exactly the ones the user accepted.
+   */
+  static apply(receipt: IReceipt): Reconciliation {
+    const previous = receipt.reconciliation;
+    const result: Reconciliation = this.check(receipt);
+
+    if (previous?.acknowledgedAt && result.status === 'mismatch' && this.sameIssues(previous, result)) {
+      result.acknowledgedAt = previous.acknowledgedAt;
+    }
+
+    receipt.reconciliation = result;
+    return result;
+  }
+
+  /**
+   * Whether the amounts can be relied on for splitting: balanced, accepted by the user,
+   * or never checked (receipts from before reconciliation existed)
+   */
+  static isResolved(receipt: IReceipt): boolean {
+    const reconciliation = receipt.reconciliation;
+    return !reconciliation || reconciliation.status === 'balanced' || !!reconciliation.acknowledgedAt;
+  }
+
+  /**
+   * Likely reasons the items don't add up to the subtotal. difference = subtotal - items total.
+   */
+  private static suggestItemCauses(
+    items: ReconcilableReceipt['items'],
+    difference: number,
+    currency: string
+  ): ReconciliationSuggestion[] {
+    const suggestions: ReconciliationSuggestion[] = [];
+    const gap = Math.abs(difference);
+
+    items.forEach((item, itemIndex) => {
+      const lineTotal = item.price * item.quantity;
+
+      // A quantity read as 1 instead of 2 (or 3 instead of 2) moves the sum by whole unit prices
+      if (item.price > 0) {
+        const units = Math.round(gap / item.price);
+        const newQuantity = difference > 0 ? item.quantity + units : item.quantity - units;
+        if (units >= 1 && units <= 3 && newQuantity >= 1 && isClose(units * item.price, gap)) {
+          suggestions.push({
+            cause: 'quantity_misread',
+            message: `"${item.name}" may be ×${newQuantity} rather than ×${item.quantity}`,
+            itemIndex,
+            amount: difference
+          });
+        }
+      }
+
+      // One misread digit, e.g. 18.50 read as 13.50
+      const correctedTotal = lineTotal + difference;
+      if (correctedTotal > 0 && this.differsByOneDigit(lineTotal, correctedTotal)) {
+        suggestions.push({
+          cause: 'price_misread',
+          message: `"${item.name}" may be ${formatAmount(correctedTotal, currency)} rather than ${formatAmount(lineTotal, currency)}`,
+          itemIndex,
+          amount: difference
+        });
+      }
+
+      if (difference < 0 && isClose(lineTotal, gap)) {
+        const duplicateOf = items.findIndex((other, otherIndex) =>
+          otherIndex !== itemIndex &&
+          other.name.toLowerCase() === item.name.toLowerCase() &&
+          isClose(other.price * other.quantity, lineTotal)
+        );
+
+        if (duplicateOf === -1) {
+          suggestions.push({ cause: 'not_an_item', message: `"${item.name}" (${formatAmount(lineTotal, currency)}) may not be an item`, itemIndex, amount: difference });
+        } else if (duplicateOf < itemIndex) {
+          // Point at the second copy only
+          suggestions.push({ cause: 'duplicate_item', message: `"${item.name}" may have been read twice`, itemIndex, amount: difference });
+        }
+      }
+    });
+
+    suggestions.push(difference > 0
+      ? { cause: 'missed_item', message: `An item costing ${formatAmount(gap, currency)} may not have been picked up`, amount: difference }
+      : { cause: 'discount', message: `A discount or coupon of ${formatAmount(gap, currency)} may not have been picked up`, amount: difference });
+
+    return suggestions;
+  }
+
+  /**
+   * Likely reasons subtotal + tax + tip doesn't match the total. difference = total - expected total.
+   */
+  private static suggestTotalCauses(tax: number, tip: number, difference: number, currency: string): ReconciliationSuggestion[] {
+    const gap = Math.abs(difference);
+
+    if (difference > 0) {
+      return [{
+        cause: 'fee_or_service_charge',
+        message: `A tip, service charge or fee of ${formatAmount(gap, currency)} may be included in the total`,
+        amount: difference
+      }];
+    }
+
+    const suggestions: ReconciliationSuggestion[] = [];
+    if (tip > 0 && isClose(gap, tip)) {
+      suggestions.push({ cause: 'tip_not_in_total', message: 'The printed total may be from before the tip was added', amount: difference });
+    }
+    if (tax > 0 && isClose(gap, tax)) {
+      suggestions.push({ cause: 'tax_included', message: 'Item prices may already include tax', amount: difference });
+    }
+    suggestions.push({ cause: 'discount', message: `A discount of ${formatAmount(gap, currency)} may have been taken off after the subtotal`, amount: difference });
+
+    return suggestions;
+  }
+
+  private static issue(
+    check: ReconciliationIssue['check'],
+    expected: number,
+    actual: number,
+    message: string,
+    suggestions: ReconciliationSuggestion[]
+  ): ReconciliationIssue {
+    return { check, expected, actual, difference: expected - actual, message, suggestions };
+  }
+
+  private static differsByOneDigit(a: number, b: number): boolean {
+    const left = String(a);
+    const right = String(b);
+    if (left.length !== right.length) {
+      return false;
+    }
+    return [...left].filter((char, index) => char !== right[index]).length === 1;
+  }
+
+  private static sameIssues(previous: Reconciliation, current: Reconciliation): boolean {
+    const signature = (reconciliation: Reconciliation) =>
+      reconciliation.issues.map(issue => `${issue.check}:${issue.expected}:${issue.actual}`).join('|');
+    return signature(previous) === signature(current);
+  }
+}
+
+export default ReconciliationService;
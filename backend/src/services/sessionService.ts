@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose, { FilterQuery } from 'mongoose';
+import { Request } from 'express';
+import Session, { ISession } from '../models/Session';
+import User from '../models/User';
+import { AUTH_CONFIG } from '../config/auth';
+import { generateSecureToken, hashToken, tokenMatchesHash } from '../utils/tokens';
+
+// Claims we put in every access token
+export interface AccessTokenPayload {
+  userId: string;
+  email: string;
+  sessionId: string;
+}
+
+export interface IssuedTokens {
+  token: string; // Short-lived access token
+  refreshToken: string; // Opaque "<sessionId>.<secret>" token, rotated on every refresh
+  expiresIn: string;
+  sessionId: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export class RefreshTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+export class SessionService {
+
+  /**
+   * Create a new session for a user and issue its first token pair
+   */
+  static async createSession(userId: string, email: string, req: Request): Promise<IssuedTokens> {
+    const secret = generateSecureToken(48);
+    const userAgent = req.headers['user-agent'];
+
+    const session = new Session({
+      userId: new mongoose.Types.ObjectId(userId),
+      refreshTokenHash: hashToken(secret),
+      userAgent,
+      deviceName: this.describeUserAgent(userAgent),
+      ipAddress: req.ip,
+      lastUsedAt: new Date(),
+      expiresAt: this.refreshExpiryDate()
+    });
+
+    await session.save();
+
+    return this.issueTokens(session, email, secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair, rotating the refresh token.
+   * Each new secret is derived from the one it replaces, so a refresh that loses a race with
+   * another one for the same token (e.g. two tabs) gets the same new token within a short
+   * grace window. Presenting an already-rotated token any other time revokes the whole session.
+   */
+  static async rotateRefreshToken(refreshToken: string, req: Request): Promise<IssuedTokens & { userId: string }> {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+
+    const session = await Session.findById(sessionId);
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new RefreshTokenError('Session has expired or been revoked');
+    }
+
+    const user = await User.findById(session.userId).select('email');
+    if (!user) {
+      await this.revokeSession(sessionId, session.userId.toString(), 'revoked');
+      throw new RefreshTokenError('User no longer exists');
+    }
+
+    // Only rotate if the token is still the current one, so two refreshes can't both rotate it
+    const now = new Date();
+    const newSecret = this.nextRefreshSecret(secret);
+    let rotated = await Session.findOneAndUpdate(
+      { _id: session._id, refreshTokenHash: hashToken(secret), revokedAt: { $exists: false } },
+      {
+        $set: {
+          refreshTokenHash: hashToken(newSecret),
+          rotatedAt: now,
+          lastUsedAt: now,
+          expiresAt: this.refreshExpiryDate(),
+          ipAddress: req.ip
+        }
+      },
+      { new: true }
+    );
+
+    if (!rotated) {
+      const current = await Session.findOne({ _id: session._id, revokedAt: { $exists: false } });
+      const graceStart = new Date(now.getTime() - AUTH_CONFIG.refreshTokenReuseGraceSeconds * 1000);
+      const justRotated = !!current?.rotatedAt && current.rotatedAt >= graceStart
+        && tokenMatchesHash(newSecret, current.refreshTokenHash);
+
+      if (!justRotated) {
+        // An old refresh token was replayed - assume it was stolen and kill the session
+        await this.revokeSession(sessionId, session.userId.toString(), 'token_reuse');
+        console.warn(`⚠️ Refresh token reuse detected for session ${sessionId}, session revoked`);
+        throw new RefreshTokenError('Refresh token has already been used');
+      }
+      rotated = current!;
+    }
+
+    const tokens = this.issueTokens(rotated, user.email, newSecret);
+    return { ...tokens, userId: rotated.userId.toString() };
+  }
+
+  /**
+   * Check that a session is still usable by the given user, and record that it was used
+   * (at most once every sessionLastUsedThrottleSeconds, so most requests only read it)
+   */
+  static async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    const now = new Date();
+    const session = await Session.findOne({
+      _id: new mongoose.Types.ObjectId(sessionId),
+      userId: new mongoose.Types.ObjectId(userId),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now }
+    }).select('lastUsedAt');
+
+    if (!session) {
+      return false;
+    }
+
+    const staleBefore = new Date(now.getTime() - AUTH_CONFIG.sessionLastUsedThrottleSeconds * 1000);
+    if (session.lastUsedAt < staleBefore) {
+      await Session.updateOne({ _id: session._id, lastUsedAt: { $lt: staleBefore } }, { $set: { lastUsedAt: now } });
+    }
+
+    return true;
+  }
+
+  /**
+   * Revoke a single session belonging to a user
+   */
+  static async revokeSession(
+    sessionId: string,
+    userId: string,
+    reason: NonNullable<ISession['revokedReason']> = 'revoked'
+  ): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    const result = await Session.updateOne(
+      {
+        _id: new mongoose.Types.ObjectId(sessionId),
+        userId: new mongoose.Types.ObjectId(userId),
+        revokedAt: { $exists: false }
+      },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Revoke every active session for a user, optionally keeping one (e.g. the current device)
+   */
+  static async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const filter: FilterQuery<ISession> = {
+      userId: new mongoose.Types.ObjectId(userId),
+      revokedAt: { $exists: false }
+    };
+
+    if (exceptSessionId && mongoose.Types.ObjectId.isValid(exceptSessionId)) {
+      filter._id = { $ne: new mongoose.Types.ObjectId(exceptSessionId) };
+    }
+
+    const result = await Session.updateMany(filter, {
+      revokedAt: new Date(),
+      revokedReason: 'logout_all'
+    });
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  static async listActiveSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await Session.find({
+      userId: new mongoose.Types.ObjectId(userId),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() }
+    }).sort({ lastUsedAt: -1 });
+
+    return sessions.map(session => ({
+      id: (session._id as any).toString(),
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: (session._id as any).toString() === currentSessionId
+    }));
+  }
+
+  /**
+   * Sign a short-lived access token bound to a session
+   */
+  static generateAccessToken(userId: string, email: string, sessionId: string): string {
+    return jwt.sign(
+      { userId, email, sessionId },
+      AUTH_CONFIG.jwtSecret,
+      {
+        algorithm: AUTH_CONFIG.jwtAlgorithm,
+        expiresIn: AUTH_CONFIG.accessTokenExpiresIn
+      } as jwt.SignOptions
+    );
+  }
+
+  /**
+   * Build a short "Browser on OS" label from a user agent string
+   */
+  static describeUserAgent(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+      [/curl\//, 'curl']
+    ];
+    const systems: Array<[RegExp, string]> = [
+      [/iPhone|iPad|iPod/, 'iOS'],
+      [/Android/, 'Android'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux']
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Unknown browser';
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    return system ? `${browser} on ${system}` : browser;
+  }
+
+  private static issueTokens(session: ISession, email: string, secret: string): IssuedTokens {
+    const sessionId = (session._id as any).toString();
+
+    return {
+      token: this.generateAccessToken(session.userId.toString(), email, sessionId),
+      refreshToken: `${sessionId}.${secret}`,
+      expiresIn: AUTH_CONFIG.accessTokenExpiresIn,
+      sessionId
+    };
+  }
+
+  private static parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+
+    if (!sessionId || !secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+      throw new RefreshTokenError('Malformed refresh token');
+    }
+
+    return { sessionId, secret };
+  }
+
+  /**
+   * The refresh secret that replaces this one - only the server can work it out, and working it
+   * out again gives the same secret
+   */
+  private static nextRefreshSecret(secret: string): string {
+    return crypto.createHmac('sha256', AUTH_CONFIG.jwtSecret).update(secret).digest('base64url');
+  }
+
+  private static refreshExpiryDate(): Date {
+    return new Date(Date.now() + AUTH_CONFIG.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+}
+
+export default SessionService;
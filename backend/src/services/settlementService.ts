@@ -0,0 +1,125 @@
+// What the settlement needs from each person's split - amounts in minor units
+interface Balance {
+  personId: string;
+  name: string;
+  balance: number; // Paid less their share: owed back when positive, owing when negative
+}
+
+// One payment that settles part of the bill: from owes to the amount
+export interface Transfer {
+  fromPersonId: string;
+  fromName: string;
+  toPersonId: string;
+  toName: string;
+  amount: number;
+}
+
+export interface Settlement {
+  transfers: Transfer[];
+  unsettled: number; // What's still to be paid towards the bill (negative when more was paid than it comes to)
+}
+
+// Beyond this many people with a balance the groups aren't searched for and the transfers may not be the fewest
+const MAX_EXACT_SETTLEMENT = 16;
+
+export class SettlementService {
+
+  /**
+   * The fewest transfers that leave everyone square. People whose balances cancel each other out
+   * are settled among themselves - the more such groups, the fewer transfers (a group of n people
+   * needs n - 1) - and within each group the largest debt is paid to the largest credit until
+   * everyone is even. Without payers there is nothing to settle.
+   */
+  static settle(splits: Balance[]): Settlement {
+    const balances = splits.filter(split => split.balance !== 0);
+    const unsettled = 0 - splits.reduce((sum, split) => sum + split.balance, 0);
+
+    if (!splits.some(split => split.balance > 0)) {
+      return { transfers: [], unsettled };
+    }
+
+    const transfers = this.zeroSumGroups(balances).flatMap(group => this.settleGroup(group));
+    return { transfers, unsettled };
+  }
+
+  /**
+   * Split the balances into as many groups adding up to zero as possible, with whatever can't
+   * be settled (when more or less was paid than the bill) kept together in a group of its own.
+   * Beyond MAX_EXACT_SETTLEMENT people, everyone is settled as one group.
+   */
+  private static zeroSumGroups(balances: Balance[]): Balance[][] {
+    const count = balances.length;
+    if (count > MAX_EXACT_SETTLEMENT) {
+      return [balances];
+    }
+
+    // groups[mask] = the most zero-sum groups the people in mask can be split into, built up one person at a time
+    const size = 1 << count;
+    const sums = new Array<number>(size).fill(0);
+    const groups = new Array<number>(size).fill(0);
+    const lastAdded = new Array<number>(size).fill(-1);
+
+    for (let mask = 1; mask < size; mask++) {
+      const lowest = Math.log2(mask & -mask);
+      sums[mask] = sums[mask & (mask - 1)] + balances[lowest].balance;
+
+      for (let index = 0; index < count; index++) {
+        if (mask & (1 << index)) {
+          const previous = mask & ~(1 << index);
+          if (lastAdded[mask] === -1 || groups[previous] > groups[mask]) {
+            groups[mask] = groups[previous];
+            lastAdded[mask] = index;
+          }
+        }
+      }
+      if (sums[mask] === 0) {
+        groups[mask] += 1;
+      }
+    }
+
+    // Walk back through the people in the order they were added: each time the sum is zero, a group closes
+    const result: Balance[][] = [];
+    let current: Balance[] = [];
+    for (let mask = size - 1; mask > 0; mask &= ~(1 << lastAdded[mask])) {
+      if (sums[mask] === 0 && current.length > 0) {
+        result.push(current);
+        current = [];
+      }
+      current.push(balances[lastAdded[mask]]);
+    }
+    if (current.length > 0) {
+      result.push(current);
+    }
+
+    return result;
+  }
+
+  /**
+   * Pay the largest debt to the largest credit until one side runs out
+   */
+  private static settleGroup(group: Balance[]): Transfer[] {
+    const owing = group.filter(person => person.balance < 0).map(person => ({ ...person, remaining: -person.balance }));
+    const owed = group.filter(person => person.balance > 0).map(person => ({ ...person, remaining: person.balance }));
+    const transfers: Transfer[] = [];
+
+    const largest = <T extends { remaining: number }>(people: T[]): T | undefined =>
+      people.filter(person => person.remaining > 0).sort((a, b) => b.remaining - a.remaining)[0];
+
+    for (let from = largest(owing), to = largest(owed); from && to; from = largest(owing), to = largest(owed)) {
+      const amount = Math.min(from.remaining, to.remaining);
+      transfers.push({
+        fromPersonId: from.personId,
+        fromName: from.name,
+        toPersonId: to.personId,
+        toName: to.name,
+        amount
+      });
+      from.remaining -= amount;
+      to.remaining -= amount;
+    }
+
+    return transfers;
+  }
+}
+
+export default SettlementService;
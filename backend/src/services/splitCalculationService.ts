@@ -1,9 +1,33 @@
 import { IReceipt } from '../models/Receipt';
+import { RECONCILIATION_TOLERANCE, ReconciliationService } from './reconciliationService';
+import { formatMoney } from '../utils/currency';
+import { allocate } from '../utils/money';
+import { TipService } from './tipService';
+import { SettlementService } from './settlementService';
+
+type Charge = IReceipt['charges'][number];
+type ReceiptItem = IReceipt['items'][number];
+type TaxCategory = IReceipt['taxLines'][number]['category'];
+type SplitMode = IReceipt['splitMode'];
+
+// Who shares an item and by how much, in the receipt's split mode
+interface ItemPortions {
+  personIds: string[];
+  weights: number[];
+  units?: number[]; // For items split by unit
+  listed: boolean; // Whether the item shows in each person's breakdown
+}
 
+// Amounts are in minor units of the receipt's currency
 interface SplitItem {
   itemName: string;
   fullPrice: number;
+  discount: number;
   shareAmount: number;
+  leftoverUnits: number; // Odd units of the shared price this person picked up (included in shareAmount)
+  shares: number; // This person's weight on the item, out of totalShares
+  totalShares: number;
+  units?: number; // Units of the item this person had, for items split by unit (totalShares is then the quantity)
   sharedWith: string[];
 }
 
@@ -11,19 +35,60 @@ interface PersonSplit {
   personId: string;
   name: string;
   subtotal: number;
+  discountShare: number;
   taxShare: number;
   tipShare: number;
+  tipPercentage?: number; // Their own tip rate, when they tip differently from the receipt
+  chargesShare: number;
+  roundingShare: number; // Share of the difference between the printed total and the sum of its parts
+  leftoverUnits: number; // Odd units picked up across items, discounts, tax, tip and charges (already in the shares)
   total: number;
+  paid: number; // What they put towards the bill
+  balance: number; // paid - total: owed back when positive, owing when negative
   items: SplitItem[];
+  charges: Array<{ name: string; type: Charge['type']; shareAmount: number }>;
+}
+
+// One person's part of an allocated amount
+interface Share {
+  amount: number;
+  leftoverUnits: number;
 }
 
+// Fees nobody chose individually are shared by order size, except flat per-order fees
+const DEFAULT_CHARGE_DISTRIBUTION: Record<Charge['type'], Charge['distribution']> = {
+  service_charge: 'proportional',
+  auto_gratuity: 'proportional',
+  delivery_fee: 'equal',
+  bag_fee: 'equal',
+  other_fee: 'proportional'
+};
+
+// How the summary describes each split mode
+const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  itemized: '',
+  equal: ' equally',
+  percentage: ' by percentage',
+  fixed: ' by set amounts',
+  hybrid: ', with unassigned items shared equally'
+};
+
 export class SplitCalculationService {
 
   /**
-   * Calculate split for each person based on assigned items
+   * Calculate split for each person in the receipt's split mode. The mode decides how the items
+   * are divided (by assignment, evenly, by percentage or towards fixed amounts); discounts, tax,
+   * tip and charges then follow each person's items as set by the distributions. Every amount
+   * is shared out in whole minor units: each person gets their rounded-down share and the
+   * leftover units go to the largest remainders (ties in turn, starting from a different person
+   * for each item), so the shares always add up to exactly what is being split. People with
+   * a tip override tip their own rate on their own subtotal (plus tax, for a post-tax tip)
+   * instead of their share of the receipt's tip, so the split adds up to the total plus or
+   * minus the difference.
    */
   static calculateSplit(receipt: IReceipt): PersonSplit[] {
-    const { people, items, tax, tip, taxDistribution, tipDistribution } = receipt;
+    const { people, items, adjustments, charges, tax, tip, taxDistribution, tipDistribution } = receipt;
+    const mode: SplitMode = receipt.splitMode || 'itemized';
 
     if (!people || people.length === 0) {
       throw new Error('No people found in receipt');
@@ -36,83 +101,426 @@ export class SplitCalculationService {
         personId: person.id,
         name: person.name,
         subtotal: 0,
+        discountShare: 0,
         taxShare: 0,
         tipShare: 0,
+        chargesShare: 0,
+        roundingShare: 0,
+        leftoverUnits: 0,
         total: 0,
-        items: []
+        paid: 0,
+        balance: 0,
+        items: [],
+        charges: []
       });
     });
 
-    // Calculate each person's subtotal based on assigned items
-    items.forEach(item => {
-      const { assignedTo, name, price, quantity } = item;
+    // Calculate each person's subtotal from their portion of each item, keeping track of how much
+    // of it falls in each tax category
+    const targets = this.targetWeights(receipt);
+    const taxableAmounts = new Map<string, Map<TaxCategory, number>>();
+    items.forEach((item, itemIndex) => {
+      const { name, price, quantity } = item;
+      const portions = this.itemPortions(receipt, item, targets);
 
-      if (!assignedTo || assignedTo.length === 0) {
+      if (!portions) {
         // Item not assigned to anyone, skip
         return;
       }
 
+      // Item discounts come off before the item is shared out. Items split by unit are shared by
+      // unit count, with the units nobody has yet held back as unassigned.
+      const { personIds, weights, units } = portions;
       const totalItemPrice = price * quantity;
-      const pricePerPerson = totalItemPrice / assignedTo.length;
+      const discount = Math.min(totalItemPrice, (item.adjustments || []).reduce((sum, adjustment) => sum + adjustment.amount, 0));
+      const assignedShares = weights.reduce((sum, weight) => sum + weight, 0);
+      const totalShares = units ? Math.max(quantity, assignedShares) : assignedShares;
+      const shares = allocate(totalItemPrice - discount, [...weights, totalShares - assignedShares], itemIndex % personIds.length);
 
-      assignedTo.forEach(personId => {
+      personIds.forEach((personId, index) => {
         const personSplit = splits.get(personId);
         if (personSplit) {
-          personSplit.subtotal += pricePerPerson;
-          personSplit.items.push({
-            itemName: name,
-            fullPrice: totalItemPrice,
-            shareAmount: pricePerPerson,
-            sharedWith: assignedTo.filter(id => id !== personId)
-          });
+          const shareAmount = shares.parts[index];
+          const category = item.taxCategory || 'standard';
+          const personTaxable = taxableAmounts.get(personId) || new Map<TaxCategory, number>();
+          personTaxable.set(category, (personTaxable.get(category) || 0) + shareAmount);
+          taxableAmounts.set(personId, personTaxable);
+
+          personSplit.subtotal += shareAmount;
+          personSplit.leftoverUnits += shares.extra[index];
+          if (portions.listed) {
+            personSplit.items.push({
+              itemName: name,
+              fullPrice: totalItemPrice,
+              discount,
+              shareAmount,
+              leftoverUnits: shares.extra[index],
+              shares: weights[index],
+              totalShares,
+              ...(units && { units: units[index] }),
+              sharedWith: personIds.filter(id => id !== personId)
+            });
+          }
         }
       });
     });
 
-    // Calculate tax and tip distribution
-    const totalSubtotalAssigned = Array.from(splits.values())
-      .reduce((sum, split) => sum + split.subtotal, 0);
+    // Calculate discount, tax and tip distribution
+    const splitList = Array.from(splits.values());
+    const bySubtotal = splitList.map(split => split.subtotal);
+    const equally = splitList.map(() => 1);
+    const totalSubtotalAssigned = bySubtotal.reduce((sum, subtotal) => sum + subtotal, 0);
+    const receiptDiscount = Math.min(
+      totalSubtotalAssigned,
+      (adjustments || []).reduce((sum, adjustment) => sum + adjustment.amount, 0)
+    );
 
-    splits.forEach(split => {
-      if (taxDistribution === 'equal') {
-        split.taxShare = tax / people.length;
-      } else {
-        // Proportional to their subtotal
-        split.taxShare = totalSubtotalAssigned > 0
-          ? (split.subtotal / totalSubtotalAssigned) * tax
-          : 0;
+    // Fixed amounts are totals, so every part of the bill is shared towards them whatever the distributions say
+    const byTarget = mode === 'fixed' ? splitList.map(split => targets.get(split.personId) || 0) : undefined;
+
+    // Receipt-wide discounts follow what each person ordered, so proportional tax and tip split the same way either side of them
+    const discountShares = allocate(receiptDiscount, byTarget || bySubtotal);
+    // Equal tax, or the tax actually charged on their items
+    const taxShares = byTarget ? this.toShares(splitList, allocate(tax, byTarget))
+      : taxDistribution === 'equal' ? this.toShares(splitList, allocate(tax, equally))
+      : this.distributeTax(receipt, splitList, taxableAmounts);
+    // Equal tip, or proportional to their subtotal
+    const tipShares = allocate(tip, byTarget || (tipDistribution === 'equal' ? equally : bySubtotal));
+
+    // Fixed amounts already include everyone's tip
+    const tipOverrides = new Map(byTarget ? [] : (receipt.tipOverrides || []).map(override => [override.personId, override.percentage]));
+    let overrideDifference = 0;
+
+    splitList.forEach((split, index) => {
+      const taxShare = taxShares.get(split.personId) || { amount: 0, leftoverUnits: 0 };
+      split.discountShare = discountShares.parts[index];
+      split.taxShare = taxShare.amount;
+      split.tipShare = tipShares.parts[index];
+      split.leftoverUnits += discountShares.extra[index] + taxShare.leftoverUnits + tipShares.extra[index];
+
+      const tipPercentage = tipOverrides.get(split.personId);
+      if (tipPercentage !== undefined) {
+        const tipBasis = TipService.basis(split.subtotal - split.discountShare, split.taxShare, receipt.tipBasis);
+        split.tipPercentage = tipPercentage;
+        split.tipShare = TipService.percentageOf(tipBasis, tipPercentage);
+        split.leftoverUnits -= tipShares.extra[index];
+        overrideDifference += split.tipShare - tipShares.parts[index];
+      }
+    });
+
+    // Each charge follows its own distribution
+    (charges || []).forEach(charge => {
+      const shares = byTarget
+        ? this.toShares(splitList, allocate(charge.amount, byTarget))
+        : this.distributeCharge(charge, splitList, bySubtotal);
+      shares.forEach((share, personId) => {
+        const split = splits.get(personId)!;
+        split.chargesShare += share.amount;
+        split.leftoverUnits += share.leftoverUnits;
+        split.charges.push({ name: charge.name, type: charge.type, shareAmount: share.amount });
+      });
+    });
+
+    splitList.forEach(split => {
+      split.total = split.subtotal - split.discountShare + split.taxShare + split.tipShare + split.chargesShare;
+    });
+
+    // Each person's parts can land a unit or two from their fixed amount - make up the difference
+    if (byTarget) {
+      splitList.forEach((split, index) => {
+        split.roundingShare = byTarget[index] - split.total;
+        split.total = byTarget[index];
+      });
+    } else {
+      // Unit prices worked out from line totals can leave the parts a unit or two away from the printed
+      // total. Once everything is assigned, share that difference out so the split matches the receipt.
+      const splitTotal = splitList.reduce((sum, split) => sum + split.total, 0);
+      const difference = receipt.total + overrideDifference - splitTotal;
+      if (difference !== 0 && Math.abs(difference) <= RECONCILIATION_TOLERANCE && this.isFullyAssigned(receipt)) {
+        const rounding = allocate(difference, totalSubtotalAssigned > 0 ? bySubtotal : equally);
+        splitList.forEach((split, index) => {
+          split.roundingShare = rounding.parts[index];
+          split.total += rounding.parts[index];
+        });
+      }
+    }
+
+    // What each person paid against what their share comes to
+    (receipt.payers || []).forEach(payer => {
+      const split = splits.get(payer.personId);
+      if (split) {
+        split.paid += payer.amount;
+      }
+    });
+    splitList.forEach(split => {
+      split.balance = split.paid - split.total;
+    });
+
+    return splitList;
+  }
+
+  /**
+   * Who pays for an item and in what proportion: the people it's assigned to when itemizing
+   * (everyone, for items nobody has in the hybrid mode), or everyone by the mode's weights.
+   * Undefined when nobody does yet.
+   */
+  private static itemPortions(receipt: IReceipt, item: ReceiptItem, targets: Map<string, number>): ItemPortions | undefined {
+    const mode: SplitMode = receipt.splitMode || 'itemized';
+    const everyone = receipt.people.map(person => person.id);
+    const assigned = item.assignedTo && item.assignedTo.length > 0;
+
+    if (mode === 'itemized' || (mode === 'hybrid' && assigned)) {
+      if (!assigned) {
+        return undefined;
+      }
+      const units = this.unitCounts(item);
+      return { personIds: item.assignedTo, weights: units || this.shareWeights(item), units, listed: true };
+    }
+
+    if (mode === 'equal' || mode === 'hybrid') {
+      return { personIds: everyone, weights: everyone.map(() => 1), listed: mode === 'hybrid' };
+    }
+
+    const personIds = everyone.filter(personId => (targets.get(personId) || 0) > 0);
+    return personIds.length > 0
+      ? { personIds, weights: personIds.map(personId => targets.get(personId)!), listed: false }
+      : undefined;
+  }
+
+  /**
+   * Each person's weight in the percentage mode (their percentage) and fixed mode (the total they
+   * pay - their amount, or an even part of what's left for people without one)
+   */
+  private static targetWeights(receipt: IReceipt): Map<string, number> {
+    const weights = new Map<string, number>();
+    const targets = new Map((receipt.splitTargets || []).map(target => [target.personId, target]));
+
+    if (receipt.splitMode === 'percentage') {
+      receipt.people.forEach(person => weights.set(person.id, targets.get(person.id)?.percentage || 0));
+    } else if (receipt.splitMode === 'fixed') {
+      const withoutAmount = receipt.people.filter(person => targets.get(person.id)?.amount === undefined);
+      const fixedTotal = receipt.people.reduce((sum, person) => sum + (targets.get(person.id)?.amount || 0), 0);
+      const rest = allocate(Math.max(0, receipt.total - fixedTotal), withoutAmount.map(() => 1)).parts;
+
+      receipt.people.forEach(person => weights.set(person.id, targets.get(person.id)?.amount ?? 0));
+      withoutAmount.forEach((person, index) => weights.set(person.id, rest[index]));
+    }
+
+    return weights;
+  }
+
+  /**
+   * What's wrong with the percentages or fixed amounts, if anything: percentages must add up to
+   * 100, and fixed amounts to the total (or less, when someone is left to pay the rest)
+   */
+  static splitTargetsError(receipt: IReceipt): string | undefined {
+    const targets = new Map((receipt.splitTargets || []).map(target => [target.personId, target]));
+    const people = receipt.people || [];
+
+    if (receipt.splitMode === 'percentage') {
+      const total = people.reduce((sum, person) => sum + (targets.get(person.id)?.percentage || 0), 0);
+      return Math.abs(total - 100) > 1e-9 ? `Percentages add up to ${total}%, not 100%` : undefined;
+    }
+
+    if (receipt.splitMode === 'fixed') {
+      const fixed = people.filter(person => targets.get(person.id)?.amount !== undefined);
+      const fixedTotal = fixed.reduce((sum, person) => sum + targets.get(person.id)!.amount!, 0);
+      const total = formatMoney(receipt.total, receipt.currency);
+      if (fixedTotal > receipt.total) {
+        return `Fixed amounts add up to ${formatMoney(fixedTotal, receipt.currency)}, more than the ${total} total`;
       }
+      if (fixed.length === people.length && fixedTotal !== receipt.total) {
+        return `Fixed amounts add up to ${formatMoney(fixedTotal, receipt.currency)}, not the ${total} total`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Units of an item the split leaves unpaid: none in the equal, percentage and fixed modes, and
+   * in the hybrid mode only those left on items split by unit
+   */
+  private static unpaidUnits(receipt: IReceipt, item: ReceiptItem): number {
+    const mode: SplitMode = receipt.splitMode || 'itemized';
+    if (mode === 'itemized') {
+      return this.unassignedUnits(item);
+    }
+    return mode === 'hybrid' && item.assignedTo && item.assignedTo.length > 0 ? this.unassignedUnits(item) : 0;
+  }
+
+  /**
+   * Each assigned person's unit count, in assignedTo order, for items split by unit
+   */
+  static unitCounts(item: ReceiptItem): number[] | undefined {
+    if (!item.units || item.units.length === 0) {
+      return undefined;
+    }
+    const counts = new Map(item.units.map(unit => [unit.personId, unit.count]));
+    return (item.assignedTo || []).map(personId => counts.get(personId) || 0);
+  }
+
+  /**
+   * How many units of an item nobody has yet - all of them for an unassigned item, none for one shared as a whole
+   */
+  static unassignedUnits(item: ReceiptItem): number {
+    const units = this.unitCounts(item);
+    if (units) {
+      return Math.max(0, item.quantity - units.reduce((sum, count) => sum + count, 0));
+    }
+    return item.assignedTo && item.assignedTo.length > 0 ? 0 : item.quantity;
+  }
+
+  /**
+   * Each assigned person's weight on an item, in assignedTo order (1 unless set otherwise)
+   */
+  static shareWeights(item: ReceiptItem): number[] {
+    const weights = new Map((item.shares || []).map(share => [share.personId, share.weight]));
+    return (item.assignedTo || []).map(personId => weights.get(personId) ?? 1);
+  }
+
+  /**
+   * How a newly extracted charge is split until the user picks otherwise
+   */
+  static defaultChargeDistribution(type: Charge['type']): Charge['distribution'] {
+    return DEFAULT_CHARGE_DISTRIBUTION[type];
+  }
+
+  /**
+   * Each person's tax, charged on their items by the tax line for each item's category.
+   * Receipts without tax lines (or whose lines no longer add up to the tax after an edit)
+   * are treated as one standard-rate line. Items in a category without its own line pay
+   * the standard rate, and exempt items pay nothing.
+   */
+  private static distributeTax(
+    receipt: IReceipt,
+    splitList: PersonSplit[],
+    taxableAmounts: Map<string, Map<TaxCategory, number>>
+  ): Map<string, Share> {
+    const taxLines = receipt.taxLines || [];
+    const linesTotal = taxLines.reduce((sum, line) => sum + line.amount, 0);
+    const lines = taxLines.length > 0 && linesTotal === receipt.tax
+      ? taxLines
+      : [{ category: 'standard' as TaxCategory, amount: receipt.tax }];
+    const lineCategories = new Set(lines.map(line => line.category));
+    const taxedUnder = (category: TaxCategory) => lineCategories.has(category) ? category : 'standard';
+
+    const weigh = (include: (category: TaxCategory) => boolean) => splitList.map(split => {
+      let weight = 0;
+      (taxableAmounts.get(split.personId) || new Map<TaxCategory, number>()).forEach((amount, category) => {
+        if (include(category)) weight += amount;
+      });
+      return weight;
+    });
+    const totalOf = (weights: number[]) => weights.reduce((sum, weight) => sum + weight, 0);
+
+    const shares = new Map<string, Share>();
+    lines.forEach(line => {
+      let weights = weigh(category => category !== 'exempt' && taxedUnder(category) === line.category);
 
-      if (tipDistribution === 'equal') {
-        split.tipShare = tip / people.length;
-      } else {
-        // Proportional to their subtotal
-        split.tipShare = totalSubtotalAssigned > 0
-          ? (split.subtotal / totalSubtotalAssigned) * tip
-          : 0;
+      // Nothing assigned in this line's category (e.g. drinks not marked as alcohol) - spread it over the taxable items
+      if (totalOf(weights) <= 0) {
+        weights = weigh(category => category !== 'exempt');
       }
+      if (totalOf(weights) <= 0) {
+        weights = weigh(() => true);
+      }
+
+      this.toShares(splitList, allocate(line.amount, weights)).forEach((share, personId) => {
+        const previous = shares.get(personId) || { amount: 0, leftoverUnits: 0 };
+        shares.set(personId, {
+          amount: previous.amount + share.amount,
+          leftoverUnits: previous.leftoverUnits + share.leftoverUnits
+        });
+      });
+    });
+
+    return shares;
+  }
+
+  /**
+   * Each person's share of one charge. Charges assigned to nobody (or to people no longer
+   * on the receipt) are left out, like unassigned items.
+   */
+  private static distributeCharge(
+    charge: Charge,
+    splitList: PersonSplit[],
+    bySubtotal: number[]
+  ): Map<string, Share> {
+    if (charge.distribution === 'assigned') {
+      const assignedTo = new Set(charge.assignedTo || []);
+      return this.toShares(splitList, allocate(charge.amount, splitList.map(split => assignedTo.has(split.personId) ? 1 : 0)));
+    }
+
+    if (charge.distribution === 'equal') {
+      return this.toShares(splitList, allocate(charge.amount, splitList.map(() => 1)));
+    }
+
+    // Proportional to their subtotal
+    return this.toShares(splitList, allocate(charge.amount, bySubtotal));
+  }
 
-      split.total = split.subtotal + split.taxShare + split.tipShare;
+  /**
+   * Pair allocated parts with the people they were allocated to, leaving out people who got nothing
+   */
+  private static toShares(splitList: PersonSplit[], allocation: ReturnType<typeof allocate>): Map<string, Share> {
+    const shares = new Map<string, Share>();
+    splitList.forEach((split, index) => {
+      if (allocation.parts[index] !== 0) {
+        shares.set(split.personId, { amount: allocation.parts[index], leftoverUnits: allocation.extra[index] });
+      }
     });
+    return shares;
+  }
 
-    return Array.from(splits.values());
+  /**
+   * Whether every item is paid for by someone still on the receipt, so the split covers the whole bill
+   */
+  private static isFullyAssigned(receipt: IReceipt): boolean {
+    const mode: SplitMode = receipt.splitMode || 'itemized';
+    const personIds = new Set(receipt.people.map(person => person.id));
+    return receipt.items.length > 0 && !this.splitTargetsError(receipt) && receipt.items.every(item =>
+      this.unpaidUnits(receipt, item) === 0 &&
+      (mode !== 'itemized' || (item.assignedTo || []).some(personId => personIds.has(personId)))
+    );
   }
 
   /**
-   * Check if all items are assigned to people
+   * Check if all items (and charges meant for specific people) are assigned and the receipt's amounts can be trusted
    */
   static isReceiptComplete(receipt: IReceipt): boolean {
     if (!receipt.items || receipt.items.length === 0) {
       return false;
     }
 
-    return receipt.items.every(item =>
-      item.assignedTo && item.assignedTo.length > 0
+    if (!ReconciliationService.isResolved(receipt)) {
+      return false;
+    }
+
+    const unassignedCharge = (receipt.charges || []).some(charge =>
+      charge.distribution === 'assigned' && (!charge.assignedTo || charge.assignedTo.length === 0)
     );
+    if (unassignedCharge) {
+      return false;
+    }
+
+    if (this.splitTargetsError(receipt)) {
+      return false;
+    }
+
+    return receipt.items.every(item => this.unpaidUnits(receipt, item) === 0);
   }
 
   /**
-   * Get unassigned items
+   * The receipt owner's own part of a split: the person linked to their account
+   */
+  static ownerSplit<T extends { personId: string }>(receipt: IReceipt, splits: T[]): T | undefined {
+    const owner = (receipt.people || []).find(person => person.userId?.equals(receipt.userId));
+    return owner ? splits.find(split => split.personId === owner.id) : undefined;
+  }
+
+  /**
+   * Get unassigned items, with the units still left on items split by unit
    */
   static getUnassignedItems(receipt: IReceipt): Array<{name: string; price: number; quantity: number}> {
     if (!receipt.items) {
@@ -120,11 +528,11 @@ export class SplitCalculationService {
     }
 
     return receipt.items
-      .filter(item => !item.assignedTo || item.assignedTo.length === 0)
+      .filter(item => this.unpaidUnits(receipt, item) > 0)
       .map(item => ({
         name: item.name,
         price: item.price,
-        quantity: item.quantity
+        quantity: this.unpaidUnits(receipt, item)
       }));
   }
 
@@ -132,24 +540,61 @@ export class SplitCalculationService {
    * Generate a shareable summary of the split
    */
   static generateShareableSummary(receipt: IReceipt, splits: PersonSplit[]): string {
-    const { restaurantName, date, total } = receipt;
+    const { restaurantName, date, total, currency } = receipt;
     const formattedDate = new Date(date).toLocaleDateString();
 
     let summary = `🍽️ ${restaurantName}\n`;
     summary += `📅 ${formattedDate}\n`;
-    summary += `💰 Total: $${total.toFixed(2)}\n\n`;
+    summary += `💰 Total: ${formatMoney(total, currency)}\n`;
+    if (receipt.tipPercentage !== undefined && receipt.tipPercentage !== null) {
+      summary += `💁 Including a ${receipt.tipPercentage}% tip of ${formatMoney(receipt.tip, currency)}\n`;
+    }
+    if (receipt.printedTotal !== undefined && receipt.printedTotal !== null && receipt.printedTotal !== total) {
+      summary += `🧾 Printed total: ${formatMoney(receipt.printedTotal, currency)}\n`;
+    }
+    summary += `\n`;
 
-    summary += `👥 Split between ${splits.length} people:\n`;
+    const percentages = new Map((receipt.splitTargets || []).map(target => [target.personId, target.percentage]));
+    summary += `👥 Split between ${splits.length} people${SPLIT_MODE_LABELS[receipt.splitMode || 'itemized']}:\n`;
     splits.forEach(split => {
-      summary += `• ${split.name}: $${split.total.toFixed(2)}\n`;
+      const percentage = receipt.splitMode === 'percentage' ? ` (${percentages.get(split.personId) || 0}%)` : '';
+      summary += `• ${split.name}${percentage}: ${formatMoney(split.total, currency)}\n`;
       if (split.items.length > 0) {
         split.items.forEach(item => {
-          const shared = item.sharedWith.length > 0 ? ` (shared)` : '';
-          summary += `  - ${item.itemName}: $${item.shareAmount.toFixed(2)}${shared}\n`;
+          const shared = item.units !== undefined ? ` (${item.units} of ${item.totalShares})`
+            : item.sharedWith.length === 0 ? ''
+            : item.shares * (item.sharedWith.length + 1) === item.totalShares ? ` (shared)`
+            : ` (${item.shares} of ${item.totalShares} shares)`;
+          summary += `  - ${item.itemName}: ${formatMoney(item.shareAmount, currency)}${shared}\n`;
         });
       }
+      if (split.discountShare > 0) {
+        summary += `  - Discounts: -${formatMoney(split.discountShare, currency)}\n`;
+      }
+      if (split.tipPercentage !== undefined) {
+        summary += `  - Tip (${split.tipPercentage}%): ${formatMoney(split.tipShare, currency)}\n`;
+      }
+      split.charges.forEach(charge => {
+        summary += `  - ${charge.name}: ${formatMoney(charge.shareAmount, currency)}\n`;
+      });
+      if (split.roundingShare !== 0) {
+        summary += `  - Rounding to the printed total: ${split.roundingShare < 0 ? '-' : ''}${formatMoney(Math.abs(split.roundingShare), currency)}\n`;
+      }
     });
 
+    const settlement = SettlementService.settle(splits);
+    if (settlement.transfers.length > 0) {
+      summary += `\n💸 Settle up:\n`;
+      settlement.transfers.forEach(transfer => {
+        summary += `• ${transfer.fromName} owes ${transfer.toName} ${formatMoney(transfer.amount, currency)}\n`;
+      });
+    }
+    if (settlement.transfers.length > 0 && settlement.unsettled !== 0) {
+      summary += settlement.unsettled > 0
+        ? `• ${formatMoney(settlement.unsettled, currency)} is still to be paid\n`
+        : `• ${formatMoney(-settlement.unsettled, currency)} more was paid than the bill comes to\n`;
+    }
+
     summary += `\n📱 Processed with SplitBite`;
 
     return summary;
@@ -159,11 +604,11 @@ export class SplitCalculationService {
    * Calculate savings compared to equal split
    */
   static calculateSavings(receipt: IReceipt, splits: PersonSplit[]): Array<{personId: string; savings: number}> {
-    const equalSplit = receipt.total / receipt.people.length;
+    const equalSplit = allocate(receipt.total, splits.map(() => 1)).parts;
 
-    return splits.map(split => ({
+    return splits.map((split, index) => ({
       personId: split.personId,
-      savings: equalSplit - split.total
+      savings: equalSplit[index] - split.total
     }));
   }
 
@@ -172,16 +617,14 @@ export class SplitCalculationService {
    */
   static getReceiptStats(receipt: IReceipt, splits: PersonSplit[]) {
     const totalItems = receipt.items.length;
-    const assignedItems = receipt.items.filter(item =>
-      item.assignedTo && item.assignedTo.length > 0
-    ).length;
+    const assignedItems = receipt.items.filter(item => this.unpaidUnits(receipt, item) === 0).length;
 
     const sharedItems = receipt.items.filter(item =>
       item.assignedTo && item.assignedTo.length > 1
     ).length;
 
     const averagePerPerson = splits.length > 0
-      ? splits.reduce((sum, split) => sum + split.total, 0) / splits.length
+      ? Math.round(splits.reduce((sum, split) => sum + split.total, 0) / splits.length)
       : 0;
 
     const highestAmount = splits.length > 0
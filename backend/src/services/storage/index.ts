@@ -0,0 +1,42 @@
+import { STORAGE_CONFIG } from '../../config/storage';
+import { StorageDriver } from './storageDriver';
+import { S3StorageDriver } from './s3StorageDriver';
+import { LocalStorageDriver } from './localStorageDriver';
+
+export * from './storageDriver';
+export { S3StorageDriver } from './s3StorageDriver';
+export { LocalStorageDriver } from './localStorageDriver';
+
+export class StorageService {
+  private static driver: StorageDriver | null = null;
+
+  /**
+   * Get the configured storage driver (created on first use)
+   */
+  static getDriver(): StorageDriver {
+    if (!this.driver) {
+      this.driver = this.createDriver();
+    }
+    return this.driver;
+  }
+
+  /**
+   * Override the driver, e.g. with an in-memory one in tests
+   */
+  static setDriver(driver: StorageDriver): void {
+    this.driver = driver;
+  }
+
+  private static createDriver(): StorageDriver {
+    switch (STORAGE_CONFIG.driver) {
+      case 's3':
+        return new S3StorageDriver();
+      case 'local':
+        return new LocalStorageDriver();
+      default:
+        throw new Error(`Unknown STORAGE_DRIVER "${STORAGE_CONFIG.driver}"`);
+    }
+  }
+}
+
+export default StorageService;
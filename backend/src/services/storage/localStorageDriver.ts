@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { STORAGE_CONFIG } from '../../config/storage';
+import {
+  StorageDriver,
+  StorageDownloadResult,
+  StorageFileMetadata,
+  StorageUploadResult,
+  generateStorageKey,
+  validateUpload
+} from './storageDriver';
+
+interface LocalFileSidecar {
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Keeps receipt images on the local filesystem, for self-hosting and offline development.
+ * Files are served back through /api/files with HMAC-signed, expiring URLs.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private config: typeof STORAGE_CONFIG.local = STORAGE_CONFIG.local) {}
+
+  /**
+   * Write a file to disk next to a small JSON sidecar holding its content type
+   */
+  async uploadFile(
+    fileBuffer: Buffer,
+    originalName: string,
+    mimeType: string
+  ): Promise<StorageUploadResult> {
+    try {
+      validateUpload(fileBuffer, mimeType);
+
+      const key = generateStorageKey(mimeType);
+      const filePath = this.resolvePath(key);
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, fileBuffer);
+
+      const sidecar: LocalFileSidecar = {
+        contentType: mimeType,
+        metadata: {
+          originalName: originalName,
+          uploadDate: new Date().toISOString()
+        }
+      };
+      await fs.writeFile(this.sidecarPath(filePath), JSON.stringify(sidecar, null, 2));
+
+      const location = this.fileUrl(key);
+
+      return {
+        key,
+        url: location,
+        bucket: 'local',
+        location
+      };
+
+    } catch (error) {
+      console.error('Local storage upload error:', error);
+      throw new Error(`Failed to store file locally: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Build a URL that lets anyone holding it read the file until it expires
+   */
+  async getSignedUrl(key: string, expiresIn: number = STORAGE_CONFIG.signedUrlExpiresIn): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = this.sign(key, expires);
+
+    return `${this.fileUrl(key)}?expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Check a signature produced by getSignedUrl and that it hasn't expired
+   */
+  verifySignedUrl(key: string, expires: string, signature: string): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expiresAt), 'hex');
+    const provided = Buffer.from(signature || '', 'hex');
+
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Read a file's contents from disk
+   */
+  async downloadFile(key: string): Promise<StorageDownloadResult> {
+    try {
+      const filePath = this.resolvePath(key);
+      const body = await fs.readFile(filePath);
+      const sidecar = await this.readSidecar(filePath);
+
+      return {
+        body,
+        contentType: sidecar?.contentType
+      };
+    } catch (error) {
+      console.error('Local storage download error:', error);
+      throw new Error(`Failed to read file from local storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a file and its sidecar
+   */
+  async deleteFile(key: string): Promise<boolean> {
+    try {
+      const filePath = this.resolvePath(key);
+      await fs.rm(filePath, { force: true });
+      await fs.rm(this.sidecarPath(filePath), { force: true });
+      return true;
+    } catch (error) {
+      console.error('Local storage delete error:', error);
+      throw new Error(`Failed to delete file from local storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Check if a file exists on disk
+   */
+  async fileExists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolvePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get file metadata from disk and the sidecar
+   */
+  async getFileMetadata(key: string): Promise<StorageFileMetadata> {
+    try {
+      const filePath = this.resolvePath(key);
+      const stats = await fs.stat(filePath);
+      const sidecar = await this.readSidecar(filePath);
+
+      return {
+        contentType: sidecar?.contentType,
+        contentLength: stats.size,
+        lastModified: stats.mtime,
+        metadata: sidecar?.metadata
+      };
+    } catch (error) {
+      console.error('Error getting file metadata:', error);
+      throw new Error(`Failed to get file metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Map a storage key to a path inside the root directory, rejecting anything that escapes it
+   */
+  private resolvePath(key: string): string {
+    const root = path.resolve(this.config.rootDir);
+    const filePath = path.resolve(root, key);
+
+    if (!key || key.endsWith('.meta.json') || !filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  /**
+   * Where a key is served from, with each part of the key URL-encoded
+   */
+  private fileUrl(key: string): string {
+    return `${this.config.baseUrl}${this.config.routePath}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  private sidecarPath(filePath: string): string {
+    return `${filePath}.meta.json`;
+  }
+
+  private async readSidecar(filePath: string): Promise<LocalFileSidecar | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.sidecarPath(filePath), 'utf8')) as LocalFileSidecar;
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.config.signingSecret)
+      .update(`${key}:${expires}`)
+      .digest('hex');
+  }
+}
+
+export default LocalStorageDriver;
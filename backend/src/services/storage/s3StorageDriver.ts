@@ -1,39 +1,30 @@
-import { s3, S3_CONFIG } from '../config/aws';
-import { v4 as uuidv4 } from 'uuid';
-import path from 'path';
-
-export interface S3UploadResult {
-  key: string;
-  url: string;
-  bucket: string;
-  location: string;
-}
-
-export class S3Service {
+import { s3, S3_CONFIG } from '../../config/aws';
+import { STORAGE_CONFIG } from '../../config/storage';
+import {
+  StorageDriver,
+  StorageDownloadResult,
+  StorageFileMetadata,
+  StorageUploadResult,
+  generateStorageKey,
+  validateUpload
+} from './storageDriver';
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
 
   /**
    * Upload a file to S3
    */
-  static async uploadFile(
+  async uploadFile(
     fileBuffer: Buffer,
     originalName: string,
     mimeType: string
-  ): Promise<S3UploadResult> {
+  ): Promise<StorageUploadResult> {
     try {
-      // Validate file type
-      if (!S3_CONFIG.allowedTypes.includes(mimeType)) {
-        throw new Error(`File type ${mimeType} not allowed. Allowed types: ${S3_CONFIG.allowedTypes.join(', ')}`);
-      }
-
-      // Validate file size
-      if (fileBuffer.length > S3_CONFIG.maxFileSize) {
-        throw new Error(`File size ${fileBuffer.length} exceeds maximum allowed size of ${S3_CONFIG.maxFileSize} bytes`);
-      }
+      validateUpload(fileBuffer, mimeType);
 
       // Generate unique filename
-      const fileExtension = path.extname(originalName);
-      const uniqueFileName = `${uuidv4()}${fileExtension}`;
-      const key = `${S3_CONFIG.keyPrefix}${uniqueFileName}`;
+      const key = generateStorageKey(mimeType);
 
       // Upload parameters
       const uploadParams = {
@@ -67,7 +58,7 @@ export class S3Service {
   /**
    * Generate a pre-signed URL for secure file access
    */
-  static async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
+  async getSignedUrl(key: string, expiresIn: number = STORAGE_CONFIG.signedUrlExpiresIn): Promise<string> {
     try {
       const params = {
         Bucket: S3_CONFIG.bucket,
@@ -82,10 +73,31 @@ export class S3Service {
     }
   }
 
+  /**
+   * Download a file's contents from S3
+   */
+  async downloadFile(key: string): Promise<StorageDownloadResult> {
+    try {
+      const params = {
+        Bucket: S3_CONFIG.bucket,
+        Key: key
+      };
+
+      const result = await s3.getObject(params).promise();
+      return {
+        body: result.Body as Buffer,
+        contentType: result.ContentType
+      };
+    } catch (error) {
+      console.error('S3 download error:', error);
+      throw new Error(`Failed to download file from S3: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Delete a file from S3
    */
-  static async deleteFile(key: string): Promise<boolean> {
+  async deleteFile(key: string): Promise<boolean> {
     try {
       const params = {
         Bucket: S3_CONFIG.bucket,
@@ -103,7 +115,7 @@ export class S3Service {
   /**
    * Check if a file exists in S3
    */
-  static async fileExists(key: string): Promise<boolean> {
+  async fileExists(key: string): Promise<boolean> {
     try {
       const params = {
         Bucket: S3_CONFIG.bucket,
@@ -123,7 +135,7 @@ export class S3Service {
   /**
    * Get file metadata from S3
    */
-  static async getFileMetadata(key: string) {
+  async getFileMetadata(key: string): Promise<StorageFileMetadata> {
     try {
       const params = {
         Bucket: S3_CONFIG.bucket,
@@ -144,4 +156,4 @@ export class S3Service {
   }
 }
 
-export default S3Service;
\ No newline at end of file
+export default S3StorageDriver;
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { v4 as uuidv4 } from 'uuid';
+import { STORAGE_CONFIG } from '../../config/storage';
+
+export interface StorageUploadResult {
+  key: string;
+  url: string;
+  bucket: string; // S3 bucket name, or "local" for the filesystem driver
+  location: string;
+}
+
+export interface StorageDownloadResult {
+  body: Buffer;
+  contentType?: string;
+}
+
+export interface StorageFileMetadata {
+  contentType?: string;
+  contentLength?: number;
+  lastModified?: Date;
+  metadata?: Record<string, string>;
+}
+
+// Everything the app needs from a place to keep receipt images
+export interface StorageDriver {
+  readonly name: string;
+
+  /**
+   * Store a file under a new unique key
+   */
+  uploadFile(fileBuffer: Buffer, originalName: string, mimeType: string): Promise<StorageUploadResult>;
+
+  /**
+   * Read a file's contents
+   */
+  downloadFile(key: string): Promise<StorageDownloadResult>;
+
+  /**
+   * Create a temporary URL the browser can load the file from
+   */
+  getSignedUrl(key: string, expiresIn?: number): Promise<string>;
+
+  /**
+   * Remove a file (succeeds if it is already gone)
+   */
+  deleteFile(key: string): Promise<boolean>;
+
+  fileExists(key: string): Promise<boolean>;
+
+  getFileMetadata(key: string): Promise<StorageFileMetadata>;
+}
+
+/**
+ * Check an upload against the configured type and size limits
+ */
+export const validateUpload = (fileBuffer: Buffer, mimeType: string): void => {
+  if (!STORAGE_CONFIG.allowedTypes.includes(mimeType)) {
+    throw new Error(`File type ${mimeType} not allowed. Allowed types: ${STORAGE_CONFIG.allowedTypes.join(', ')}`);
+  }
+
+  if (fileBuffer.length > STORAGE_CONFIG.maxFileSize) {
+    throw new Error(`File size ${fileBuffer.length} exceeds maximum allowed size of ${STORAGE_CONFIG.maxFileSize} bytes`);
+  }
+};
+
+// File extension for each allowed upload type
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/jpg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp'
+};
+
+/**
+ * Generate a unique key for a new upload, with the extension for its type. The uploaded file's
+ * name isn't used, so nothing from it ends up in keys or the URLs built from them.
+ */
+export const generateStorageKey = (mimeType: string): string => {
+  const fileExtension = EXTENSIONS[mimeType] || '';
+  return `${STORAGE_CONFIG.keyPrefix}${uuidv4()}${fileExtension}`;
+};
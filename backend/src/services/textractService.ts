@@ -1,16 +1,26 @@
-import { textract } from '../config/aws';
-import AWS from 'aws-sdk';
-import { OpenAIService } from './openaiService';
-
+import { ChargeType, LayoutDiscount, LayoutParser, LayoutTaxLine, TaxCategory, ReceiptParserError, ReceiptParserProvider, ReceiptParsingService } from './parsing';
+import { OcrBoundingBox, OcrLine, OcrProvider, OcrResult, OcrService, mergeBoundingBoxes } from './ocr';
+import { ConfidenceService } from './confidenceService';
+import { nameSimilarity, normalizeText } from '../utils/textSimilarity';
+import { fromMinorUnits, minorUnitDigits, toMinorUnits } from '../utils/money';
+import { CURRENCY_CONFIG } from '../config/currency';
+import { CurrencyService } from './currency';
+
+// Amounts are in minor units of the currency
 export interface ExtractedReceiptData {
   restaurantName?: string;
   date?: string;
+  currency: string; // ISO 4217 code the receipt shows, or the default it was extracted with
   items: ReceiptItem[];
+  adjustments?: ReceiptAdjustment[]; // Receipt-wide discounts and coupons
+  charges?: ReceiptCharge[]; // Service charges, fees and auto-gratuity
+  taxLines?: LayoutTaxLine[]; // Each tax printed on the receipt; tax is their sum
   subtotal?: number;
   tax?: number;
   tip?: number;
   total?: number;
   confidence: number;
+  warnings?: string[]; // Problems with the reading to show the user, e.g. a currency that couldn't be used
   rawData: any;
 }
 
@@ -18,46 +28,150 @@ export interface ReceiptItem {
   name: string;
   quantity: number;
   price: number;
-  confidence: number;
+  confidence: number; // 0-100, from OCR quality, parser agreement and reconciliation
+  confidenceReasons?: string[]; // Why the confidence was lowered
+  sourceRegion?: OcrBoundingBox; // Where the item was printed on the image
+  adjustments?: ReceiptAdjustment[]; // Discounts printed against this item
+  taxCategory?: TaxCategory; // Which tax line the item is charged under
+}
+
+export interface ReceiptAdjustment {
+  name: string;
+  kind: 'discount' | 'coupon' | 'comp';
+  amount: number; // Amount taken off, as a positive number
+}
+
+export interface ReceiptCharge {
+  name: string;
+  type: ChargeType;
+  amount: number;
+}
+
+// Names that tell a coupon or comp apart from an ordinary discount
+const ADJUSTMENT_KINDS: Array<[ReceiptAdjustment['kind'], RegExp]> = [
+  ['coupon', /\b(coupon|voucher|promo)/i],
+  ['comp', /\b(comp|comped|on the house|void(ed)?)\b/i]
+];
+
+// The amounts a parse result holds, as decimals until converted to minor units
+interface ParsedAmounts {
+  items: Array<{ price: number }>;
+  discounts: Array<{ amount: number }>;
+  charges: Array<{ amount: number }>;
+  taxLines: Array<{ amount: number }>;
+  subtotal?: number;
+  tax?: number;
+  tip?: number;
+  total?: number;
+}
+
+// Where a parsed item was found among the OCR lines
+interface ItemLocation {
+  sourceRegion?: OcrBoundingBox;
+  ocrConfidence?: number; // Average confidence of the lines it was read from
+}
+
+export interface ExtractionOptions {
+  ocrProvider?: OcrProvider; // Defaults to the configured provider
+  parser?: ReceiptParserProvider; // Defaults to the configured provider
+  hint?: string; // Extra context for the parser from the user
+  defaultCurrency?: string; // For receipts that don't show their currency, defaults to DEFAULT_CURRENCY
+  onStage?: (stage: 'ocr' | 'parsing') => Promise<void>;
 }
 
 export class TextractService {
 
   /**
-   * Extract text from receipt image using AWS Textract + OpenAI parsing
+   * Extract text from a receipt image with the configured OCR provider + LLM parsing
    */
-  static async extractReceiptData(s3Bucket: string, s3Key: string): Promise<ExtractedReceiptData> {
-    try {
-      // Step 1: Use Textract to extract raw text from the image
-      console.log('📊 Extracting text with Textract...');
-      const rawTextLines = await this.detectTextOnly(s3Bucket, s3Key);
-      const textractOutput = rawTextLines.join('\n');
-
-      console.log('📝 Raw Textract output:', textractOutput);
-
-      // Step 2: Use OpenAI to intelligently parse the text
-      console.log('🤖 Parsing with OpenAI...');
-      const openaiService = new OpenAIService();
-      const parsedData = await openaiService.parseReceiptText(textractOutput);
+  static async extractReceiptData(
+    imageBytes: Buffer,
+    mimeType?: string,
+    options: ExtractionOptions = {}
+  ): Promise<ExtractedReceiptData> {
+    // Step 1: Run OCR to get the raw text lines from the image
+    await options.onStage?.('ocr');
+    const ocrProvider = options.ocrProvider || OcrService.getProvider();
+    console.log(`📊 Extracting text with ${ocrProvider.name}...`);
+    const ocrResult = await ocrProvider.detectText(imageBytes, mimeType);
+
+    return this.extractFromOcrResult(ocrResult, options);
+  }
 
-      // Step 3: Convert to our expected format
+  /**
+   * Parse OCR output that has already been collected (e.g. stored from an earlier upload)
+   */
+  static async extractFromOcrResult(ocrResult: OcrResult, options: ExtractionOptions = {}): Promise<ExtractedReceiptData> {
+    try {
+      const ocrText = ocrResult.lines.map(line => line.text).join('\n');
+
+      console.log('📝 Raw OCR output:', ocrText);
+
+      // Step 2: Use the configured LLM parser to intelligently parse the text
+      await options.onStage?.('parsing');
+      console.log('🤖 Parsing receipt text...');
+      const { receipt: parsedData, provider, attempts } = await ReceiptParsingService.parseReceiptText(ocrText, {
+        provider: options.parser,
+        hint: options.hint
+      });
+
+      // Step 3: Work in minor units of the receipt's currency from here on
+      const { currency, warnings } = await this.resolveCurrency(parsedData.currency, options.defaultCurrency);
+      const parsed = this.inMinorUnits(parsedData, currency);
+
+      // Step 4: Attach discounts to the items they were printed against
+      const discounts = parsed.discounts.map(discount => ({
+        name: discount.name,
+        amount: discount.amount,
+        itemIndex: discount.itemName ? this.findItemIndex(parsed.items, discount.itemName) : undefined
+      }));
+      const { itemAdjustments, receiptAdjustments } = this.groupAdjustments(parsed.items.length, discounts);
+
+      // Step 5: Score each item against the OCR lines it came from and a layout-parser reading of the same text
+      const locations = this.locateItems(parsed.items, ocrResult.lines, currency);
+      const confidence = ConfidenceService.scoreReceipt({
+        ...parsed,
+        currency,
+        items: parsed.items.map((item, index) => ({ ...item, adjustments: itemAdjustments[index] })),
+        adjustments: receiptAdjustments,
+        charges: parsed.charges
+      }, {
+        itemOcrConfidence: locations.map(location => location.ocrConfidence),
+        crossCheckItems: this.inMinorUnits(LayoutParser.parse(ocrResult.lines), currency).items
+      });
+
+      // Step 6: Convert to our expected format
       const extractedData: ExtractedReceiptData = {
-        restaurantName: parsedData.restaurantName,
-        date: parsedData.date,
-        items: parsedData.items.map(item => ({
+        restaurantName: parsed.restaurantName,
+        date: parsed.date,
+        currency,
+        items: parsed.items.map((item, index) => ({
           name: item.name,
           quantity: item.quantity,
           price: item.price,
-          confidence: 95 // OpenAI parsing is generally high confidence
+          confidence: confidence.items[index].confidence,
+          confidenceReasons: confidence.items[index].reasons,
+          sourceRegion: locations[index].sourceRegion,
+          taxCategory: item.taxCategory,
+          ...(itemAdjustments[index].length > 0 && { adjustments: itemAdjustments[index] })
         })),
-        subtotal: parsedData.subtotal,
-        tax: parsedData.tax,
-        tip: parsedData.tip,
-        total: parsedData.total,
-        confidence: 95, // OpenAI parsing confidence
+        adjustments: receiptAdjustments,
+        charges: parsed.charges,
+        taxLines: parsed.taxLines.map(({ rate, ...taxLine }) => ({ ...taxLine, ...(rate !== null && { rate }) })),
+        subtotal: parsed.subtotal,
+        tax: parsed.tax,
+        tip: parsed.tip,
+        total: parsed.total,
+        confidence: confidence.overall,
+        warnings,
         rawData: {
-          textractOutput,
-          openaiParsed: parsedData
+          ocrProvider: ocrResult.provider,
+          ocrLines: ocrResult.lines,
+          ocrText,
+          parser: provider,
+          parseAttempts: attempts,
+          parserHint: options.hint,
+          parsed: parsedData
         }
       };
 
@@ -67,10 +181,10 @@ export class TextractService {
     } catch (error) {
       console.error('❌ Receipt extraction error:', error);
 
-      // Fallback to basic Textract parsing if OpenAI fails
-      if (error instanceof Error && error.message.includes('OpenAI')) {
-        console.log('⚠️ OpenAI failed, falling back to basic Textract parsing...');
-        return this.extractReceiptDataFallback(s3Bucket, s3Key);
+      // Fallback to basic line parsing if the LLM parser fails or keeps returning invalid data
+      if (error instanceof ReceiptParserError) {
+        console.log('⚠️ Receipt parser failed, falling back to basic OCR line parsing...');
+        return this.extractReceiptDataFallback(ocrResult, options.defaultCurrency);
       }
 
       throw new Error(`Failed to extract text from receipt: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -78,247 +192,179 @@ export class TextractService {
   }
 
   /**
-   * Fallback method using original Textract parsing
+   * The LLM parser only returns text, so find each item's OCR line by name and
+   * add the line on the same row that holds its price
    */
-  private static async extractReceiptDataFallback(s3Bucket: string, s3Key: string): Promise<ExtractedReceiptData> {
-    try {
-      const params = {
-        Document: {
-          S3Object: {
-            Bucket: s3Bucket,
-            Name: s3Key
-          }
-        },
-        FeatureTypes: ['TABLES', 'FORMS']
-      };
+  private static locateItems(
+    items: { name: string; quantity: number; price: number }[],
+    ocrLines: OcrLine[],
+    currency: string
+  ): ItemLocation[] {
+    const usedLines = new Set<number>();
+
+    return items.map(item => {
+      const itemName = normalizeText(item.name);
+      let best: { index: number; score: number } | undefined;
+
+      ocrLines.forEach((line, index) => {
+        const lineName = normalizeText(line.text.replace(/-?\$?\d+(?:,\d{3})*[.,]\d{2}/g, ''));
+        if (usedLines.has(index) || lineName.length < 2) {
+          return;
+        }
 
-      const result = await textract.analyzeDocument(params).promise();
+        // Lines often carry a quantity or modifier alongside the name
+        const score = lineName.includes(itemName) ? 1 : nameSimilarity(lineName, itemName);
+        if (score >= 0.6 && (!best || score > best.score)) {
+          best = { index, score };
+        }
+      });
 
-      if (!result.Blocks) {
-        throw new Error('No text blocks found in the document');
+      if (!best) {
+        return {};
       }
 
-      const extractedData = this.parseTextractResponse(result.Blocks);
+      const nameLine = ocrLines[best.index];
+      usedLines.add(best.index);
 
+      const amounts = [item.price * item.quantity, item.price]
+        .map(amount => fromMinorUnits(amount, currency).toFixed(minorUnitDigits(currency)));
+      const centre = nameLine.boundingBox.top + nameLine.boundingBox.height / 2;
+      const priceLine = ocrLines.find((line, index) =>
+        index !== best!.index &&
+        Math.abs(line.boundingBox.top + line.boundingBox.height / 2 - centre) <= nameLine.boundingBox.height / 2 &&
+        amounts.some(amount => line.text.replace(',', '.').includes(amount))
+      );
+
+      const lines = [nameLine, ...(priceLine ? [priceLine] : [])];
       return {
-        ...extractedData,
-        rawData: result
+        sourceRegion: mergeBoundingBoxes(lines.map(line => line.boundingBox)),
+        ocrConfidence: lines.reduce((sum, line) => sum + (line.confidence || 0), 0) / lines.length
       };
-
-    } catch (error) {
-      console.error('Fallback Textract analysis error:', error);
-      throw new Error(`Failed to extract text from receipt: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    });
   }
 
   /**
-   * Parse Textract response into structured receipt data
+   * A parse result with its decimal amounts converted to minor units of the currency
    */
-  private static parseTextractResponse(blocks: AWS.Textract.Block[]): Omit<ExtractedReceiptData, 'rawData'> {
-    const textBlocks = blocks.filter(block => block.BlockType === 'LINE');
-    const lines = textBlocks
-      .map(block => ({
-        text: block.Text || '',
-        confidence: block.Confidence || 0
-      }))
-      .sort((a, b) => (b.confidence || 0) - (a.confidence || 0));
-
-    // Extract restaurant name (usually the first high-confidence line)
-    const restaurantName = this.extractRestaurantName(lines);
-
-    // Extract date
-    const date = this.extractDate(lines);
-
-    // Extract items and prices
-    const items = this.extractItems(lines);
-
-    // Extract totals
-    const totals = this.extractTotals(lines);
-
-    // Calculate overall confidence
-    const avgConfidence = lines.reduce((sum, line) => sum + (line.confidence || 0), 0) / lines.length;
+  private static inMinorUnits<T extends ParsedAmounts>(receipt: T, currency: string): T {
+    const toMinor = (amount: number) => toMinorUnits(amount, currency);
+    const optional = (amount?: number) => amount === undefined ? undefined : toMinor(amount);
 
     return {
-      restaurantName,
-      date,
-      items,
-      subtotal: totals.subtotal,
-      tax: totals.tax,
-      tip: totals.tip,
-      total: totals.total,
-      confidence: avgConfidence
-    };
-  }
-
-  /**
-   * Extract restaurant name from text lines
-   */
-  private static extractRestaurantName(lines: { text: string; confidence: number }[]): string | undefined {
-    // Look for the first line that's likely a restaurant name (high confidence, not a price/number)
-    const restaurantLine = lines.find(line =>
-      line.confidence > 80 &&
-      line.text.length > 3 &&
-      !this.containsPrice(line.text) &&
-      !this.isDateLine(line.text)
-    );
-
-    return restaurantLine?.text.trim();
-  }
-
-  /**
-   * Extract date from text lines
-   */
-  private static extractDate(lines: { text: string; confidence: number }[]): string | undefined {
-    const dateLine = lines.find(line => this.isDateLine(line.text));
-    return dateLine?.text.trim();
+      ...receipt,
+      items: receipt.items.map(item => ({ ...item, price: toMinor(item.price) })),
+      discounts: receipt.discounts.map(discount => ({ ...discount, amount: toMinor(discount.amount) })),
+      charges: receipt.charges.map(charge => ({ ...charge, amount: toMinor(charge.amount) })),
+      taxLines: receipt.taxLines.map(taxLine => ({ ...taxLine, amount: toMinor(taxLine.amount) })),
+      subtotal: optional(receipt.subtotal),
+      tax: optional(receipt.tax),
+      tip: optional(receipt.tip),
+      total: optional(receipt.total)
+    } as T;
   }
 
   /**
-   * Extract items and prices from text lines
+   * The item a discount names, by the same matching used to locate items on the image
    */
-  private static extractItems(lines: { text: string; confidence: number }[]): ReceiptItem[] {
-    const items: ReceiptItem[] = [];
-
-    for (const line of lines) {
-      const itemMatch = this.parseItemLine(line.text);
-      if (itemMatch) {
-        items.push({
-          ...itemMatch,
-          confidence: line.confidence
-        });
+  private static findItemIndex(items: { name: string }[], itemName: string): number | undefined {
+    const target = normalizeText(itemName);
+    let best: { index: number; score: number } | undefined;
+
+    items.forEach((item, index) => {
+      const score = normalizeText(item.name) === target ? 1 : nameSimilarity(item.name, itemName);
+      if (score >= 0.6 && (!best || score > best.score)) {
+        best = { index, score };
       }
-    }
+    });
 
-    return items;
+    return best?.index;
   }
 
   /**
-   * Extract totals (subtotal, tax, tip, total) from text lines
+   * Split parsed discounts into per-item and receipt-wide adjustments. Discounts pointing
+   * at an item that wasn't found apply to the whole receipt.
    */
-  private static extractTotals(lines: { text: string; confidence: number }[]): {
-    subtotal?: number;
-    tax?: number;
-    tip?: number;
-    total?: number;
+  private static groupAdjustments(itemCount: number, discounts: LayoutDiscount[]): {
+    itemAdjustments: ReceiptAdjustment[][];
+    receiptAdjustments: ReceiptAdjustment[];
   } {
-    const totals: any = {};
-
-    for (const line of lines) {
-      const text = line.text.toLowerCase();
-      const priceMatch = text.match(/(\d+\.?\d*)/);
-
-      if (priceMatch) {
-        const amount = parseFloat(priceMatch[1]);
-
-        if (text.includes('subtotal') || text.includes('sub total')) {
-          totals.subtotal = amount;
-        } else if (text.includes('tax')) {
-          totals.tax = amount;
-        } else if (text.includes('tip') || text.includes('gratuity')) {
-          totals.tip = amount;
-        } else if (text.includes('total') && !text.includes('subtotal')) {
-          totals.total = amount;
-        }
+    const itemAdjustments: ReceiptAdjustment[][] = Array.from({ length: itemCount }, () => []);
+    const receiptAdjustments: ReceiptAdjustment[] = [];
+
+    for (const discount of discounts) {
+      const adjustment: ReceiptAdjustment = {
+        name: discount.name,
+        kind: ADJUSTMENT_KINDS.find(([, pattern]) => pattern.test(discount.name))?.[0] || 'discount',
+        amount: discount.amount
+      };
+
+      if (discount.itemIndex !== undefined && discount.itemIndex < itemCount) {
+        itemAdjustments[discount.itemIndex].push(adjustment);
+      } else {
+        receiptAdjustments.push(adjustment);
       }
     }
 
-    return totals;
+    return { itemAdjustments, receiptAdjustments };
   }
 
   /**
-   * Check if a line contains a price
+   * Fallback that parses the OCR lines from their layout on the page
    */
-  private static containsPrice(text: string): boolean {
-    return /\$?\d+\.?\d*/.test(text);
-  }
+  private static async extractReceiptDataFallback(ocrResult: OcrResult, defaultCurrency?: string): Promise<ExtractedReceiptData> {
+    if (ocrResult.lines.length === 0) {
+      throw new Error('Failed to extract text from receipt: No text lines found in the document');
+    }
 
-  /**
-   * Check if a line contains a date
-   */
-  private static isDateLine(text: string): boolean {
-    // Basic date patterns - can be enhanced
-    const datePatterns = [
-      /\d{1,2}\/\d{1,2}\/\d{2,4}/, // MM/DD/YYYY or M/D/YY
-      /\d{1,2}-\d{1,2}-\d{2,4}/,   // MM-DD-YYYY or M-D-YY
-      /\d{1,2}\.\d{1,2}\.\d{2,4}/,  // MM.DD.YYYY or M.D.YY
-      /(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i // Month names
-    ];
-
-    return datePatterns.some(pattern => pattern.test(text));
-  }
+    const layout = LayoutParser.parse(ocrResult.lines);
+    const { currency, warnings } = await this.resolveCurrency(layout.currency, defaultCurrency);
+    const { discounts, ...extractedData } = this.inMinorUnits(layout, currency);
+    const { itemAdjustments, receiptAdjustments } = this.groupAdjustments(extractedData.items.length, discounts);
+    const items = extractedData.items.map((item, index) => ({
+      ...item,
+      ...(itemAdjustments[index].length > 0 && { adjustments: itemAdjustments[index] })
+    }));
+    const confidence = ConfidenceService.scoreReceipt({ ...extractedData, currency, items, adjustments: receiptAdjustments }, {
+      itemOcrConfidence: extractedData.items.map(item => item.confidence)
+    });
 
-  /**
-   * Parse a line to extract item information
-   */
-  private static parseItemLine(text: string): Omit<ReceiptItem, 'confidence'> | null {
-    // Look for patterns like "Item Name $XX.XX" or "2x Item Name $XX.XX"
-    const patterns = [
-      /^(\d+)x?\s+(.+?)\s+\$?(\d+\.?\d*)$/i,  // "2x Item Name $XX.XX"
-      /^(.+?)\s+\$?(\d+\.?\d*)$/i,            // "Item Name $XX.XX"
-      /^(.+?)\s+(\d+)\s+\$?(\d+\.?\d*)$/i     // "Item Name 2 $XX.XX"
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) {
-        if (match.length === 4 && match[1].match(/^\d+$/)) {
-          // Pattern: "2x Item Name $XX.XX"
-          return {
-            name: match[2].trim(),
-            quantity: parseInt(match[1]),
-            price: parseFloat(match[3])
-          };
-        } else if (match.length === 3) {
-          // Pattern: "Item Name $XX.XX"
-          return {
-            name: match[1].trim(),
-            quantity: 1,
-            price: parseFloat(match[2])
-          };
-        } else if (match.length === 4) {
-          // Pattern: "Item Name 2 $XX.XX"
-          return {
-            name: match[1].trim(),
-            quantity: parseInt(match[2]),
-            price: parseFloat(match[3])
-          };
-        }
+    return {
+      ...extractedData,
+      currency,
+      items: items.map((item, index) => ({
+        ...item,
+        confidence: confidence.items[index].confidence,
+        confidenceReasons: confidence.items[index].reasons
+      })),
+      adjustments: receiptAdjustments,
+      confidence: confidence.overall,
+      warnings,
+      rawData: {
+        ocrProvider: ocrResult.provider,
+        ocrLines: ocrResult.lines
       }
-    }
-
-    return null;
+    };
   }
 
   /**
-   * Process receipt using synchronous Textract (for small documents)
+   * The currency to read the amounts in: the one the receipt shows if there are exchange rates for it,
+   * otherwise the default (the user's home currency), otherwise DEFAULT_CURRENCY. Falling back from a
+   * currency the receipt shows adds a warning, as the amounts may need checking.
    */
-  static async detectTextOnly(s3Bucket: string, s3Key: string): Promise<string[]> {
-    try {
-      const params = {
-        Document: {
-          S3Object: {
-            Bucket: s3Bucket,
-            Name: s3Key
-          }
-        }
-      };
-
-      const result = await textract.detectDocumentText(params).promise();
-
-      if (!result.Blocks) {
-        throw new Error('No text blocks found in the document');
-      }
-
-      // Extract just the text lines
-      return result.Blocks
-        .filter(block => block.BlockType === 'LINE')
-        .map(block => block.Text || '')
-        .filter(text => text.trim().length > 0);
+  private static async resolveCurrency(shown: string | null | undefined, defaultCurrency?: string): Promise<{ currency: string; warnings: string[] }> {
+    const fallback = defaultCurrency && await CurrencyService.isSupported(defaultCurrency)
+      ? defaultCurrency
+      : CURRENCY_CONFIG.defaultCurrency;
 
-    } catch (error) {
-      console.error('Textract text detection error:', error);
-      throw new Error(`Failed to detect text from receipt: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!shown || shown === fallback || await CurrencyService.isSupported(shown)) {
+      return { currency: shown || fallback, warnings: [] };
     }
+
+    console.warn(`⚠️ No exchange rate for ${shown}, reading the receipt in ${fallback}`);
+    return {
+      currency: fallback,
+      warnings: [`The receipt looks like it's in ${shown}, which isn't supported, so its amounts were read as ${fallback}`]
+    };
   }
 }
 
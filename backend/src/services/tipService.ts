@@ -0,0 +1,95 @@
+import { IReceipt } from '../models/Receipt';
+
+type TipBasis = IReceipt['tipBasis'];
+
+export class TipService {
+
+  /**
+   * What a tip percentage is taken of: the subtotal, plus the tax for a post-tax tip
+   */
+  static basis(subtotal: number, tax: number, tipBasis: TipBasis): number {
+    return tipBasis === 'post_tax' ? subtotal + tax : subtotal;
+  }
+
+  /**
+   * A percentage of an amount in whole minor units
+   */
+  static percentageOf(amount: number, percentage: number): number {
+    return Math.round((amount * percentage) / 100);
+  }
+
+  /**
+   * Tip the receipt a percentage of its subtotal (or subtotal plus tax). The tip follows later
+   * edits to the subtotal and tax until an amount is set instead.
+   */
+  static setPercentage(receipt: IReceipt, percentage: number, tipBasis: TipBasis = receipt.tipBasis): void {
+    receipt.tipPercentage = percentage;
+    receipt.tipBasis = tipBasis;
+    this.apply(receipt);
+  }
+
+  /**
+   * Tip the receipt a set amount in minor units
+   */
+  static setAmount(receipt: IReceipt, amount: number): void {
+    this.keepPrinted(receipt);
+    receipt.tipPercentage = undefined;
+    receipt.tip = amount;
+    receipt.total = receipt.printedTotal! - receipt.printedTip! + amount;
+  }
+
+  /**
+   * Work a percentage tip out again from the current subtotal and tax, and the total from the
+   * printed total with the printed tip swapped for this one. Does nothing for a tip set as an amount.
+   */
+  static apply(receipt: IReceipt): void {
+    if (receipt.tipPercentage === undefined || receipt.tipPercentage === null) {
+      return;
+    }
+
+    this.keepPrinted(receipt);
+    receipt.tip = this.percentageOf(this.basis(receipt.subtotal, receipt.tax, receipt.tipBasis), receipt.tipPercentage);
+    receipt.total = receipt.printedTotal! - receipt.printedTip! + receipt.tip;
+  }
+
+  /**
+   * Take a newly read tip and total (e.g. from a re-scan) as the printed ones, keeping any tip set in the app
+   */
+  static setPrinted(receipt: IReceipt, tip: number, total: number): void {
+    if (receipt.printedTotal === undefined || receipt.printedTotal === null) {
+      receipt.tip = tip;
+      receipt.total = total;
+      return;
+    }
+
+    receipt.printedTip = tip;
+    receipt.printedTotal = total;
+    if (receipt.tipPercentage === undefined || receipt.tipPercentage === null) {
+      receipt.total = total - tip + receipt.tip;
+    } else {
+      this.apply(receipt);
+    }
+  }
+
+  /**
+   * Forget any tip set in the app, e.g. after the tip or total was corrected by hand: the
+   * amounts on the receipt become the printed ones again
+   */
+  static reset(receipt: IReceipt): void {
+    receipt.tipPercentage = undefined;
+    receipt.printedTip = undefined;
+    receipt.printedTotal = undefined;
+  }
+
+  /**
+   * Remember the tip and total as printed, the first time the tip is changed in the app
+   */
+  private static keepPrinted(receipt: IReceipt): void {
+    if (receipt.printedTotal === undefined || receipt.printedTotal === null) {
+      receipt.printedTip = receipt.tip || 0;
+      receipt.printedTotal = receipt.total;
+    }
+  }
+}
+
+export default TipService;
@@ -0,0 +1,45 @@
+import { fromMinorUnits, minorUnitDigits } from './money';
+
+// ISO 4217 code, e.g. "USD"
+export const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+// What gives a receipt's currency away, most specific first. A bare "$" is left out:
+// it could be any dollar, so those receipts fall back to the user's home currency.
+const CURRENCY_MARKERS: Array<[string, RegExp]> = [
+  ['USD', /\bUSD\b|US\$/],
+  ['CAD', /\bCAD\b|C\$/],
+  ['AUD', /\bAUD\b|A\$/],
+  ['NZD', /\bNZD\b|NZ\$/],
+  ['MXN', /\bMXN\b|MX\$/],
+  ['EUR', /€|\bEUR\b/],
+  ['GBP', /£|\bGBP\b/],
+  ['JPY', /¥|円|\bJPY\b/],
+  ['CHF', /\bCHF\b/],
+  ['INR', /₹|\bINR\b/],
+  ['KRW', /₩|\bKRW\b/],
+  ['THB', /฿|\bTHB\b/],
+  ['SEK', /\bSEK\b/],
+  ['NOK', /\bNOK\b/],
+  ['DKK', /\bDKK\b/]
+];
+
+/**
+ * The currency a receipt's text is printed in, or undefined if nothing identifies it
+ */
+export const detectCurrency = (text: string): string | undefined => {
+  const marker = CURRENCY_MARKERS.find(([, pattern]) => pattern.test(text));
+  return marker?.[0];
+};
+
+/**
+ * Format an amount of minor units in its currency, e.g. 1250 -> "$12.50", "€12.50" or "¥1,250"
+ */
+export const formatMoney = (amount: number, currency: string): string => {
+  const value = fromMinorUnits(amount, currency);
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+  } catch {
+    // Not a code Intl knows
+    return `${currency} ${value.toFixed(minorUnitDigits(currency))}`;
+  }
+};
@@ -0,0 +1,78 @@
+// Money is stored and calculated in integer minor units of its currency (cents for USD, yen for JPY)
+// so splits can add up exactly. Parsers read decimal amounts and convert them with toMinorUnits.
+
+/**
+ * Digits after the decimal point in a currency (2 for USD, 0 for JPY, 3 for BHD)
+ */
+export const minorUnitDigits = (currency: string): number => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+/**
+ * A decimal amount as a whole number of minor units, e.g. 12.5 USD -> 1250
+ */
+export const toMinorUnits = (amount: number, currency: string): number => {
+  return Math.round(amount * 10 ** minorUnitDigits(currency));
+};
+
+/**
+ * Minor units back to a decimal amount, e.g. 1250 USD -> 12.5
+ */
+export const fromMinorUnits = (amount: number, currency: string): number => {
+  return amount / 10 ** minorUnitDigits(currency);
+};
+
+export interface Allocation {
+  parts: number[]; // Adds up to exactly the amount allocated
+  extra: number[]; // Leftover units each part picked up on top of its rounded-down share
+}
+
+/**
+ * Split a whole number of minor units in proportion to the weights so the parts add up to
+ * exactly the amount. Each part gets its rounded-down share, then the leftover units go one
+ * at a time to the largest remainders. Equal remainders are served in order starting from
+ * index `first`, so callers can rotate who picks up the odd penny.
+ */
+export const allocate = (amount: number, weights: number[], first: number = 0): Allocation => {
+  const parts = weights.map(() => 0);
+  const extra = weights.map(() => 0);
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+
+  if (amount === 0 || totalWeight <= 0) {
+    return { parts, extra };
+  }
+
+  // Negative amounts (e.g. a rounding correction) are allocated as positive and flipped back
+  const sign = amount < 0 ? -1 : 1;
+  const units = Math.abs(amount);
+  const exact = weights.map(weight => (units * Math.max(0, weight)) / totalWeight);
+
+  exact.forEach((share, index) => {
+    parts[index] = Math.floor(share + 1e-9);
+  });
+
+  const position = (index: number) => (index - first + weights.length) % weights.length;
+  const order = weights
+    .map((weight, index) => index)
+    .filter(index => weights[index] > 0)
+    .sort((a, b) => {
+      const remainderDifference = (exact[b] - parts[b]) - (exact[a] - parts[a]);
+      return Math.abs(remainderDifference) > 1e-9 ? remainderDifference : position(a) - position(b);
+    });
+
+  let leftover = units - parts.reduce((sum, part) => sum + part, 0);
+  for (let next = 0; leftover > 0; next++, leftover--) {
+    const index = order[next % order.length];
+    parts[index] += 1;
+    extra[index] += 1;
+  }
+
+  return sign > 0 ? { parts, extra } : {
+    parts: parts.map(part => 0 - part),
+    extra: extra.map(count => 0 - count)
+  };
+};
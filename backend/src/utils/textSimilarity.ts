@@ -0,0 +1,36 @@
+/**
+ * Lowercase and collapse punctuation so OCR noise doesn't affect comparisons
+ */
+export const normalizeText = (text: string): string => {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+};
+
+/**
+ * Dice coefficient over character bigrams of the normalized names (1 = same name)
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = (text: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const bigram = text.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) || 0) + 1);
+    }
+    return counts;
+  };
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  let overlap = 0;
+
+  leftBigrams.forEach((count, bigram) => {
+    overlap += Math.min(count, rightBigrams.get(bigram) || 0);
+  });
+
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+};
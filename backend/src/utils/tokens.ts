@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a random URL-safe secret for refresh, reset and verification tokens
+ */
+export const generateSecureToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * Hash a token before storing it so a database leak doesn't expose usable tokens
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Compare a token against a stored hash in constant time
+ */
+export const tokenMatchesHash = (token: string, expectedHash: string): boolean => {
+  const actual = Buffer.from(hashToken(token), 'hex');
+  const expected = Buffer.from(expectedHash, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
@@ -3,15 +3,26 @@ interface User {
   id: string;
   name: string;
   email: string;
+  emailVerified?: boolean;
+  homeCurrency?: string; // ISO 4217 code restaurant totals are kept in
   createdAt: string;
   token?: string; // Optional token for authenticated user state
+  refreshToken?: string; // Used to get a new access token when the current one expires
 }
 
 interface AuthResponse {
   success: boolean;
   message: string;
   token: string;
+  refreshToken: string;
   user: User;
+  pendingDeletion?: { scheduledFor: string };
+}
+
+interface RefreshResponse {
+  success: boolean;
+  token: string;
+  refreshToken: string;
 }
 
 interface Person {
@@ -19,6 +30,14 @@ interface Person {
   name: string;
   email?: string;
   isRegisteredUser: boolean;
+  userId?: string; // The account this person is - always set for the receipt's owner
+}
+
+interface SourceRegion {
+  left: number; // Fractions (0-1) of the image width and height
+  top: number;
+  width: number;
+  height: number;
 }
 
 interface ReceiptItem {
@@ -26,22 +45,64 @@ interface ReceiptItem {
   quantity: number;
   price: number;
   assignedTo: string[];
-  sharedBy?: number;
+  shares?: Array<{ personId: string; weight: number }>; // Uneven portions; anyone not listed has a weight of 1
+  units?: Array<{ personId: string; count: number }>; // Set when the item is split by unit
   notes?: string;
+  sourceRegion?: SourceRegion;
+  confidence?: number; // 0-100
+  confidenceReasons?: string[];
+  adjustments?: Adjustment[];
+  taxCategory?: TaxCategory;
   _id?: string;
 }
 
+type TaxCategory = 'standard' | 'alcohol' | 'grocery' | 'exempt';
+
+interface TaxLine {
+  name: string;
+  category: TaxCategory;
+  rate?: number;
+  amount: number;
+}
+
+interface Adjustment {
+  name: string;
+  kind: 'discount' | 'coupon' | 'comp';
+  amount: number; // Amount taken off, as a positive number
+}
+
+interface Charge {
+  name: string;
+  type: 'service_charge' | 'delivery_fee' | 'bag_fee' | 'auto_gratuity' | 'other_fee';
+  amount: number;
+  distribution: 'proportional' | 'equal' | 'assigned';
+  assignedTo: string[];
+}
+
 interface SplitCalculation {
   personId: string;
   name: string;
   subtotal: number;
+  discountShare?: number;
   taxShare: number;
   tipShare: number;
+  tipPercentage?: number; // Their own tip rate, when they tip differently from the receipt
+  chargesShare?: number;
+  roundingShare?: number; // Share of the few minor units between the calculated and printed total
   total: number;
+  paid?: number; // What they put towards the bill
+  balance?: number; // paid - total: owed back when positive, owing when negative
+  leftoverUnits?: number; // Minor units picked up when shares didn't divide evenly
+  charges?: Array<{ name: string; type: Charge['type']; shareAmount: number }>;
   items: Array<{
     itemName: string;
     fullPrice: number;
+    discount?: number;
     shareAmount: number;
+    leftoverUnits?: number;
+    shares?: number;
+    totalShares?: number;
+    units?: number; // Units this person had, for items split by unit (out of totalShares)
     sharedWith: string[];
   }>;
 }
@@ -53,26 +114,73 @@ interface Restaurant {
   cuisine?: string;
   visitCount: number;
   totalSpent: number;
+  currency?: string; // What totalSpent is in
   lastVisit: string;
   isFavorite: boolean;
   notes?: string;
 }
 
+// A completed receipt left out of recalculated restaurant totals, as its currency can't be converted
+interface RecalculationSkip {
+  receiptId: string;
+  restaurantName: string;
+  currency: string;
+}
+
+interface ReconciliationSuggestion {
+  cause: string;
+  message: string;
+  itemIndex?: number;
+  amount?: number;
+}
+
+interface Reconciliation {
+  status: 'balanced' | 'mismatch';
+  itemsTotal: number;
+  issues: Array<{
+    check: 'items_vs_subtotal' | 'subtotal_vs_total' | 'missing_subtotal' | 'missing_total';
+    expected: number;
+    actual: number;
+    difference: number;
+    message: string;
+    suggestions: ReconciliationSuggestion[];
+  }>;
+  checkedAt: string;
+  acknowledgedAt?: string;
+}
+
 interface Receipt {
   _id: string;
   restaurantName: string;
   restaurantAddress?: string;
   date: string;
+  currency?: string; // ISO 4217 code, e.g. "EUR"
   items: ReceiptItem[];
   people: Person[];
+  adjustments?: Adjustment[];
+  charges?: Charge[];
+  taxLines?: TaxLine[];
   subtotal: number;
   tax: number;
   tip: number;
   total: number;
+  tipPercentage?: number; // Set when the tip was entered as a percentage
+  tipBasis?: TipBasis;
+  tipOverrides?: TipOverride[];
+  printedTip?: number; // The tip and total as printed, once a tip is set in the app
+  printedTotal?: number;
   imageUrl: string;
-  processingStatus: string;
+  processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
+  processingStage?: 'queued' | 'downloading' | 'ocr' | 'parsing' | 'saving';
+  processingError?: string;
+  processingWarnings?: string[];
+  pendingReprocess?: ReprocessRequest;
+  reconciliation?: Reconciliation;
   ocrConfidence?: number;
   splitCalculations?: SplitCalculation[];
+  splitMode?: SplitMode;
+  splitTargets?: SplitTarget[];
+  payers?: Payer[];
   taxDistribution: 'proportional' | 'equal';
   tipDistribution: 'proportional' | 'equal';
   isComplete: boolean;
@@ -80,6 +188,43 @@ interface Receipt {
   signedImageUrl?: string;
 }
 
+type SplitMode = 'itemized' | 'equal' | 'percentage' | 'fixed' | 'hybrid';
+
+type TipBasis = 'pre_tax' | 'post_tax';
+
+// Money one person put towards the bill, in minor units
+interface Payer {
+  personId: string;
+  amount: number;
+}
+
+// One "X owes Y" payment that settles up
+interface Transfer {
+  fromPersonId: string;
+  fromName: string;
+  toPersonId: string;
+  toName: string;
+  amount: number;
+}
+
+interface Settlement {
+  transfers: Transfer[];
+  unsettled: number; // Still to be paid towards the bill (negative when more was paid than it comes to)
+}
+
+// Someone tipping at their own rate on their share
+interface TipOverride {
+  personId: string;
+  percentage: number;
+}
+
+// A person's percentage (percentage mode) or total in minor units (fixed mode)
+interface SplitTarget {
+  personId: string;
+  percentage?: number;
+  amount?: number;
+}
+
 interface ReceiptsResponse {
   success: boolean;
   receipts: Receipt[];
@@ -100,13 +245,77 @@ interface ReceiptResponse {
 interface UploadResponse {
   success: boolean;
   message: string;
-  receipt: Receipt;
+  statusUrl: string;
+  receipt: {
+    id: string;
+    imageUrl: string;
+    processingStatus: Receipt['processingStatus'];
+    processingStage?: Receipt['processingStage'];
+    createdAt: string;
+  };
+}
+
+interface ReceiptStatus {
+  receiptId: string;
+  processingStatus: Receipt['processingStatus'];
+  processingStage?: Receipt['processingStage'];
+  processingError?: string;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: string;
+}
+
+interface ReceiptStatusResponse {
+  success: boolean;
+  status: ReceiptStatus;
+  receipt?: Receipt;
+}
+
+interface ReprocessRequest {
+  status: 'queued' | 'processing' | 'ready' | 'failed';
+  mode: 'full' | 'parse';
+  ocrProvider?: string;
+  parser?: string;
+  hint?: string;
+  requestedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+interface ReprocessDiff {
+  fields: Array<{ field: string; before: string | number; after: string | number }>;
+  currency: string; // What the re-processed amounts are in
+  items: Array<{
+    change: 'unchanged' | 'modified' | 'added' | 'removed';
+    currentIndex?: number;
+    newIndex?: number;
+    before?: { name: string; quantity: number; price: number };
+    after?: { name: string; quantity: number; price: number };
+    keepsAssignment: boolean;
+    assignedTo: string[];
+  }>;
+  summary: {
+    unchanged: number;
+    modified: number;
+    added: number;
+    removed: number;
+    assignmentsKept: number;
+    assignmentsLost: number;
+  };
+  reconciliation: Reconciliation;
+}
+
+interface ReprocessResponse {
+  success: boolean;
+  reprocess: ReprocessRequest;
+  diff?: ReprocessDiff;
 }
 
 interface ApiError {
   success: false;
   error: string;
   message: string;
+  code?: string;
 }
 
 type ApiResponse<T> = T | ApiError;
@@ -122,6 +331,9 @@ const sections = {
     landing: document.getElementById('landing') as HTMLElement,
     loginSection: document.getElementById('loginSection') as HTMLElement,
     signupSection: document.getElementById('signupSection') as HTMLElement,
+    forgotPasswordSection: document.getElementById('forgotPasswordSection') as HTMLElement,
+    resetPasswordSection: document.getElementById('resetPasswordSection') as HTMLElement,
+    changePasswordSection: document.getElementById('changePasswordSection') as HTMLElement,
     dashboard: document.getElementById('dashboard') as HTMLElement
 };
 
@@ -129,16 +341,26 @@ const buttons = {
     login: document.getElementById('loginBtn') as HTMLButtonElement,
     signup: document.getElementById('signupBtn') as HTMLButtonElement,
     logout: document.getElementById('logoutBtn') as HTMLButtonElement,
+    changePassword: document.getElementById('changePasswordBtn') as HTMLButtonElement,
     getStarted: document.getElementById('getStartedBtn') as HTMLButtonElement,
     upload: document.getElementById('uploadBtn') as HTMLButtonElement,
     switchToSignup: document.getElementById('switchToSignup') as HTMLAnchorElement,
     switchToLogin: document.getElementById('switchToLogin') as HTMLAnchorElement,
-    cancelUpload: document.getElementById('cancelUpload') as HTMLButtonElement
+    forgotPassword: document.getElementById('forgotPasswordLink') as HTMLAnchorElement,
+    backToLogin: document.getElementById('backToLogin') as HTMLAnchorElement,
+    cancelChangePassword: document.getElementById('cancelChangePassword') as HTMLAnchorElement,
+    cancelUpload: document.getElementById('cancelUpload') as HTMLButtonElement,
+    resendVerification: document.getElementById('resendVerificationBtn') as HTMLButtonElement,
+    exportAccount: document.getElementById('exportAccountBtn') as HTMLButtonElement,
+    deleteAccount: document.getElementById('deleteAccountBtn') as HTMLButtonElement
 };
 
 const forms = {
     login: document.getElementById('loginForm') as HTMLFormElement,
     signup: document.getElementById('signupForm') as HTMLFormElement,
+    forgotPassword: document.getElementById('forgotPasswordForm') as HTMLFormElement,
+    resetPassword: document.getElementById('resetPasswordForm') as HTMLFormElement,
+    changePassword: document.getElementById('changePasswordForm') as HTMLFormElement,
     upload: document.getElementById('uploadForm') as HTMLFormElement
 };
 
@@ -147,10 +369,12 @@ const elements = {
     uploadSection: document.getElementById('uploadSection') as HTMLElement,
     receiptsList: document.getElementById('receiptsList') as HTMLElement,
     uploadProgress: document.getElementById('uploadProgress') as HTMLElement,
+    verifyEmailBanner: document.getElementById('verifyEmailBanner') as HTMLElement,
     loadingSpinner: document.getElementById('loadingSpinner') as HTMLElement,
     toast: document.getElementById('toast') as HTMLElement,
     receiptModal: document.getElementById('receiptModal') as HTMLElement,
-    receiptDetails: document.getElementById('receiptDetails') as HTMLElement
+    receiptDetails: document.getElementById('receiptDetails') as HTMLElement,
+    homeCurrency: document.getElementById('homeCurrency') as HTMLSelectElement
 };
 
 // Utility Functions
@@ -161,6 +385,32 @@ function showSection(sectionName: keyof typeof sections): void {
     }
 }
 
+// Amounts come from the API in minor units of their currency (cents for USD, yen for JPY)
+function minorUnitDigits(currency: string): number {
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+        return 2;
+    }
+}
+
+// Amounts in their currency, e.g. 1250 -> "$12.50" or "€12.50" (receipts saved before currencies were tracked are in dollars)
+function formatMoney(amount: number, currency: string = 'USD'): string {
+    const digits = minorUnitDigits(currency);
+    const value = amount / 10 ** digits;
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+    } catch {
+        return `${currency} ${value.toFixed(digits)}`;
+    }
+}
+
+// Minor units as a plain decimal, e.g. 1250 -> "12.50", for exports
+function toDecimalString(amount: number, currency: string = 'USD'): string {
+    const digits = minorUnitDigits(currency);
+    return (amount / 10 ** digits).toFixed(digits);
+}
+
 function showToast(message: string, type: 'info' | 'success' | 'error' = 'info'): void {
     elements.toast.textContent = message;
     elements.toast.className = `toast ${type}`;
@@ -192,21 +442,81 @@ function updateNavigation(): void {
         buttons.login.classList.add('hidden');
         buttons.signup.classList.add('hidden');
         buttons.logout.classList.remove('hidden');
+        buttons.changePassword.classList.remove('hidden');
         elements.userName.textContent = currentUser.name;
+        elements.verifyEmailBanner?.classList.toggle('hidden', currentUser.emailVerified !== false);
     } else {
         buttons.login.classList.remove('hidden');
         buttons.signup.classList.remove('hidden');
         buttons.logout.classList.add('hidden');
+        buttons.changePassword.classList.add('hidden');
+        elements.verifyEmailBanner?.classList.add('hidden');
+    }
+}
+
+function clearStoredUser(): void {
+    currentUser = null;
+    localStorage.removeItem('splitbite_user');
+    stopWatchingReceipts();
+    updateNavigation();
+}
+
+// Refresh the access token; concurrent callers share one request so the refresh token is only rotated once
+let refreshInFlight: Promise<boolean> | null = null;
+
+function refreshAccessToken(): Promise<boolean> {
+    if (!refreshInFlight) {
+        refreshInFlight = (async () => {
+            try {
+                if (!currentUser?.refreshToken) return false;
+
+                const response = await fetch(`${API_BASE}/auth/refresh`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ refreshToken: currentUser.refreshToken })
+                });
+
+                if (!response.ok || !currentUser) return false;
+
+                const data: RefreshResponse = await response.json();
+                currentUser.token = data.token;
+                currentUser.refreshToken = data.refreshToken;
+                localStorage.setItem('splitbite_user', JSON.stringify(currentUser));
+                return true;
+            } catch (error) {
+                console.error('Token refresh failed:', error);
+                return false;
+            } finally {
+                refreshInFlight = null;
+            }
+        })();
+    }
+
+    return refreshInFlight;
+}
+
+// Returns true if the request should be retried with a refreshed token; drops the stored session if it's gone
+async function recoverSession(errorData: ApiError): Promise<boolean> {
+    if (!currentUser) return false;
+
+    if (errorData.code === 'TOKEN_EXPIRED' && await refreshAccessToken()) {
+        return true;
     }
+
+    if (errorData.code === 'TOKEN_EXPIRED' || errorData.code === 'TOKEN_INVALID' || errorData.code === 'SESSION_REVOKED') {
+        clearStoredUser();
+        showSection('loginSection');
+    }
+
+    return false;
 }
 
 // API Functions with proper typing
-async function apiCall<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+async function apiCall<T>(endpoint: string, options: RequestInit = {}, retried: boolean = false): Promise<T> {
     try {
         const headers = {
             'Content-Type': 'application/json',
             ...(currentUser?.token && { 'Authorization': `Bearer ${currentUser.token}` }),
-            ...(currentUser?.id && { 'user-id': currentUser.id }),
             ...options.headers
         };
 
@@ -221,6 +531,9 @@ async function apiCall<T>(endpoint: string, options: RequestInit = {}): Promise<
 
         if (!response.ok) {
             const errorData = data as unknown as ApiError;
+            if (response.status === 401 && !retried && await recoverSession(errorData)) {
+                return await apiCall<T>(endpoint, options, true);
+            }
             throw new Error(errorData.message || errorData.error || 'Request failed');
         }
 
@@ -245,15 +558,14 @@ async function login(email: string, password: string): Promise<AuthResponse> {
     });
 }
 
-async function uploadReceipt(file: File): Promise<UploadResponse> {
+async function uploadReceipt(file: File, retried: boolean = false): Promise<UploadResponse> {
     const formData = new FormData();
     formData.append('receipt', file);
 
     const response = await fetch(`${API_BASE}/receipts/upload`, {
         method: 'POST',
         headers: {
-            ...(currentUser?.token && { 'Authorization': `Bearer ${currentUser.token}` }),
-            ...(currentUser?.id && { 'user-id': currentUser.id })
+            ...(currentUser?.token && { 'Authorization': `Bearer ${currentUser.token}` })
         },
         body: formData
     });
@@ -262,12 +574,97 @@ async function uploadReceipt(file: File): Promise<UploadResponse> {
 
     if (!response.ok) {
         const errorData = data as unknown as ApiError;
+        if (response.status === 401 && !retried && await recoverSession(errorData)) {
+            return await uploadReceipt(file, true);
+        }
         throw new Error(errorData.message || errorData.error || 'Upload failed');
     }
 
     return data;
 }
 
+async function getCurrentUser(): Promise<{success: boolean; user: User}> {
+    return await apiCall('/auth/me');
+}
+
+async function verifyEmail(token: string): Promise<{success: boolean; message: string; email: string}> {
+    return await apiCall('/auth/verify-email', {
+        method: 'POST',
+        body: JSON.stringify({ token })
+    });
+}
+
+async function resendVerificationEmail(): Promise<{success: boolean; message: string}> {
+    return await apiCall('/auth/resend-verification', {
+        method: 'POST'
+    });
+}
+
+async function requestPasswordReset(email: string): Promise<{success: boolean; message: string}> {
+    return await apiCall('/auth/forgot-password', {
+        method: 'POST',
+        body: JSON.stringify({ email })
+    });
+}
+
+async function resetPassword(token: string, password: string): Promise<{success: boolean; message: string}> {
+    return await apiCall('/auth/reset-password', {
+        method: 'POST',
+        body: JSON.stringify({ token, password })
+    });
+}
+
+async function changePassword(currentPassword: string, newPassword: string): Promise<{success: boolean; message: string}> {
+    return await apiCall('/auth/change-password', {
+        method: 'POST',
+        body: JSON.stringify({ currentPassword, newPassword })
+    });
+}
+
+async function updatePreferences(homeCurrency: string): Promise<{success: boolean; message: string; homeCurrency: string; restaurantsConverted: number}> {
+    return await apiCall('/auth/preferences', {
+        method: 'PUT',
+        body: JSON.stringify({ homeCurrency })
+    });
+}
+
+async function deleteAccount(password: string): Promise<{success: boolean; message: string; scheduledFor: string}> {
+    return await apiCall('/auth/account', {
+        method: 'DELETE',
+        body: JSON.stringify({ password })
+    });
+}
+
+async function cancelAccountDeletion(): Promise<{success: boolean; message: string}> {
+    return await apiCall('/auth/account/cancel-deletion', {
+        method: 'POST'
+    });
+}
+
+async function downloadAccountExport(retried: boolean = false): Promise<Blob> {
+    const response = await fetch(`${API_BASE}/auth/account/export`, {
+        headers: {
+            ...(currentUser?.token && { 'Authorization': `Bearer ${currentUser.token}` })
+        }
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json() as ApiError;
+        if (response.status === 401 && !retried && await recoverSession(errorData)) {
+            return await downloadAccountExport(true);
+        }
+        throw new Error(errorData.message || errorData.error || 'Export failed');
+    }
+
+    return await response.blob();
+}
+
+async function logout(): Promise<{success: boolean; message: string}> {
+    return await apiCall('/auth/logout', {
+        method: 'POST'
+    });
+}
+
 async function getReceipts(): Promise<ReceiptsResponse> {
     return await apiCall<ReceiptsResponse>('/receipts');
 }
@@ -276,6 +673,45 @@ async function getReceipt(id: string): Promise<ReceiptResponse> {
     return await apiCall<ReceiptResponse>(`/receipts/${id}`);
 }
 
+async function getReceiptStatus(id: string): Promise<ReceiptStatusResponse> {
+    return await apiCall<ReceiptStatusResponse>(`/receipts/${id}/status`);
+}
+
+async function requestReprocess(id: string, options: { mode: 'full' | 'parse'; parser?: string; hint?: string }): Promise<{success: boolean; message: string; reprocess: ReprocessRequest}> {
+    return await apiCall(`/receipts/${id}/reprocess`, {
+        method: 'POST',
+        body: JSON.stringify(options)
+    });
+}
+
+async function getReprocessResult(id: string): Promise<ReprocessResponse> {
+    return await apiCall<ReprocessResponse>(`/receipts/${id}/reprocess`);
+}
+
+async function applyReprocess(id: string): Promise<{success: boolean; message: string; receipt: Receipt; diff: ReprocessDiff}> {
+    return await apiCall(`/receipts/${id}/reprocess/apply`, {
+        method: 'POST'
+    });
+}
+
+async function discardReprocess(id: string): Promise<{success: boolean; message: string}> {
+    return await apiCall(`/receipts/${id}/reprocess`, {
+        method: 'DELETE'
+    });
+}
+
+async function acknowledgeReconciliation(id: string): Promise<{success: boolean; message: string; reconciliation: Reconciliation; isComplete: boolean}> {
+    return apiCall(`/receipts/${id}/reconciliation/acknowledge`, {
+        method: 'POST'
+    });
+}
+
+async function retryReceiptProcessing(id: string): Promise<{success: boolean; message: string; status: ReceiptStatus}> {
+    return await apiCall(`/receipts/${id}/retry-processing`, {
+        method: 'POST'
+    });
+}
+
 async function addPeopleToReceipt(receiptId: string, people: Person[]): Promise<{success: boolean; people: Person[]}> {
     return await apiCall(`/receipts/${receiptId}/people`, {
         method: 'POST',
@@ -283,21 +719,63 @@ async function addPeopleToReceipt(receiptId: string, people: Person[]): Promise<
     });
 }
 
-async function assignItemToPeople(receiptId: string, itemIndex: number, assignedTo: string[], notes?: string): Promise<{success: boolean; splits: SplitCalculation[]}> {
+async function assignItemToPeople(
+    receiptId: string,
+    itemIndex: number,
+    assignedTo: string[],
+    notes?: string,
+    portions: { shares?: Record<string, number>; units?: Record<string, number> } = {}
+): Promise<{success: boolean; item: ReceiptItem; splits: SplitCalculation[]}> {
     return await apiCall(`/receipts/${receiptId}/items/${itemIndex}/assign`, {
         method: 'PUT',
-        body: JSON.stringify({ assignedTo, notes })
+        body: JSON.stringify({ assignedTo, notes, ...portions })
     });
 }
 
-async function updateDistribution(receiptId: string, taxDistribution?: string, tipDistribution?: string): Promise<{success: boolean; splits: SplitCalculation[]}> {
+async function updateDistribution(
+    receiptId: string,
+    taxDistribution?: string,
+    tipDistribution?: string,
+    charges?: Array<Pick<Charge, 'distribution' | 'assignedTo'>>
+): Promise<{success: boolean; splits: SplitCalculation[]; charges: Charge[]}> {
     return await apiCall(`/receipts/${receiptId}/distribution`, {
         method: 'PUT',
-        body: JSON.stringify({ taxDistribution, tipDistribution })
+        body: JSON.stringify({ taxDistribution, tipDistribution, charges })
+    });
+}
+
+async function updateTip(
+    receiptId: string,
+    tip: { percentage?: number; amount?: number; basis?: TipBasis; overrides?: TipOverride[] }
+): Promise<{success: boolean; tip: number; total: number; tipPercentage?: number; tipBasis: TipBasis; tipOverrides: TipOverride[]; printedTip?: number; printedTotal?: number}> {
+    return await apiCall(`/receipts/${receiptId}/tip`, {
+        method: 'PUT',
+        body: JSON.stringify(tip)
+    });
+}
+
+async function updateSplitMode(
+    receiptId: string,
+    splitMode: SplitMode,
+    targets: SplitTarget[] = []
+): Promise<{success: boolean; splits: SplitCalculation[]; splitMode: SplitMode; splitTargets: SplitTarget[]; isComplete: boolean}> {
+    return await apiCall(`/receipts/${receiptId}/split-mode`, {
+        method: 'PUT',
+        body: JSON.stringify({ splitMode, targets })
     });
 }
 
-async function getSplitCalculation(receiptId: string): Promise<{success: boolean; splits: SplitCalculation[]; stats: any; unassignedItems: any[]}> {
+async function updatePayers(
+    receiptId: string,
+    payers: Payer[]
+): Promise<{success: boolean; splits: SplitCalculation[]; payers: Payer[]; settlement: Settlement}> {
+    return await apiCall(`/receipts/${receiptId}/payers`, {
+        method: 'PUT',
+        body: JSON.stringify({ payers })
+    });
+}
+
+async function getSplitCalculation(receiptId: string): Promise<{success: boolean; splits: SplitCalculation[]; stats: any; unassignedItems: any[]; settlement: Settlement}> {
     return await apiCall(`/receipts/${receiptId}/split`);
 }
 
@@ -305,13 +783,10 @@ async function getShareableSummary(receiptId: string): Promise<{success: boolean
     return await apiCall(`/receipts/${receiptId}/summary`);
 }
 
-async function finalizeSplit(receiptId: string, userAmount: number): Promise<{success: boolean; message: string}> {
-    console.log('finalizeSplit called with:', { receiptId, userAmount });
-    console.log('Current user in finalizeSplit:', currentUser);
-
+// The server takes the user's amount from the person linked to their account
+async function finalizeSplit(receiptId: string): Promise<{success: boolean; message: string; userAmount: number}> {
     return await apiCall(`/receipts/${receiptId}/finalize-split`, {
-        method: 'PUT',
-        body: JSON.stringify({ userAmount })
+        method: 'PUT'
     });
 }
 
@@ -348,6 +823,9 @@ let isUploading = false;
 
 // Bill Splitting State
 let currentReceipt: Receipt | null = null;
+
+// Items extracted with less confidence than this are flagged for the user to check
+const LOW_CONFIDENCE_THRESHOLD = 75;
 let currentSplitPeople: Person[] = [];
 let currentSplitCalculations: SplitCalculation[] = [];
 
@@ -379,8 +857,9 @@ async function loadReceiptForSplitting(receiptId: string): Promise<void> {
             const defaultPerson: Person = {
                 id: `person_me_${Date.now()}`,
                 name: 'Me',
-                email: undefined,
-                isRegisteredUser: true
+                email: currentUser?.email,
+                isRegisteredUser: !!currentUser?.emailVerified,
+                userId: currentUser?.id
             };
             currentSplitPeople = [defaultPerson];
             displaySplitPeople();
@@ -487,17 +966,28 @@ function displaySplitPeople(): void {
         return;
     }
 
+    // The user can rename themselves but not leave the receipt - their share is what restaurant history counts
     peopleList.innerHTML = currentSplitPeople.map((person, index) => `
         <div class="person-item">
             <div class="person-info">
-                <span class="person-name">${person.name}</span>
+                <span class="person-name">${person.name}${isCurrentUser(person) ? ' (You)' : ''}</span>
                 ${person.email ? `<span class="person-email">${person.email}</span>` : ''}
             </div>
-            <button class="remove-person-btn" onclick="removePersonFromSplit(${index})">×</button>
+            ${isCurrentUser(person) ? '' : `<button class="remove-person-btn" onclick="removePersonFromSplit(${index})">×</button>`}
         </div>
     `).join('');
 }
 
+function isCurrentUser(person: Person): boolean {
+    return !!person.userId && person.userId === currentUser?.id;
+}
+
+// The signed-in user's own part of a split, found through the person linked to their account
+function currentUserSplit(receipt: Receipt, splits: SplitCalculation[]): SplitCalculation | undefined {
+    const me = (receipt.people || []).find(isCurrentUser);
+    return me ? splits.find(split => split.personId === me.id) : undefined;
+}
+
 function removePersonFromSplit(index: number): void {
     currentSplitPeople.splice(index, 1);
     displaySplitPeople();
@@ -516,71 +1006,200 @@ async function continueToItems(): Promise<void> {
     try {
         showLoading();
 
-        // Save people to receipt
-        await addPeopleToReceipt(currentReceipt._id, currentSplitPeople);
+        // Save people to receipt - the server links each person to their account
+        const saved = await addPeopleToReceipt(currentReceipt._id, currentSplitPeople);
 
         // Update current receipt with people
-        currentReceipt.people = currentSplitPeople;
+        currentReceipt.people = saved.people;
+        currentSplitPeople = [...saved.people];
 
         // Show items step
         showSplitStep('items');
         setupSplitMethodHandlers();
+        setupTipControls();
         setupItemsAssignment();
         updateSplitMethodDisplay();
 
     } catch (error) {
-        showToast('Failed to save people', 'error');
+        showToast(`Failed to save people: ${(error as Error).message}`, 'error');
     } finally {
         hideLoading();
     }
 }
 
 function setupSplitMethodHandlers(): void {
-    const itemMethodRadio = document.getElementById('itemMethod') as HTMLInputElement;
-    const percentageMethodRadio = document.getElementById('percentageMethod') as HTMLInputElement;
+    const methodRadios = document.querySelectorAll('input[name="splitMethod"]') as NodeListOf<HTMLInputElement>;
 
-    itemMethodRadio?.addEventListener('change', updateSplitMethodDisplay);
-    percentageMethodRadio?.addEventListener('change', updateSplitMethodDisplay);
+    methodRadios.forEach(radio => {
+        radio.checked = radio.value === (currentReceipt?.splitMode || 'itemized');
+        radio.addEventListener('change', updateSplitMethodDisplay);
+    });
+}
+
+function selectedSplitMode(): SplitMode {
+    const checked = document.querySelector('input[name="splitMethod"]:checked') as HTMLInputElement | null;
+    return (checked?.value as SplitMode) || 'itemized';
 }
 
 function updateSplitMethodDisplay(): void {
-    const itemMethod = document.getElementById('itemMethod') as HTMLInputElement;
+    const mode = selectedSplitMode();
     const itemsAssignment = document.getElementById('itemsAssignment') as HTMLElement;
     const percentageAssignment = document.getElementById('percentageAssignment') as HTMLElement;
+    const fixedAssignment = document.getElementById('fixedAssignment') as HTMLElement;
+
+    itemsAssignment?.classList.toggle('hidden', mode !== 'itemized' && mode !== 'hybrid');
+    percentageAssignment?.classList.toggle('hidden', mode !== 'percentage');
+    fixedAssignment?.classList.toggle('hidden', mode !== 'fixed');
 
-    if (itemMethod?.checked) {
-        itemsAssignment?.classList.remove('hidden');
-        percentageAssignment?.classList.add('hidden');
+    if (mode === 'itemized' || mode === 'hybrid') {
         setupItemsAssignment();
-    } else {
-        itemsAssignment?.classList.add('hidden');
-        percentageAssignment?.classList.remove('hidden');
+    } else if (mode === 'percentage') {
         setupPercentageAssignment();
+    } else if (mode === 'fixed') {
+        setupFixedAssignment();
     }
 }
 
-function setupPercentageAssignment(): void {
-    if (!currentReceipt || !currentSplitPeople.length) return;
+// Tip percentage and basis, plus a rate input per person for anyone tipping differently
+function setupTipControls(): void {
+    if (!currentReceipt) return;
 
-    const percentageControls = document.getElementById('percentageControls') as HTMLElement;
-    const equalPercentage = Math.floor(100 / currentSplitPeople.length);
+    const tipPercentage = document.getElementById('tipPercentage') as HTMLInputElement;
+    const tipBasis = document.getElementById('tipBasis') as HTMLSelectElement;
+    const tipOverrideControls = document.getElementById('tipOverrideControls') as HTMLElement;
+    const overrides = new Map((currentReceipt.tipOverrides || []).map(override => [override.personId, override.percentage]));
 
-    percentageControls.innerHTML = currentSplitPeople.map((person, index) => `
-        <div class="percentage-control">
-            <label for="person-${person.id}">${person.name}</label>
+    tipPercentage.value = currentReceipt.tipPercentage !== undefined ? String(currentReceipt.tipPercentage) : '';
+    tipBasis.value = currentReceipt.tipBasis || 'pre_tax';
+    updatePrintedTotalNote();
+
+    tipOverrideControls.innerHTML = currentSplitPeople.map(person => `
+        <label>
+            ${person.name}
             <input
-                type="range"
-                id="person-${person.id}"
+                type="number"
                 min="0"
                 max="100"
-                value="${equalPercentage}"
+                step="0.5"
+                placeholder="Same"
+                value="${overrides.get(person.id) ?? ''}"
                 data-person-id="${person.id}"
-                class="percentage-slider"
-            >
-            <div class="percentage-value">${equalPercentage}%</div>
-            <div class="amount-value">$${(currentReceipt!.total * equalPercentage / 100).toFixed(2)}</div>
-        </div>
+                class="tip-override-input"
+            >%
+        </label>
     `).join('');
+}
+
+function updatePrintedTotalNote(): void {
+    const note = document.getElementById('printedTotalNote') as HTMLElement;
+    const printedTotal = currentReceipt?.printedTotal;
+
+    note.textContent = printedTotal !== undefined && printedTotal !== currentReceipt?.total
+        ? `Printed total ${formatMoney(printedTotal, currentReceipt?.currency)}, now ${formatMoney(currentReceipt!.total, currentReceipt?.currency)}`
+        : '';
+}
+
+// The tip as entered: a percentage, or back to the printed tip when a percentage was cleared
+function readTip(): { percentage?: number; amount?: number; basis: TipBasis; overrides: TipOverride[] } {
+    const percentage = (document.getElementById('tipPercentage') as HTMLInputElement).value.trim();
+    const basis = (document.getElementById('tipBasis') as HTMLSelectElement).value as TipBasis;
+    const inputs = document.querySelectorAll('.tip-override-input') as NodeListOf<HTMLInputElement>;
+    const overrides = Array.from(inputs)
+        .filter(input => input.value.trim() !== '')
+        .map(input => ({ personId: input.dataset.personId || '', percentage: parseFloat(input.value) }));
+
+    if (percentage !== '') {
+        return { percentage: parseFloat(percentage), basis, overrides };
+    }
+    if (currentReceipt?.tipPercentage !== undefined) {
+        return { amount: currentReceipt.printedTip ?? 0, basis, overrides };
+    }
+    return { basis, overrides };
+}
+
+// One amount input per person, filled in from the receipt's saved fixed amounts
+function setupFixedAssignment(): void {
+    if (!currentReceipt || !currentSplitPeople.length) return;
+
+    const currency = currentReceipt.currency || 'USD';
+    const digits = minorUnitDigits(currency);
+    const fixedControls = document.getElementById('fixedControls') as HTMLElement;
+    const savedAmount = (personId: string) => currentReceipt!.splitMode === 'fixed'
+        ? currentReceipt!.splitTargets?.find(target => target.personId === personId)?.amount
+        : undefined;
+
+    fixedControls.innerHTML = currentSplitPeople.map(person => {
+        const amount = savedAmount(person.id);
+        return `
+            <div class="percentage-control">
+                <label for="fixed-${person.id}">${person.name}</label>
+                <input
+                    type="number"
+                    id="fixed-${person.id}"
+                    min="0"
+                    step="${1 / 10 ** digits}"
+                    placeholder="Share the rest"
+                    value="${amount !== undefined ? (amount / 10 ** digits).toFixed(digits) : ''}"
+                    data-person-id="${person.id}"
+                    class="fixed-amount-input"
+                >
+            </div>
+        `;
+    }).join('');
+}
+
+// Percentages or fixed amounts (in minor units) for the selected mode
+function readSplitTargets(mode: SplitMode): SplitTarget[] {
+    if (mode === 'percentage') {
+        const sliders = document.querySelectorAll('.percentage-slider') as NodeListOf<HTMLInputElement>;
+        return Array.from(sliders).map(slider => ({
+            personId: slider.dataset.personId || '',
+            percentage: parseInt(slider.value)
+        }));
+    }
+
+    if (mode === 'fixed') {
+        const digits = minorUnitDigits(currentReceipt?.currency || 'USD');
+        const inputs = document.querySelectorAll('.fixed-amount-input') as NodeListOf<HTMLInputElement>;
+        return Array.from(inputs)
+            .filter(input => input.value.trim() !== '')
+            .map(input => ({
+                personId: input.dataset.personId || '',
+                amount: Math.round(parseFloat(input.value) * 10 ** digits)
+            }));
+    }
+
+    return [];
+}
+
+function setupPercentageAssignment(): void {
+    if (!currentReceipt || !currentSplitPeople.length) return;
+
+    const percentageControls = document.getElementById('percentageControls') as HTMLElement;
+    const equalPercentage = Math.floor(100 / currentSplitPeople.length);
+    const savedPercentage = (personId: string) => currentReceipt!.splitMode === 'percentage'
+        ? currentReceipt!.splitTargets?.find(target => target.personId === personId)?.percentage
+        : undefined;
+
+    percentageControls.innerHTML = currentSplitPeople.map(person => {
+        const percentage = savedPercentage(person.id) ?? equalPercentage;
+        return `
+            <div class="percentage-control">
+                <label for="person-${person.id}">${person.name}</label>
+                <input
+                    type="range"
+                    id="person-${person.id}"
+                    min="0"
+                    max="100"
+                    value="${percentage}"
+                    data-person-id="${person.id}"
+                    class="percentage-slider"
+                >
+                <div class="percentage-value">${percentage}%</div>
+                <div class="amount-value">${formatMoney(Math.round(currentReceipt!.total * percentage / 100), currentReceipt?.currency)}</div>
+            </div>
+        `;
+    }).join('');
 
     // Add event listeners to sliders
     document.querySelectorAll('.percentage-slider').forEach(slider => {
@@ -606,7 +1225,7 @@ function updatePercentageDisplay(): void {
         const amountValue = control.querySelector('.amount-value') as HTMLElement;
 
         percentageValue.textContent = `${percentage}%`;
-        amountValue.textContent = `$${(currentReceipt!.total * percentage / 100).toFixed(2)}`;
+        amountValue.textContent = formatMoney(Math.round(currentReceipt!.total * percentage / 100), currentReceipt?.currency);
     });
 
     // Update summary
@@ -616,8 +1235,8 @@ function updatePercentageDisplay(): void {
     totalPercentageEl.textContent = totalPercentage.toString();
 
     const remainingPercentage = 100 - totalPercentage;
-    const remainingAmount = currentReceipt!.total * remainingPercentage / 100;
-    remainingAmountEl.textContent = remainingAmount.toFixed(2);
+    const remainingAmount = Math.round(currentReceipt!.total * remainingPercentage / 100);
+    remainingAmountEl.textContent = formatMoney(remainingAmount, currentReceipt.currency);
 
     // Update colors based on whether total is 100%
     const summary = document.querySelector('.percentage-summary') as HTMLElement;
@@ -637,13 +1256,15 @@ function updatePercentageDisplay(): void {
 function setupItemsAssignment(): void {
     if (!currentReceipt) return;
 
+    const reconciliationNotice = document.getElementById('splitReconciliationNotice') as HTMLElement;
+    reconciliationNotice.innerHTML = renderReconciliationNotice(currentReceipt._id, currentReceipt.reconciliation);
+    renderChargeControls();
+
     const itemsList = document.getElementById('itemsList') as HTMLElement;
     const peopleColumns = document.getElementById('peopleColumns') as HTMLElement;
 
-    // Create items list - only show unassigned items
-    const unassignedItems = currentReceipt.items.filter(item =>
-        !item.assignedTo || item.assignedTo.length === 0
-    );
+    // Create items list - only show items with something left to assign
+    const unassignedItems = currentReceipt.items.filter(item => unassignedUnits(item) > 0);
 
     itemsList.innerHTML = unassignedItems.length > 0 ?
         unassignedItems.map((item, arrayIndex) => {
@@ -653,14 +1274,21 @@ function setupItemsAssignment(): void {
             );
 
             return `
-                <div class="item-card" draggable="true" data-item-index="${originalIndex}">
-                    <div class="item-name">${item.name}</div>
+                <div class="item-card ${isLowConfidence(item) ? 'low-confidence' : ''}" draggable="true" data-item-index="${originalIndex}">
+                    <div class="item-name">${item.name}${renderConfidenceFlag(item)}${renderTaxCategory(item)}</div>
                     <div class="item-details">
                         <span class="item-quantity">×${item.quantity}</span>
-                        <span class="item-price">$${(item.price * item.quantity).toFixed(2)}</span>
+                        <span class="item-price">${formatMoney(itemNetTotal(item), currentReceipt?.currency)}</span>
                     </div>
+                    ${renderItemAdjustments(item, currentReceipt?.currency)}
+                    ${renderUnitChips(item, originalIndex)}
                     <div class="item-status">
-                        <span class="unassigned-badge">Unassigned</span>
+                        <span class="unassigned-badge">${item.units?.length ? `${unassignedUnits(item)} of ${item.quantity} left` : 'Unassigned'}</span>
+                        ${item.quantity > 1 && !item.units?.length ? `
+                            <button type="button" class="unit-split-toggle" onclick="toggleUnitSplit(${originalIndex})">
+                                ${expandedUnitItems.has(originalIndex) ? 'Assign as a whole' : 'Split by unit'}
+                            </button>
+                        ` : ''}
                     </div>
                 </div>
             `;
@@ -682,9 +1310,10 @@ function setupItemsAssignment(): void {
                         i.name === item.name && i.price === item.price && i.quantity === item.quantity
                     );
                     return `
-                        <div class="assigned-item clickable" data-item-index="${originalIndex}" onclick="unassignItem(${originalIndex})" title="Click to unassign">
+                        <div class="assigned-item clickable" draggable="true" data-item-index="${originalIndex}" onclick="unassignItem(${originalIndex})" title="Click to unassign, or drag to someone else to share it">
                             <span>${item.name}</span>
-                            <span>$${(item.price * item.quantity / (item.assignedTo?.length || 1)).toFixed(2)}</span>
+                            ${item.units?.length ? renderUnitControl(item, originalIndex, person.id) : renderShareControl(item, originalIndex, person.id)}
+                            <span>${formatMoney(itemPersonShare(item, person.id), currentReceipt?.currency)}</span>
                             <span class="unassign-hint">×</span>
                         </div>
                     `;
@@ -695,52 +1324,358 @@ function setupItemsAssignment(): void {
 
     // Setup drag and drop
     setupDragAndDrop();
+    setupReceiptHighlighting();
     updatePersonTotals();
 }
 
-function setupDragAndDrop(): void {
-    console.log('Setting up drag and drop');
+let selectedItemIndex: number = -1;
 
-    // Add drag event listeners to items
-    const items = document.querySelectorAll('.item-card');
-    console.log('Found', items.length, 'draggable items');
+const CHARGE_DISTRIBUTION_LABELS: Record<Charge['distribution'], string> = {
+    proportional: 'Proportional to order',
+    equal: 'Split equally',
+    assigned: 'Specific people'
+};
 
-    items.forEach((item, index) => {
-        const htmlItem = item as HTMLElement;
-        htmlItem.setAttribute('draggable', 'true');
+// One distribution picker per service charge or fee, with people checkboxes for "Specific people"
+function renderChargeControls(): void {
+    const container = document.getElementById('chargeDistributionControls') as HTMLElement;
+    const charges = currentReceipt?.charges || [];
+
+    container.innerHTML = charges.map((charge, index) => `
+        <div class="charge-control">
+            <span class="charge-name">${charge.name} (${formatMoney(charge.amount, currentReceipt?.currency)})</span>
+            <select onchange="updateChargeDistribution(${index}, this.value)">
+                ${(Object.keys(CHARGE_DISTRIBUTION_LABELS) as Charge['distribution'][]).map(distribution => `
+                    <option value="${distribution}" ${charge.distribution === distribution ? 'selected' : ''}>${CHARGE_DISTRIBUTION_LABELS[distribution]}</option>
+                `).join('')}
+            </select>
+            ${charge.distribution === 'assigned' ? `
+                <div class="charge-assignees">
+                    ${currentSplitPeople.map(person => `
+                        <label>
+                            <input type="checkbox" ${charge.assignedTo.includes(person.id) ? 'checked' : ''}
+                                onchange="toggleChargeAssignee(${index}, '${person.id}', this.checked)">
+                            ${person.name}
+                        </label>
+                    `).join('')}
+                </div>
+            ` : ''}
+        </div>
+    `).join('');
+}
 
-        htmlItem.addEventListener('dragstart', handleDragStart);
-        htmlItem.addEventListener('dragend', handleDragEnd);
+function updateChargeDistribution(index: number, distribution: Charge['distribution']): void {
+    const charge = currentReceipt?.charges?.[index];
+    if (!charge) return;
 
-        console.log('Added drag listeners to item', index);
-    });
+    charge.distribution = distribution;
+    charge.assignedTo = [];
+    renderChargeControls();
+}
 
-    // Add drop event listeners to person columns and person column headers
-    const personColumns = document.querySelectorAll('.person-items');
-    const personColumnContainers = document.querySelectorAll('.person-column');
+function toggleChargeAssignee(index: number, personId: string, checked: boolean): void {
+    const charge = currentReceipt?.charges?.[index];
+    if (!charge) return;
 
-    console.log('Found', personColumns.length, 'person drop zones');
-    console.log('Found', personColumnContainers.length, 'person containers');
+    charge.assignedTo = checked
+        ? [...charge.assignedTo.filter(id => id !== personId), personId]
+        : charge.assignedTo.filter(id => id !== personId);
+}
 
-    // Add to both person-items and person-column for larger drop area
-    [...personColumns, ...personColumnContainers].forEach((column, index) => {
-        column.addEventListener('dragover', handleDragOver);
-        column.addEventListener('dragleave', handleDragLeave);
-        column.addEventListener('drop', handleDrop);
+// What an item costs after the discounts printed against it
+function itemNetTotal(item: ReceiptItem): number {
+    const discount = (item.adjustments || []).reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    return Math.max(0, item.price * item.quantity - discount);
+}
 
-        console.log('Added drop listeners to column', index);
-    });
+function itemShareWeight(item: ReceiptItem, personId: string): number {
+    return item.shares?.find(share => share.personId === personId)?.weight ?? 1;
+}
 
-    // Items now only support drag & drop - no click assignment modal
+function itemUnitCount(item: ReceiptItem, personId: string): number {
+    return item.units?.find(unit => unit.personId === personId)?.count ?? 0;
 }
 
-let draggedItem: HTMLElement | null = null;
-let draggedItemIndex: number = -1;
+// Units nobody has yet: all of an unassigned item, none of one shared as a whole
+function unassignedUnits(item: ReceiptItem): number {
+    if (item.units?.length) {
+        return Math.max(0, item.quantity - item.units.reduce((sum, unit) => sum + unit.count, 0));
+    }
+    return item.assignedTo && item.assignedTo.length > 0 ? 0 : item.quantity;
+}
 
-function handleDragStart(e: Event): void {
-    const dragEvent = e as DragEvent;
+// Preview of one person's portion of an item (the server allocates the odd units exactly)
+function itemPersonShare(item: ReceiptItem, personId: string): number {
+    if (item.units?.length) {
+        return Math.round(itemNetTotal(item) * itemUnitCount(item, personId) / item.quantity);
+    }
+
+    const totalShares = (item.assignedTo || []).reduce((sum, id) => sum + itemShareWeight(item, id), 0);
+    return totalShares > 0 ? Math.round(itemNetTotal(item) * itemShareWeight(item, personId) / totalShares) : 0;
+}
+
+// "shared" for an even split, "2 of 5 shares" otherwise
+function describeItemShare(item: SplitCalculation['items'][number]): string {
+    if (item.units !== undefined) return `${item.units} of ${item.totalShares}`;
+    const even = !item.shares || !item.totalShares || item.shares * (item.sharedWith.length + 1) === item.totalShares;
+    return even ? 'shared' : `${item.shares} of ${item.totalShares} shares`;
+}
+
+// "− 2 of 5 +" stepper on a shared item, for uneven portions like two of five slices or a 2:1 bottle
+function renderShareControl(item: ReceiptItem, itemIndex: number, personId: string): string {
+    if (!item.assignedTo || item.assignedTo.length < 2) return '';
+
+    const weight = itemShareWeight(item, personId);
+    const totalShares = item.assignedTo.reduce((sum, id) => sum + itemShareWeight(item, id), 0);
+    return `
+        <span class="share-control" onclick="event.stopPropagation()" title="${weight} of ${totalShares} shares">
+            <button type="button" ${weight <= 1 ? 'disabled' : ''} onclick="changeItemShare(${itemIndex}, '${personId}', -1)">−</button>
+            <span class="share-count">${weight}/${totalShares}</span>
+            <button type="button" onclick="changeItemShare(${itemIndex}, '${personId}', 1)">+</button>
+        </span>
+    `;
+}
+
+// Multi-quantity items expanded into units that can be dragged one at a time
+const expandedUnitItems = new Set<number>();
+
+function toggleUnitSplit(itemIndex: number): void {
+    if (expandedUnitItems.has(itemIndex)) {
+        expandedUnitItems.delete(itemIndex);
+    } else {
+        expandedUnitItems.add(itemIndex);
+    }
+    setupItemsAssignment();
+}
+
+// One draggable chip per unit still to assign, e.g. four "1 × Beer" chips
+function renderUnitChips(item: ReceiptItem, itemIndex: number): string {
+    if (!item.units?.length && !expandedUnitItems.has(itemIndex)) return '';
+
+    return `
+        <div class="unit-chips">
+            ${Array.from({ length: unassignedUnits(item) }, () => `
+                <div class="unit-chip" draggable="true" data-item-index="${itemIndex}" data-unit="true" title="Drag to the person who had this one">
+                    1 × ${item.name}
+                </div>
+            `).join('')}
+        </div>
+    `;
+}
+
+// "− ×2 +" stepper on an item split by unit
+function renderUnitControl(item: ReceiptItem, itemIndex: number, personId: string): string {
+    const count = itemUnitCount(item, personId);
+    return `
+        <span class="share-control" onclick="event.stopPropagation()" title="${count} of ${item.quantity}">
+            <button type="button" onclick="changeItemUnits(${itemIndex}, '${personId}', -1)">−</button>
+            <span class="share-count">×${count}</span>
+            <button type="button" ${unassignedUnits(item) === 0 ? 'disabled' : ''} onclick="changeItemUnits(${itemIndex}, '${personId}', 1)">+</button>
+        </span>
+    `;
+}
+
+async function changeItemUnits(itemIndex: number, personId: string, change: number): Promise<void> {
+    const item = currentReceipt?.items[itemIndex];
+    if (!currentReceipt || !item) return;
+
+    const units: Record<string, number> = {};
+    (item.units || []).forEach(unit => {
+        units[unit.personId] = unit.count;
+    });
+    units[personId] = Math.max(0, (units[personId] || 0) + Math.min(change, unassignedUnits(item)));
+
+    try {
+        const result = await assignItemToPeople(currentReceipt._id, itemIndex, [], undefined, { units });
+        Object.assign(item, { assignedTo: result.item.assignedTo, shares: result.item.shares, units: result.item.units });
+        if (!item.units?.length) expandedUnitItems.delete(itemIndex);
+        setupItemsAssignment();
+    } catch (error) {
+        showToast('Failed to assign units', 'error');
+    }
+}
+
+async function changeItemShare(itemIndex: number, personId: string, change: number): Promise<void> {
+    const item = currentReceipt?.items[itemIndex];
+    if (!currentReceipt || !item) return;
+
+    const shares: Record<string, number> = {};
+    item.assignedTo.forEach(id => {
+        shares[id] = itemShareWeight(item, id);
+    });
+    shares[personId] = Math.max(1, shares[personId] + change);
+
+    try {
+        const result = await assignItemToPeople(currentReceipt._id, itemIndex, item.assignedTo, undefined, { shares });
+        item.shares = result.item.shares;
+        setupItemsAssignment();
+    } catch (error) {
+        showToast('Failed to update shares', 'error');
+    }
+}
+
+const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+    standard: '',
+    alcohol: 'Alcohol tax',
+    grocery: 'Grocery rate',
+    exempt: 'No tax'
+};
+
+function renderTaxCategory(item: ReceiptItem): string {
+    const label = TAX_CATEGORY_LABELS[item.taxCategory || 'standard'];
+    return label ? ` <span class="tax-category tax-category-${item.taxCategory}">${label}</span>` : '';
+}
+
+function renderItemAdjustments(item: ReceiptItem, currency?: string): string {
+    if (!item.adjustments || item.adjustments.length === 0) {
+        return '';
+    }
+
+    return `
+        <div class="item-adjustments">
+            ${item.adjustments.map(adjustment => `
+                <span class="adjustment adjustment-${adjustment.kind}">${adjustment.name} −${formatMoney(adjustment.amount, currency)}</span>
+            `).join('')}
+        </div>
+    `;
+}
+
+function isLowConfidence(item: ReceiptItem): boolean {
+    return item.confidence !== undefined && item.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+// Small "check this" marker with the reasons in its tooltip
+function renderConfidenceFlag(item: ReceiptItem): string {
+    if (!isLowConfidence(item)) {
+        return '';
+    }
+
+    const reasons = item.confidenceReasons && item.confidenceReasons.length > 0
+        ? item.confidenceReasons.join('\n')
+        : 'This line was hard to read';
+    const title = `${Math.round(item.confidence!)}% confident\n${reasons}`.replace(/"/g, '&quot;');
+
+    return ` <span class="confidence-flag" title="${title}">⚠ Check</span>`;
+}
+
+// Show the receipt image next to the items and point at each item's line when hovered or clicked
+function setupReceiptHighlighting(): void {
+    const preview = document.getElementById('receiptPreview') as HTMLElement;
+    const image = document.getElementById('receiptPreviewImage') as HTMLImageElement;
+
+    if (!currentReceipt?.signedImageUrl) {
+        preview.classList.add('hidden');
+        return;
+    }
+
+    if (image.getAttribute('src') !== currentReceipt.signedImageUrl) {
+        image.src = currentReceipt.signedImageUrl;
+    }
+    preview.classList.remove('hidden');
+
+    document.querySelectorAll('.item-card, .assigned-item').forEach(element => {
+        const htmlElement = element as HTMLElement;
+        const itemIndex = parseInt(htmlElement.dataset.itemIndex || '-1');
+
+        htmlElement.addEventListener('mouseenter', () => highlightReceiptItem(itemIndex));
+        htmlElement.addEventListener('mouseleave', () => highlightReceiptItem(selectedItemIndex));
+    });
+
+    document.querySelectorAll('.item-card').forEach(element => {
+        const htmlElement = element as HTMLElement;
+        htmlElement.addEventListener('click', () => {
+            const itemIndex = parseInt(htmlElement.dataset.itemIndex || '-1');
+            selectedItemIndex = selectedItemIndex === itemIndex ? -1 : itemIndex;
+
+            document.querySelectorAll('.item-card.selected').forEach(card => card.classList.remove('selected'));
+            if (selectedItemIndex !== -1) {
+                htmlElement.classList.add('selected');
+            }
+            highlightReceiptItem(selectedItemIndex);
+        });
+    });
+
+    highlightReceiptItem(selectedItemIndex);
+}
+
+function highlightReceiptItem(itemIndex: number): void {
+    const highlight = document.getElementById('receiptHighlight') as HTMLElement;
+    const hint = document.getElementById('receiptPreviewHint') as HTMLElement;
+    const item = currentReceipt && itemIndex >= 0 ? currentReceipt.items[itemIndex] : undefined;
+
+    if (!item) {
+        highlight.classList.add('hidden');
+        hint.textContent = 'Hover or click an item to see where it is on the receipt';
+        return;
+    }
+
+    if (!item.sourceRegion) {
+        highlight.classList.add('hidden');
+        hint.textContent = `Couldn't find "${item.name}" on the receipt image`;
+        return;
+    }
+
+    // Regions are fractions of the image, so percentages line up at any display size
+    const region = item.sourceRegion;
+    highlight.style.left = `${region.left * 100}%`;
+    highlight.style.top = `${region.top * 100}%`;
+    highlight.style.width = `${region.width * 100}%`;
+    highlight.style.height = `${region.height * 100}%`;
+    highlight.classList.remove('hidden');
+    hint.textContent = item.name;
+
+    // Keep the highlighted line in view on long receipts
+    const frame = highlight.parentElement as HTMLElement;
+    const preview = document.getElementById('receiptPreview') as HTMLElement;
+    const targetTop = frame.offsetTop + highlight.offsetTop - preview.clientHeight / 2;
+    preview.scrollTo({ top: Math.max(0, targetTop), behavior: 'smooth' });
+}
+
+function setupDragAndDrop(): void {
+    console.log('Setting up drag and drop');
+
+    // Add drag event listeners to items, including assigned ones so they can be shared with someone else
+    const items = document.querySelectorAll('.item-card, .assigned-item, .unit-chip');
+    console.log('Found', items.length, 'draggable items');
+
+    items.forEach((item, index) => {
+        const htmlItem = item as HTMLElement;
+        htmlItem.setAttribute('draggable', 'true');
+
+        htmlItem.addEventListener('dragstart', handleDragStart);
+        htmlItem.addEventListener('dragend', handleDragEnd);
+
+        console.log('Added drag listeners to item', index);
+    });
+
+    // Add drop event listeners to person columns and person column headers
+    const personColumns = document.querySelectorAll('.person-items');
+    const personColumnContainers = document.querySelectorAll('.person-column');
+
+    console.log('Found', personColumns.length, 'person drop zones');
+    console.log('Found', personColumnContainers.length, 'person containers');
+
+    // Add to both person-items and person-column for larger drop area
+    [...personColumns, ...personColumnContainers].forEach((column, index) => {
+        column.addEventListener('dragover', handleDragOver);
+        column.addEventListener('dragleave', handleDragLeave);
+        column.addEventListener('drop', handleDrop);
+
+        console.log('Added drop listeners to column', index);
+    });
+
+    // Items now only support drag & drop - no click assignment modal
+}
+
+let draggedItem: HTMLElement | null = null;
+let draggedItemIndex: number = -1;
+let draggedUnit: boolean = false; // A single unit chip rather than the whole item
+
+function handleDragStart(e: Event): void {
+    const dragEvent = e as DragEvent;
     draggedItem = dragEvent.target as HTMLElement;
     draggedItemIndex = parseInt(draggedItem.dataset.itemIndex || '-1');
+    draggedUnit = draggedItem.dataset.unit === 'true';
 
     console.log('Drag started for item index:', draggedItemIndex);
 
@@ -760,6 +1695,7 @@ function handleDragEnd(e: Event): void {
         draggedItem.classList.remove('dragging');
         draggedItem = null;
         draggedItemIndex = -1;
+        draggedUnit = false;
     }
 
     // Clean up any remaining drag-over states
@@ -827,7 +1763,13 @@ function handleDrop(e: Event): void {
     }
 
     console.log('Assigning item', draggedItemIndex, 'to person', personId);
-    assignItemToPerson(draggedItemIndex, personId);
+    const item = currentReceipt.items[draggedItemIndex];
+    if (draggedUnit || item.units?.length) {
+        // One unit from a chip, or every unit left when the card of an item split by unit is dragged
+        changeItemUnits(draggedItemIndex, personId, draggedUnit ? 1 : unassignedUnits(item));
+    } else {
+        assignItemToPerson(draggedItemIndex, personId);
+    }
 }
 
 // Modal assignment functions removed - using drag & drop + click to unassign only
@@ -847,10 +1789,11 @@ async function assignItemToPerson(itemIndex: number, personId: string): Promise<
             newAssignments = [...currentAssignments, personId];
         }
 
-        await assignItemToPeople(currentReceipt._id, itemIndex, newAssignments);
+        const result = await assignItemToPeople(currentReceipt._id, itemIndex, newAssignments);
 
         // Update local state
         currentReceipt.items[itemIndex].assignedTo = newAssignments;
+        currentReceipt.items[itemIndex].shares = result.item.shares;
 
         // Refresh display
         setupItemsAssignment();
@@ -868,13 +1811,13 @@ function updatePersonTotals(): void {
 
         currentReceipt!.items.forEach(item => {
             if (item.assignedTo && item.assignedTo.includes(person.id)) {
-                total += (item.price * item.quantity) / item.assignedTo.length;
+                total += itemPersonShare(item, person.id);
             }
         });
 
         const totalElement = document.querySelector(`[data-person-id="${person.id}"] .person-total`) as HTMLElement;
         if (totalElement) {
-            totalElement.textContent = `$${total.toFixed(2)}`;
+            totalElement.textContent = formatMoney(total, currentReceipt?.currency);
         }
     });
 }
@@ -885,110 +1828,54 @@ async function calculateSplit(): Promise<void> {
     try {
         showLoading();
 
-        // Check which split method is selected
-        const itemMethod = document.getElementById('itemMethod') as HTMLInputElement;
-        const isItemBasedSplit = itemMethod?.checked;
-
-        if (isItemBasedSplit) {
-            // Item-based splitting (existing logic)
-            const taxDistribution = (document.getElementById('taxDistribution') as HTMLSelectElement).value;
-            const tipDistribution = (document.getElementById('tipDistribution') as HTMLSelectElement).value;
+        // Every split method is worked out on the server, so exports and summaries match what's shown here
+        const mode = selectedSplitMode();
+        const taxDistribution = (document.getElementById('taxDistribution') as HTMLSelectElement).value;
+        const tipDistribution = (document.getElementById('tipDistribution') as HTMLSelectElement).value;
 
-            await updateDistribution(currentReceipt._id, taxDistribution, tipDistribution);
-            const result = await getSplitCalculation(currentReceipt._id);
-            currentSplitCalculations = result.splits;
-
-            showSplitStep('results');
-            displaySplitResults(result.splits, result.stats, result.unassignedItems);
-        } else {
-            // Percentage-based splitting
-            const percentageCalculations = calculatePercentageSplit();
-            currentSplitCalculations = percentageCalculations;
-
-            showSplitStep('results');
-            displayPercentageResults(percentageCalculations);
+        if (currentReceipt.charges && currentReceipt.charges.some(charge =>
+            charge.distribution === 'assigned' && charge.assignedTo.length === 0
+        )) {
+            showToast('Choose who pays each fee you assigned to specific people', 'error');
+            return;
         }
+
+        const distribution = await updateDistribution(currentReceipt._id, taxDistribution, tipDistribution, currentReceipt.charges);
+        currentReceipt.charges = distribution.charges;
+        // The tip changes the total, which fixed amounts are checked against
+        const tip = await updateTip(currentReceipt._id, readTip());
+        currentReceipt.tip = tip.tip;
+        currentReceipt.total = tip.total;
+        currentReceipt.tipPercentage = tip.tipPercentage;
+        currentReceipt.tipBasis = tip.tipBasis;
+        currentReceipt.tipOverrides = tip.tipOverrides;
+        currentReceipt.printedTip = tip.printedTip;
+        currentReceipt.printedTotal = tip.printedTotal;
+        updatePrintedTotalNote();
+        const splitMode = await updateSplitMode(currentReceipt._id, mode, readSplitTargets(mode));
+        currentReceipt.splitMode = splitMode.splitMode;
+        currentReceipt.splitTargets = splitMode.splitTargets;
+        const result = await getSplitCalculation(currentReceipt._id);
+        currentSplitCalculations = result.splits;
+
+        showSplitStep('results');
+        displaySplitResults(result.splits, result.stats, result.unassignedItems, result.settlement);
     } catch (error) {
-        showToast('Failed to calculate split', 'error');
+        showToast(`Failed to calculate split: ${(error as Error).message}`, 'error');
     } finally {
         hideLoading();
     }
 }
 
-function calculatePercentageSplit(): SplitCalculation[] {
-    if (!currentReceipt) return [];
-
-    const sliders = document.querySelectorAll('.percentage-slider') as NodeListOf<HTMLInputElement>;
-    const calculations: SplitCalculation[] = [];
-
-    sliders.forEach(slider => {
-        const personId = slider.dataset.personId || '';
-        const percentage = parseInt(slider.value);
-        const person = currentSplitPeople.find(p => p.id === personId);
-
-        if (person && percentage > 0) {
-            const totalAmount = currentReceipt!.total * (percentage / 100);
-            const subtotalAmount = currentReceipt!.subtotal * (percentage / 100);
-            const taxAmount = currentReceipt!.tax * (percentage / 100);
-            const tipAmount = currentReceipt!.tip * (percentage / 100);
-
-            calculations.push({
-                personId: person.id,
-                name: person.name,
-                subtotal: subtotalAmount,
-                taxShare: taxAmount,
-                tipShare: tipAmount,
-                total: totalAmount,
-                items: [] // No specific items for percentage split
-            });
-        }
-    });
-
-    return calculations;
-}
-
-function displayPercentageResults(calculations: SplitCalculation[]): void {
-    const resultsContainer = document.getElementById('splitResults') as HTMLElement;
-
-    const html = `
-        <div class="split-summary">
-            <h4>💰 Split Results (By Percentage)</h4>
-            <div class="split-results-grid">
-                ${calculations.map(calc => `
-                    <div class="person-result">
-                        <h5>${calc.name}</h5>
-                        <div class="person-breakdown">
-                            <div class="breakdown-line total">
-                                <span>Total:</span>
-                                <span>$${calc.total.toFixed(2)}</span>
-                            </div>
-                            <div class="breakdown-line">
-                                <span>Food:</span>
-                                <span>$${calc.subtotal.toFixed(2)}</span>
-                            </div>
-                            <div class="breakdown-line">
-                                <span>Tax:</span>
-                                <span>$${calc.taxShare.toFixed(2)}</span>
-                            </div>
-                            <div class="breakdown-line">
-                                <span>Tip:</span>
-                                <span>$${calc.tipShare.toFixed(2)}</span>
-                            </div>
-                        </div>
-                    </div>
-                `).join('')}
-            </div>
-            <div class="total-verification">
-                <strong>Grand Total: $${calculations.reduce((sum, calc) => sum + calc.total, 0).toFixed(2)}</strong>
-                <span>(Original: $${currentReceipt?.total.toFixed(2)})</span>
-            </div>
-        </div>
-    `;
-
-    resultsContainer.innerHTML = html;
-}
+const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+    itemized: 'By items',
+    hybrid: 'By items, rest equally',
+    equal: 'Equally',
+    percentage: 'By percentage',
+    fixed: 'By set amounts'
+};
 
-function displaySplitResults(splits: SplitCalculation[], stats: any, unassignedItems: any[]): void {
+function displaySplitResults(splits: SplitCalculation[], stats: any, unassignedItems: any[], settlement?: Settlement): void {
     const resultsContainer = document.getElementById('splitResults') as HTMLElement;
 
     let html = `
@@ -997,12 +1884,22 @@ function displaySplitResults(splits: SplitCalculation[], stats: any, unassignedI
             <div class="summary-stats">
                 <div class="stat">
                     <span class="stat-label">Total Amount:</span>
-                    <span class="stat-value">$${currentReceipt?.total.toFixed(2)}</span>
+                    <span class="stat-value">${formatMoney(currentReceipt?.total || 0, currentReceipt?.currency)}</span>
                 </div>
+                ${currentReceipt?.printedTotal !== undefined && currentReceipt.printedTotal !== currentReceipt.total ? `
+                    <div class="stat">
+                        <span class="stat-label">Printed Total:</span>
+                        <span class="stat-value">${formatMoney(currentReceipt.printedTotal, currentReceipt.currency)}</span>
+                    </div>
+                ` : ''}
                 <div class="stat">
                     <span class="stat-label">People:</span>
                     <span class="stat-value">${splits.length}</span>
                 </div>
+                <div class="stat">
+                    <span class="stat-label">Split:</span>
+                    <span class="stat-value">${SPLIT_MODE_LABELS[currentReceipt?.splitMode || 'itemized']}</span>
+                </div>
             </div>
         </div>
     `;
@@ -1014,7 +1911,7 @@ function displaySplitResults(splits: SplitCalculation[], stats: any, unassignedI
                 <p>The following items haven't been assigned to anyone:</p>
                 <ul>
                     ${unassignedItems.map(item => `
-                        <li>${item.name} - $${(item.price * item.quantity).toFixed(2)}</li>
+                        <li>${item.name} - ${formatMoney(item.price * item.quantity, currentReceipt?.currency)}</li>
                     `).join('')}
                 </ul>
             </div>
@@ -1027,28 +1924,64 @@ function displaySplitResults(splits: SplitCalculation[], stats: any, unassignedI
                 <div class="person-split">
                     <div class="person-split-header">
                         <h4>${split.name}</h4>
-                        <div class="person-split-total">$${split.total.toFixed(2)}</div>
+                        <div class="person-split-total">${formatMoney(split.total, currentReceipt?.currency)}</div>
                     </div>
                     <div class="person-split-breakdown">
                         <div class="breakdown-line">
                             <span>Subtotal:</span>
-                            <span>$${split.subtotal.toFixed(2)}</span>
+                            <span>${formatMoney(split.subtotal, currentReceipt?.currency)}</span>
                         </div>
+                        ${split.discountShare ? `
+                            <div class="breakdown-line discount-line">
+                                <span>Discounts:</span>
+                                <span>−${formatMoney(split.discountShare, currentReceipt?.currency)}</span>
+                            </div>
+                        ` : ''}
                         <div class="breakdown-line">
                             <span>Tax:</span>
-                            <span>$${split.taxShare.toFixed(2)}</span>
+                            <span>${formatMoney(split.taxShare, currentReceipt?.currency)}</span>
                         </div>
                         <div class="breakdown-line">
-                            <span>Tip:</span>
-                            <span>$${split.tipShare.toFixed(2)}</span>
+                            <span>Tip${split.tipPercentage !== undefined ? ` (${split.tipPercentage}%)` : ''}:</span>
+                            <span>${formatMoney(split.tipShare, currentReceipt?.currency)}</span>
                         </div>
+                        ${(split.charges || []).filter(charge => charge.shareAmount > 0).map(charge => `
+                            <div class="breakdown-line">
+                                <span>${charge.name}:</span>
+                                <span>${formatMoney(charge.shareAmount, currentReceipt?.currency)}</span>
+                            </div>
+                        `).join('')}
+                        ${split.roundingShare ? `
+                            <div class="breakdown-line rounding-line">
+                                <span>Rounding to the printed total:</span>
+                                <span>${formatMoney(split.roundingShare, currentReceipt?.currency)}</span>
+                            </div>
+                        ` : ''}
+                        ${split.leftoverUnits ? `
+                            <div class="breakdown-line rounding-line" title="Shares that didn't divide evenly leave a few units over, handed out in turn">
+                                <span>Includes leftover pennies:</span>
+                                <span>${formatMoney(split.leftoverUnits, currentReceipt?.currency)}</span>
+                            </div>
+                        ` : ''}
+                        ${split.paid ? `
+                            <div class="breakdown-line">
+                                <span>Paid:</span>
+                                <span>${formatMoney(split.paid, currentReceipt?.currency)}</span>
+                            </div>
+                        ` : ''}
+                        ${currentReceipt?.payers && currentReceipt.payers.length > 0 && split.balance ? `
+                            <div class="breakdown-line ${split.balance > 0 ? 'balance-owed' : 'balance-owing'}">
+                                <span>${split.balance > 0 ? 'Owed back:' : 'Owes:'}</span>
+                                <span>${formatMoney(Math.abs(split.balance), currentReceipt?.currency)}</span>
+                            </div>
+                        ` : ''}
                     </div>
                     <div class="person-items">
                         <h5>Items:</h5>
                         ${split.items.map(item => `
                             <div class="split-item">
-                                <span>${item.itemName}${item.sharedWith.length > 0 ? ' (shared)' : ''}</span>
-                                <span>$${item.shareAmount.toFixed(2)}</span>
+                                <span>${item.itemName}${item.sharedWith.length > 0 || item.units !== undefined ? ` (${describeItemShare(item)})` : ''}${item.discount ? ` <span class="discount-line">(−${formatMoney(item.discount, currentReceipt?.currency)})</span>` : ''}</span>
+                                <span>${formatMoney(item.shareAmount, currentReceipt?.currency)}${item.leftoverUnits ? ` <span class="leftover-marker" title="Includes ${formatMoney(item.leftoverUnits, currentReceipt?.currency)} left over from sharing this item">+</span>` : ''}</span>
                             </div>
                         `).join('')}
                     </div>
@@ -1057,9 +1990,97 @@ function displaySplitResults(splits: SplitCalculation[], stats: any, unassignedI
         </div>
     `;
 
+    html += renderSettlement(settlement);
+
     resultsContainer.innerHTML = html;
 }
 
+// What each person paid towards the bill, and who owes whom to settle up
+function renderSettlement(settlement?: Settlement): string {
+    if (!currentReceipt) return '';
+
+    const currency = currentReceipt.currency || 'USD';
+    const digits = minorUnitDigits(currency);
+    const paid = new Map((currentReceipt.payers || []).map(payer => [payer.personId, payer.amount]));
+
+    return `
+        <div class="settlement">
+            <h4>💳 Who paid?</h4>
+            <div class="percentage-controls">
+                ${currentSplitPeople.map(person => `
+                    <div class="percentage-control">
+                        <label for="paid-${person.id}">${person.name}</label>
+                        <input
+                            type="number"
+                            id="paid-${person.id}"
+                            min="0"
+                            step="${1 / 10 ** digits}"
+                            placeholder="Didn't pay"
+                            value="${paid.has(person.id) ? (paid.get(person.id)! / 10 ** digits).toFixed(digits) : ''}"
+                            data-person-id="${person.id}"
+                            class="payer-amount-input"
+                        >
+                        <button class="btn-secondary" onclick="payWholeBill('${person.id}')">Paid it all</button>
+                    </div>
+                `).join('')}
+            </div>
+            <button class="btn-primary" onclick="savePayers()">Settle Up</button>
+            ${settlement && settlement.transfers.length > 0 ? `
+                <ul class="settlement-transfers">
+                    ${settlement.transfers.map(transfer => `
+                        <li>${transfer.fromName} owes ${transfer.toName} <strong>${formatMoney(transfer.amount, currency)}</strong></li>
+                    `).join('')}
+                </ul>
+            ` : ''}
+            ${settlement && paid.size > 0 && settlement.unsettled !== 0 ? `
+                <p class="split-content-hint">
+                    ${settlement.unsettled > 0
+                        ? `${formatMoney(settlement.unsettled, currency)} of the bill hasn't been paid by anyone yet`
+                        : `${formatMoney(-settlement.unsettled, currency)} more was paid than the bill comes to`}
+                </p>
+            ` : ''}
+        </div>
+    `;
+}
+
+// One person covered the bill: their amount is everyone's total, and nobody else paid
+function payWholeBill(personId: string): void {
+    const digits = minorUnitDigits(currentReceipt?.currency || 'USD');
+    const total = currentSplitCalculations.reduce((sum, split) => sum + split.total, 0);
+    const inputs = document.querySelectorAll('.payer-amount-input') as NodeListOf<HTMLInputElement>;
+
+    inputs.forEach(input => {
+        input.value = input.dataset.personId === personId ? (total / 10 ** digits).toFixed(digits) : '';
+    });
+}
+
+async function savePayers(): Promise<void> {
+    if (!currentReceipt) return;
+
+    const digits = minorUnitDigits(currentReceipt.currency || 'USD');
+    const inputs = document.querySelectorAll('.payer-amount-input') as NodeListOf<HTMLInputElement>;
+    const payers = Array.from(inputs)
+        .filter(input => input.value.trim() !== '' && parseFloat(input.value) > 0)
+        .map(input => ({
+            personId: input.dataset.personId || '',
+            amount: Math.round(parseFloat(input.value) * 10 ** digits)
+        }));
+
+    try {
+        showLoading();
+
+        const result = await updatePayers(currentReceipt._id, payers);
+        currentReceipt.payers = result.payers;
+        const split = await getSplitCalculation(currentReceipt._id);
+        currentSplitCalculations = split.splits;
+        displaySplitResults(split.splits, split.stats, split.unassignedItems, split.settlement);
+    } catch (error) {
+        showToast(`Failed to save who paid: ${(error as Error).message}`, 'error');
+    } finally {
+        hideLoading();
+    }
+}
+
 // Export and Share Functions
 async function exportSummary(): Promise<void> {
     if (!currentReceipt) return;
@@ -1136,41 +2157,28 @@ async function saveSplit(): Promise<void> {
         console.log('Split calculations:', splitCalculations);
         console.log('Current split people:', currentSplitPeople);
 
-        // Find the "Me" person's total amount - check multiple patterns
-        const mePerson = splitCalculations.find(calc => {
-            const nameLower = calc.name.toLowerCase();
-            return nameLower === 'me' ||
-                   calc.personId.includes('person_me_') ||
-                   calc.personId.includes('me_');
-        });
-
-        console.log('Found me person:', mePerson);
+        // Find the user's own total through the person linked to their account
+        const mePerson = currentUserSplit(currentReceipt, splitCalculations);
 
         if (!mePerson) {
-            showToast('Could not find your amount in the split. Make sure you have assigned items to yourself.', 'error');
+            showToast('Could not find your amount in the split. Make sure you are one of the people on the receipt.', 'error');
             console.error('Available people in split:', splitCalculations.map(calc => ({ name: calc.name, id: calc.personId })));
             return;
         }
 
-        const userAmount = mePerson.total;
-        console.log('User amount to save:', userAmount);
-
-        if (userAmount <= 0) {
+        if (mePerson.total <= 0) {
             showToast('Your amount is $0. Please assign some items to yourself before saving.', 'error');
             return;
         }
 
-        // Finalize the split with the user's amount
-        console.log('Current user for finalize split:', currentUser);
-        console.log('User ID being sent:', currentUser?.id);
-        console.log('Token being sent:', currentUser?.token);
-        await finalizeSplit(currentReceipt._id, userAmount);
+        // Finalize the split - the server works out the user's amount the same way
+        const { userAmount } = await finalizeSplit(currentReceipt._id);
 
-        showToast(`Split saved successfully! Your amount: $${userAmount.toFixed(2)}`, 'success');
+        showToast(`Split saved successfully! Your amount: ${formatMoney(userAmount, currentReceipt?.currency)}`, 'success');
 
         // Ask if user wants to see the final split summary
         const showSummary = confirm(
-            `Split saved successfully! Your amount: $${userAmount.toFixed(2)}\n\n` +
+            `Split saved successfully! Your amount: ${formatMoney(userAmount, currentReceipt?.currency)}\n\n` +
             `Would you like to see the complete split summary before closing?`
         );
 
@@ -1205,25 +2213,26 @@ async function showCompletedSplitSummary(receipt: Receipt, splitCalculations: Sp
                 <div class="modal-body">
                     <div class="completed-split-summary">
                         <div class="user-highlight">
-                            <h3>💰 Your Amount: $${userAmount.toFixed(2)}</h3>
+                            <h3>💰 Your Amount: ${formatMoney(userAmount, receipt.currency)}</h3>
                             <p>This amount has been added to your restaurant history.</p>
                         </div>
 
                         <div class="split-breakdown">
                             <h4>Complete Split Breakdown:</h4>
                             ${splitCalculations.map(calc => `
-                                <div class="person-summary ${calc.name.toLowerCase() === 'me' || calc.personId.includes('person_me_') ? 'highlight-user' : ''}">
-                                    <div class="person-name">${calc.name}${calc.name.toLowerCase() === 'me' || calc.personId.includes('person_me_') ? ' (You)' : ''}</div>
-                                    <div class="person-amount">$${calc.total.toFixed(2)}</div>
+                                <div class="person-summary ${calc === currentUserSplit(receipt, splitCalculations) ? 'highlight-user' : ''}">
+                                    <div class="person-name">${calc.name}${calc === currentUserSplit(receipt, splitCalculations) ? ' (You)' : ''}</div>
+                                    <div class="person-amount">${formatMoney(calc.total, receipt.currency)}</div>
                                     <div class="person-details">
-                                        Food: $${calc.subtotal.toFixed(2)} |
-                                        Tax: $${calc.taxShare.toFixed(2)} |
-                                        Tip: $${calc.tipShare.toFixed(2)}
+                                        Food: ${formatMoney(calc.subtotal, receipt.currency)} |
+                                        Tax: ${formatMoney(calc.taxShare, receipt.currency)} |
+                                        Tip: ${formatMoney(calc.tipShare, receipt.currency)}${calc.roundingShare ? ` |
+                                        Rounding: ${formatMoney(calc.roundingShare, receipt.currency)}` : ''}
                                     </div>
                                     ${calc.items.length > 0 ? `
                                         <div class="person-items">
                                             ${calc.items.map(item => `
-                                                <span class="item-tag">${item.itemName}: $${item.shareAmount.toFixed(2)}</span>
+                                                <span class="item-tag">${item.itemName}${item.units !== undefined ? ` ×${item.units}` : ''}: ${formatMoney(item.shareAmount, receipt.currency)}</span>
                                             `).join('')}
                                         </div>
                                     ` : ''}
@@ -1232,8 +2241,8 @@ async function showCompletedSplitSummary(receipt: Receipt, splitCalculations: Sp
                         </div>
 
                         <div class="receipt-total">
-                            <strong>Original Total: $${receipt.total.toFixed(2)}</strong><br>
-                            <strong>Split Total: $${splitCalculations.reduce((sum, calc) => sum + calc.total, 0).toFixed(2)}</strong>
+                            <strong>Original Total: ${formatMoney(receipt.total, receipt.currency)}</strong><br>
+                            <strong>Split Total: ${formatMoney(splitCalculations.reduce((sum, calc) => sum + calc.total, 0), receipt.currency)}</strong>
                         </div>
                     </div>
                 </div>
@@ -1323,6 +2332,7 @@ function closeSplitModal(): void {
     currentReceipt = null;
     currentSplitPeople = [];
     currentSplitCalculations = [];
+    selectedItemIndex = -1;
 
     // Refresh receipts to show updated data
     loadReceipts();
@@ -1338,6 +2348,8 @@ function unassignItem(itemIndex: number): void {
     const item = currentReceipt.items[itemIndex];
     if (item) {
         item.assignedTo = []; // Clear all assignments
+        item.shares = [];
+        item.units = [];
         setupItemsAssignment(); // Refresh the display
         showToast(`"${item.name}" has been unassigned`, 'success');
     }
@@ -1346,6 +2358,13 @@ function unassignItem(itemIndex: number): void {
 // Global functions for onclick handlers
 (window as any).removePersonFromSplit = removePersonFromSplit;
 (window as any).unassignItem = unassignItem;
+(window as any).updateChargeDistribution = updateChargeDistribution;
+(window as any).toggleChargeAssignee = toggleChargeAssignee;
+(window as any).changeItemShare = changeItemShare;
+(window as any).changeItemUnits = changeItemUnits;
+(window as any).toggleUnitSplit = toggleUnitSplit;
+(window as any).payWholeBill = payWholeBill;
+(window as any).savePayers = savePayers;
 // Modal functions removed
 
 // Delete receipt confirmation function
@@ -1466,7 +2485,7 @@ function displayRestaurants(restaurants: Restaurant[]): void {
                 </div>
                 <div class="stat">
                     <span class="stat-label">Your Total Spent:</span>
-                    <span class="stat-value">$${restaurant.totalSpent.toFixed(2)}</span>
+                    <span class="stat-value">${formatMoney(restaurant.totalSpent, restaurant.currency)}</span>
                     <span class="stat-note">💡 Only your portion from splits</span>
                 </div>
             </div>
@@ -1646,8 +2665,8 @@ function displayRestaurantVisits(receipts: Receipt[]): void {
             </div>
             <div class="visit-amount">
                 ${receipt.isComplete ?
-                    `$${calculateUserAmountFromReceipt(receipt).toFixed(2)} (Your portion)` :
-                    `$${receipt.total.toFixed(2)} (Full amount)`
+                    `${formatMoney(calculateUserAmountFromReceipt(receipt), receipt.currency)} (Your portion)` :
+                    `${formatMoney(receipt.total, receipt.currency)} (Full amount)`
                 }
             </div>
             <div class="visit-details">
@@ -1676,9 +2695,7 @@ function calculateUserAmountFromReceipt(receipt: Receipt): number {
         return receipt.total; // Fallback to full amount if no split data
     }
 
-    const userSplit = receipt.splitCalculations.find(calc =>
-        calc.name.toLowerCase() === 'me' || calc.personId.includes('person_me_')
-    );
+    const userSplit = currentUserSplit(receipt, receipt.splitCalculations);
 
     return userSplit ? userSplit.total : receipt.total;
 }
@@ -1727,11 +2744,16 @@ async function recalculateRestaurantTotals(): Promise<void> {
 
     try {
         showLoading();
-        const result = await apiCall<{success: boolean; updated: number; message: string}>('/receipts/restaurants/recalculate', {
+        const result = await apiCall<{success: boolean; updated: number; message: string; skipped: RecalculationSkip[]}>('/receipts/restaurants/recalculate', {
             method: 'POST'
         });
 
-        showToast(`Restaurant totals recalculated! Updated ${result.updated} restaurants.`, 'success');
+        if (result.skipped.length > 0) {
+            const currencies = [...new Set(result.skipped.map(skip => skip.currency))].join(', ');
+            showToast(`Updated ${result.updated} restaurants, leaving out ${result.skipped.length} receipts in ${currencies} (no exchange rate)`, 'info');
+        } else {
+            showToast(`Restaurant totals recalculated! Updated ${result.updated} restaurants.`, 'success');
+        }
         await loadRestaurants(); // Refresh the display
     } catch (error) {
         showToast('Failed to recalculate restaurant totals', 'error');
@@ -1743,9 +2765,9 @@ async function recalculateRestaurantTotals(): Promise<void> {
 async function exportRestaurantHistory(): Promise<void> {
     try {
         const result = await getRestaurants();
-        const csvContent = 'Restaurant,Visits,Total Spent,Last Visit,Is Favorite\n' +
+        const csvContent = 'Restaurant,Visits,Total Spent,Currency,Last Visit,Is Favorite\n' +
             result.restaurants.map(r =>
-                `"${r.name}",${r.visitCount},$${r.totalSpent.toFixed(2)},${new Date(r.lastVisit).toLocaleDateString()},${r.isFavorite ? 'Yes' : 'No'}`
+                `"${r.name}",${r.visitCount},${toDecimalString(r.totalSpent, r.currency)},${r.currency || 'USD'},${new Date(r.lastVisit).toLocaleDateString()},${r.isFavorite ? 'Yes' : 'No'}`
             ).join('\n');
 
         const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -1776,6 +2798,114 @@ async function exportRestaurantHistory(): Promise<void> {
 (window as any).deleteRestaurantFromHistory = deleteRestaurantFromHistory;
 (window as any).clearAllRestaurants = clearAllRestaurants;
 
+// Receipt processing progress
+const PROCESSING_POLL_INTERVAL = 2000;
+const processingWatchers = new Map<string, number>();
+
+const processingStageLabels: Record<NonNullable<Receipt['processingStage']>, string> = {
+    queued: 'Waiting to be processed',
+    downloading: 'Preparing image',
+    ocr: 'Reading text',
+    parsing: 'Finding items and totals',
+    saving: 'Saving'
+};
+
+function describeProcessing(status: { processingStatus: Receipt['processingStatus']; processingStage?: Receipt['processingStage']; processingError?: string }): string {
+    if (status.processingStatus === 'failed') {
+        return `Processing failed: ${status.processingError || 'Unknown error'}`;
+    }
+    const label = status.processingStage ? processingStageLabels[status.processingStage] : 'Processing';
+    // A pending receipt with an error is waiting to retry
+    return status.processingError ? `${label} (retrying after an error)` : `${label}...`;
+}
+
+// Poll a receipt's status until processing finishes, updating its card as it goes
+function watchReceiptProcessing(receiptId: string): void {
+    if (processingWatchers.has(receiptId)) {
+        return;
+    }
+
+    const poll = async () => {
+        try {
+            const { status } = await getReceiptStatus(receiptId);
+
+            if (status.processingStatus === 'completed' || status.processingStatus === 'failed') {
+                stopWatchingReceipt(receiptId);
+                if (status.processingStatus === 'completed') {
+                    showToast('Receipt processed successfully!', 'success');
+                } else {
+                    showToast(describeProcessing(status), 'error');
+                }
+                await loadReceipts();
+                await loadRestaurants();
+                return;
+            }
+
+            const statusElement = document.querySelector(`[data-processing-id="${receiptId}"]`);
+            if (statusElement) {
+                statusElement.textContent = describeProcessing(status);
+            }
+        } catch (error) {
+            // Receipt deleted or we were logged out - stop polling
+            console.error('Error checking receipt status:', error);
+            stopWatchingReceipt(receiptId);
+        }
+    };
+
+    processingWatchers.set(receiptId, window.setInterval(poll, PROCESSING_POLL_INTERVAL));
+}
+
+function stopWatchingReceipt(receiptId: string): void {
+    const timer = processingWatchers.get(receiptId);
+    if (timer !== undefined) {
+        window.clearInterval(timer);
+        processingWatchers.delete(receiptId);
+    }
+}
+
+function stopWatchingReceipts(): void {
+    for (const receiptId of [...processingWatchers.keys()]) {
+        stopWatchingReceipt(receiptId);
+    }
+}
+
+async function retryProcessing(receiptId: string, event?: Event): Promise<void> {
+    event?.stopPropagation();
+    try {
+        await retryReceiptProcessing(receiptId);
+        showToast('Processing the receipt again...', 'info');
+        await loadReceipts();
+    } catch (error) {
+        showToast((error as Error).message, 'error');
+    }
+}
+
+(window as any).retryProcessing = retryProcessing;
+
+function displayProcessingReceipt(receipt: Receipt): string {
+    const failed = receipt.processingStatus === 'failed';
+
+    return `
+        <div class="receipt-card receipt-card-processing">
+            <div class="receipt-header">
+                <div class="receipt-restaurant">${failed ? 'Receipt could not be read' : 'Processing receipt'}</div>
+            </div>
+            <div class="receipt-date">Uploaded ${new Date(receipt.createdAt).toLocaleString()}</div>
+            <div class="receipt-processing ${failed ? 'failed' : ''}" data-processing-id="${receipt._id}">
+                ${describeProcessing(receipt)}
+            </div>
+            ${failed ? `
+                <div class="receipt-actions">
+                    <button class="btn-primary" onclick="retryProcessing('${receipt._id}', event)">Try Again</button>
+                </div>
+            ` : ''}
+            <button class="delete-icon" onclick="confirmDeleteReceipt('${receipt._id}', 'this receipt', event)" title="Delete receipt">
+                🗑️
+            </button>
+        </div>
+    `;
+}
+
 function displayReceipts(receipts: Receipt[]): void {
     console.log('displayReceipts called with', receipts.length, 'receipts');
     if (receipts.length === 0) {
@@ -1787,14 +2917,17 @@ function displayReceipts(receipts: Receipt[]): void {
         return;
     }
 
-    elements.receiptsList.innerHTML = receipts.map(receipt => `
+    elements.receiptsList.innerHTML = receipts.map(receipt => receipt.processingStatus !== 'completed' ? displayProcessingReceipt(receipt) : `
         <div class="receipt-card">
             <div class="receipt-header" onclick="showReceiptDetails('${receipt._id}')">
                 <div class="receipt-restaurant">${receipt.restaurantName}</div>
-                <div class="receipt-total">$${receipt.total?.toFixed(2) || '0.00'}</div>
+                <div class="receipt-total">${formatMoney(receipt.total || 0, receipt.currency)}</div>
             </div>
             <div class="receipt-date">${new Date(receipt.date).toLocaleDateString()}</div>
             <div class="receipt-items">${receipt.items?.length || 0} items</div>
+            ${receipt.reconciliation?.status === 'mismatch' && !receipt.reconciliation.acknowledgedAt ? `
+                <div class="reconciliation-badge" title="${receipt.reconciliation.issues.map(issue => issue.message).join('\n')}">⚠ Totals don't add up</div>
+            ` : ''}
             <div class="receipt-actions">
                 <button class="btn-secondary" onclick="showReceiptDetails('${receipt._id}')">View Details</button>
                 <button class="btn-primary" onclick="openBillSplitting('${receipt._id}')">Split Bill</button>
@@ -1811,6 +2944,11 @@ function displayReceipts(receipts: Receipt[]): void {
             ` : ''}
         </div>
     `).join('');
+
+    // Keep polling anything still being processed (e.g. after a page reload)
+    receipts
+        .filter(receipt => receipt.processingStatus === 'pending' || receipt.processingStatus === 'processing')
+        .forEach(receipt => watchReceiptProcessing(receipt._id));
 }
 
 async function showReceiptDetails(receiptId: string): Promise<void> {
@@ -1823,45 +2961,85 @@ async function showReceiptDetails(receiptId: string): Promise<void> {
         elements.receiptDetails.innerHTML = `
             <h3>${receipt.restaurantName}</h3>
             <p><strong>Date:</strong> ${new Date(receipt.date).toLocaleDateString()}</p>
-            <p><strong>Total:</strong> $${receipt.total?.toFixed(2) || '0.00'}</p>
+            <p><strong>Total:</strong> ${formatMoney(receipt.total || 0, receipt.currency)}</p>
+            ${receipt.currency && receipt.currency !== (currentUser?.homeCurrency || 'USD') ? `<p><strong>Currency:</strong> ${receipt.currency}</p>` : ''}
+            ${receipt.ocrConfidence !== undefined ? `<p><strong>Extraction confidence:</strong> ${Math.round(receipt.ocrConfidence)}%</p>` : ''}
+            ${(receipt.processingWarnings || []).map(warning => `<p class="processing-warning">⚠ ${warning}</p>`).join('')}
 
             <h4>Items:</h4>
             <div style="max-height: 300px; overflow-y: auto;">
                 ${receipt.items?.map(item => `
                     <div style="display: flex; justify-content: space-between; padding: 0.5rem 0; border-bottom: 1px solid #eee;">
-                        <span>${item.name} (x${item.quantity})</span>
-                        <span>$${item.price?.toFixed(2) || '0.00'}</span>
+                        <span>${item.name} (x${item.quantity})${renderConfidenceFlag(item)}${renderTaxCategory(item)}</span>
+                        <span>${formatMoney(item.price || 0, receipt.currency)}</span>
                     </div>
+                    ${(item.adjustments || []).map(adjustment => `
+                        <div class="discount-line" style="display: flex; justify-content: space-between; padding: 0.25rem 0 0.25rem 1rem;">
+                            <span>${adjustment.name}</span>
+                            <span>−${formatMoney(adjustment.amount, receipt.currency)}</span>
+                        </div>
+                    `).join('')}
                 `).join('') || '<p>No items found</p>'}
             </div>
 
             <div style="margin-top: 1rem; padding-top: 1rem; border-top: 2px solid #eee;">
                 <div style="display: flex; justify-content: space-between;">
                     <span>Subtotal:</span>
-                    <span>$${receipt.subtotal?.toFixed(2) || '0.00'}</span>
-                </div>
-                <div style="display: flex; justify-content: space-between;">
-                    <span>Tax:</span>
-                    <span>$${receipt.tax?.toFixed(2) || '0.00'}</span>
+                    <span>${formatMoney(receipt.subtotal || 0, receipt.currency)}</span>
                 </div>
+                ${(receipt.adjustments || []).map(adjustment => `
+                    <div class="discount-line" style="display: flex; justify-content: space-between;">
+                        <span>${adjustment.name}:</span>
+                        <span>−${formatMoney(adjustment.amount, receipt.currency)}</span>
+                    </div>
+                `).join('')}
+                ${(receipt.charges || []).map(charge => `
+                    <div style="display: flex; justify-content: space-between;">
+                        <span>${charge.name}:</span>
+                        <span>${formatMoney(charge.amount, receipt.currency)}</span>
+                    </div>
+                `).join('')}
+                ${receipt.taxLines && receipt.taxLines.length > 1 ? receipt.taxLines.map(taxLine => `
+                    <div style="display: flex; justify-content: space-between;">
+                        <span>${taxLine.name}:</span>
+                        <span>${formatMoney(taxLine.amount, receipt.currency)}</span>
+                    </div>
+                `).join('') : `
+                    <div style="display: flex; justify-content: space-between;">
+                        <span>Tax:</span>
+                        <span>${formatMoney(receipt.tax || 0, receipt.currency)}</span>
+                    </div>
+                `}
                 <div style="display: flex; justify-content: space-between;">
-                    <span>Tip:</span>
-                    <span>$${receipt.tip?.toFixed(2) || '0.00'}</span>
+                    <span>Tip${receipt.tipPercentage !== undefined ? ` (${receipt.tipPercentage}% ${receipt.tipBasis === 'post_tax' ? 'after' : 'before'} tax)` : ''}:</span>
+                    <span>${formatMoney(receipt.tip || 0, receipt.currency)}</span>
                 </div>
                 <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 1.1rem;">
                     <span>Total:</span>
-                    <span>$${receipt.total?.toFixed(2) || '0.00'}</span>
+                    <span>${formatMoney(receipt.total || 0, receipt.currency)}</span>
                 </div>
+                ${receipt.printedTotal !== undefined && receipt.printedTotal !== receipt.total ? `
+                    <div style="display: flex; justify-content: space-between; color: #666;">
+                        <span>Printed total:</span>
+                        <span>${formatMoney(receipt.printedTotal, receipt.currency)}</span>
+                    </div>
+                ` : ''}
             </div>
 
+            <div id="reconciliationNotice">${renderReconciliationNotice(receipt._id, receipt.reconciliation)}</div>
+
             ${receipt.signedImageUrl ? `
                 <div style="margin-top: 1rem;">
                     <img src="${receipt.signedImageUrl}" alt="Receipt" style="max-width: 100%; height: auto; border-radius: 5px;">
                 </div>
             ` : ''}
+
+            <div id="reprocessPanel" class="reprocess-panel"></div>
         `;
 
         elements.receiptModal.classList.remove('hidden');
+        stopWatchingReprocess();
+        await renderReprocessPanel(receiptId);
     } catch (error) {
         showToast('Failed to load receipt details', 'error');
     } finally {
@@ -1872,11 +3050,291 @@ async function showReceiptDetails(receiptId: string): Promise<void> {
 // Make function global for onclick handlers
 (window as any).showReceiptDetails = showReceiptDetails;
 
+// Re-processing: re-run OCR/parsing, review the changes, then apply or discard
+let reprocessWatcher: number | null = null;
+
+function stopWatchingReprocess(): void {
+    if (reprocessWatcher !== null) {
+        window.clearInterval(reprocessWatcher);
+        reprocessWatcher = null;
+    }
+}
+
+async function renderReprocessPanel(receiptId: string): Promise<void> {
+    const panel = document.getElementById('reprocessPanel');
+    if (!panel) {
+        return;
+    }
+
+    let result: ReprocessResponse | null = null;
+    try {
+        result = await getReprocessResult(receiptId);
+    } catch {
+        // No reprocess request yet
+    }
+
+    const status = result?.reprocess.status;
+
+    if (status === 'queued' || status === 'processing') {
+        panel.innerHTML = `<p class="reprocess-status">Re-processing receipt (${result!.reprocess.mode === 'parse' ? 're-reading text' : 're-scanning image'})...</p>`;
+        if (reprocessWatcher === null) {
+            reprocessWatcher = window.setInterval(() => {
+                if (elements.receiptModal.classList.contains('hidden')) {
+                    stopWatchingReprocess();
+                    return;
+                }
+                renderReprocessPanel(receiptId);
+            }, PROCESSING_POLL_INTERVAL);
+        }
+        return;
+    }
+
+    stopWatchingReprocess();
+
+    if (status === 'ready' && result?.diff) {
+        panel.innerHTML = renderReprocessDiff(receiptId, result.diff);
+        return;
+    }
+
+    panel.innerHTML = `
+        ${status === 'failed' ? `<p class="reprocess-status failed">Re-processing failed: ${result!.reprocess.error || 'Unknown error'}</p>` : ''}
+        <details class="reprocess-form">
+            <summary>Items look wrong? Re-process this receipt</summary>
+            <div class="form-group">
+                <label for="reprocessMode">What to redo</label>
+                <select id="reprocessMode">
+                    <option value="full">Re-scan the image and re-read the items</option>
+                    <option value="parse">Only re-read the items from the scanned text</option>
+                </select>
+            </div>
+            <div class="form-group">
+                <label for="reprocessParser">Parser</label>
+                <select id="reprocessParser">
+                    <option value="">Default</option>
+                    <option value="openai">OpenAI</option>
+                    <option value="local">Local model</option>
+                    <option value="mock">Simple pattern matching</option>
+                </select>
+            </div>
+            <div class="form-group">
+                <label for="reprocessHint">Hint (optional)</label>
+                <input type="text" id="reprocessHint" maxlength="500" placeholder='e.g. "prices are in EUR" or "items are on the right"'>
+            </div>
+            <button class="btn-primary" onclick="startReprocess('${receiptId}')">Re-process</button>
+        </details>
+    `;
+}
+
+function renderReprocessDiff(receiptId: string, diff: ReprocessDiff): string {
+    // Current amounts are in the receipt's currency as it is now, re-processed ones in the (possibly new) detected currency
+    const currencyChange = diff.fields.find(field => field.field === 'currency');
+    const currentCurrency = currencyChange ? String(currencyChange.before) : diff.currency;
+    const describeItem = (item: { name: string; quantity: number; price: number } | undefined, currency: string) =>
+        item ? `${item.name} (x${item.quantity}) ${formatMoney(item.price, currency)}` : '';
+    const describeField = (field: ReprocessDiff['fields'][number]) => typeof field.before === 'number' && typeof field.after === 'number'
+        ? `${formatMoney(field.before, currentCurrency)} → ${formatMoney(field.after, diff.currency)}`
+        : `${field.before} → ${field.after}`;
+
+    const fieldLabels: Record<string, string> = {
+        restaurantName: 'Restaurant', date: 'Date', currency: 'Currency', subtotal: 'Subtotal', tax: 'Tax', tip: 'Tip', total: 'Total'
+    };
+
+    return `
+        <h4>Review re-processed receipt</h4>
+        <p class="reprocess-summary">
+            ${diff.summary.unchanged} unchanged, ${diff.summary.modified} changed,
+            ${diff.summary.added} new, ${diff.summary.removed} removed
+            ${diff.summary.assignmentsLost > 0 ? `<br><strong>${diff.summary.assignmentsLost} assigned item(s) will lose their people.</strong>` : ''}
+        </p>
+        ${diff.fields.length > 0 ? `
+            <div class="diff-fields">
+                ${diff.fields.map(field => `
+                    <div class="diff-row modified">
+                        <span>${fieldLabels[field.field] || field.field}</span>
+                        <span>${describeField(field)}</span>
+                    </div>
+                `).join('')}
+            </div>
+        ` : ''}
+        <div class="diff-items">
+            ${diff.items.map(item => `
+                <div class="diff-row ${item.change}">
+                    <span class="diff-badge">${item.change}</span>
+                    <span>
+                        ${item.change === 'modified'
+                            ? `${describeItem(item.before, currentCurrency)} → ${describeItem(item.after, diff.currency)}`
+                            : item.after ? describeItem(item.after, diff.currency) : describeItem(item.before, currentCurrency)}
+                        ${item.keepsAssignment ? '<em>(keeps its people)</em>' : ''}
+                        ${item.change === 'removed' && item.assignedTo.length > 0 ? '<em>(assignment will be removed)</em>' : ''}
+                    </span>
+                </div>
+            `).join('')}
+        </div>
+        <p class="reprocess-summary">
+            ${diff.reconciliation.status === 'balanced'
+                ? '✅ The re-processed amounts add up.'
+                : `⚠ ${diff.reconciliation.issues.map(issue => issue.message).join('<br>⚠ ')}`}
+        </p>
+        <div class="receipt-actions">
+            <button class="btn-primary" onclick="applyReprocessResult('${receiptId}')">Apply Changes</button>
+            <button class="btn-secondary" onclick="discardReprocessResult('${receiptId}')">Discard</button>
+        </div>
+    `;
+}
+
+async function startReprocess(receiptId: string): Promise<void> {
+    const mode = (document.getElementById('reprocessMode') as HTMLSelectElement).value as 'full' | 'parse';
+    const parser = (document.getElementById('reprocessParser') as HTMLSelectElement).value;
+    const hint = (document.getElementById('reprocessHint') as HTMLInputElement).value.trim();
+
+    try {
+        await requestReprocess(receiptId, {
+            mode,
+            ...(parser && { parser }),
+            ...(hint && { hint })
+        });
+        await renderReprocessPanel(receiptId);
+    } catch (error) {
+        showToast((error as Error).message, 'error');
+    }
+}
+
+async function applyReprocessResult(receiptId: string): Promise<void> {
+    try {
+        showLoading();
+        await applyReprocess(receiptId);
+        showToast('Receipt updated', 'success');
+        await loadReceipts();
+        await loadRestaurants();
+        await showReceiptDetails(receiptId);
+    } catch (error) {
+        showToast((error as Error).message, 'error');
+    } finally {
+        hideLoading();
+    }
+}
+
+async function discardReprocessResult(receiptId: string): Promise<void> {
+    try {
+        await discardReprocess(receiptId);
+        await renderReprocessPanel(receiptId);
+    } catch (error) {
+        showToast((error as Error).message, 'error');
+    }
+}
+
+(window as any).startReprocess = startReprocess;
+(window as any).applyReprocessResult = applyReprocessResult;
+(window as any).discardReprocessResult = discardReprocessResult;
+
+// Warn when the items, subtotal, tax, tip and total don't add up, with the likely causes
+function renderReconciliationNotice(receiptId: string, reconciliation?: Reconciliation): string {
+    if (!reconciliation || reconciliation.status === 'balanced') {
+        return '';
+    }
+
+    if (reconciliation.acknowledgedAt) {
+        return `<p class="reconciliation-accepted">Amounts accepted as printed on ${new Date(reconciliation.acknowledgedAt).toLocaleDateString()}</p>`;
+    }
+
+    return `
+        <div class="reconciliation-notice">
+            <h4>⚠ These amounts don't add up</h4>
+            ${reconciliation.issues.map(issue => `
+                <div class="reconciliation-issue">
+                    <p>${issue.message}</p>
+                    <ul>
+                        ${issue.suggestions.map(suggestion => `<li>${suggestion.message}</li>`).join('')}
+                    </ul>
+                </div>
+            `).join('')}
+            <p class="reconciliation-help">Fix the items or totals, re-process the receipt, or accept the amounts if they match the paper receipt.</p>
+            <button class="btn-secondary" onclick="acceptReceiptAmounts('${receiptId}')">Amounts are right as printed</button>
+        </div>
+    `;
+}
+
+async function acceptReceiptAmounts(receiptId: string): Promise<void> {
+    try {
+        const result = await acknowledgeReconciliation(receiptId);
+
+        if (currentReceipt && currentReceipt._id === receiptId) {
+            currentReceipt.reconciliation = result.reconciliation;
+            currentReceipt.isComplete = result.isComplete;
+        }
+
+        ['reconciliationNotice', 'splitReconciliationNotice'].forEach(id => {
+            const container = document.getElementById(id);
+            if (container) {
+                container.innerHTML = renderReconciliationNotice(receiptId, result.reconciliation);
+            }
+        });
+
+        showToast(result.message, 'success');
+        loadReceipts();
+    } catch (error) {
+        showToast((error as Error).message, 'error');
+    }
+}
+
+(window as any).acceptReceiptAmounts = acceptReceiptAmounts;
+
 
 // File Upload Visual Feedback - moved to DOMContentLoaded to prevent duplication
 
+// Reset token from an emailed password reset link (?resetToken=...)
+let pendingResetToken: string | null = null;
+
+// Pick up profile changes made elsewhere (e.g. the email was verified on another device)
+async function syncCurrentUser(): Promise<void> {
+    try {
+        const result = await getCurrentUser();
+        if (!currentUser) return;
+
+        currentUser = { ...currentUser, ...result.user };
+        localStorage.setItem('splitbite_user', JSON.stringify(currentUser));
+        updateNavigation();
+    } catch (error) {
+        console.error('Error refreshing user profile:', error);
+    }
+}
+
+async function handleEmailVerificationLink(token: string): Promise<void> {
+    try {
+        showLoading();
+        const result = await verifyEmail(token);
+
+        if (currentUser && currentUser.email === result.email) {
+            currentUser.emailVerified = true;
+            localStorage.setItem('splitbite_user', JSON.stringify(currentUser));
+            updateNavigation();
+        }
+
+        showToast('Email verified successfully!', 'success');
+    } catch (error) {
+        showToast((error as Error).message, 'error');
+    } finally {
+        hideLoading();
+    }
+}
+
 // Initialize App
 function initApp(): void {
+    const params = new URLSearchParams(window.location.search);
+    pendingResetToken = params.get('resetToken');
+    if (pendingResetToken) {
+        // Keep the token out of the address bar and browser history
+        window.history.replaceState({}, document.title, window.location.pathname);
+        showSection('resetPasswordSection');
+        updateNavigation();
+        return;
+    }
+
+    const verifyToken = params.get('verifyToken');
+    if (verifyToken) {
+        window.history.replaceState({}, document.title, window.location.pathname);
+    }
+
     // Check for stored user
     const storedUser = localStorage.getItem('splitbite_user');
     if (storedUser) {
@@ -1886,6 +3344,9 @@ function initApp(): void {
             updateNavigation();
             showSection('dashboard');
             loadDashboard();
+            if (!verifyToken) {
+                syncCurrentUser();
+            }
         } catch (error) {
             console.error('Error parsing stored user:', error);
             localStorage.removeItem('splitbite_user');
@@ -1897,6 +3358,10 @@ function initApp(): void {
     }
 
     updateNavigation();
+
+    if (verifyToken) {
+        handleEmailVerificationLink(verifyToken);
+    }
 }
 
 // Split Modal Event Listeners
@@ -1924,14 +3389,112 @@ document.addEventListener('DOMContentLoaded', () => {
         showSection('loginSection');
     });
 
-    buttons.logout?.addEventListener('click', () => {
-        currentUser = null;
-        localStorage.removeItem('splitbite_user');
-        updateNavigation();
+    buttons.forgotPassword?.addEventListener('click', (e: Event) => {
+        e.preventDefault();
+        showSection('forgotPasswordSection');
+    });
+
+    buttons.backToLogin?.addEventListener('click', (e: Event) => {
+        e.preventDefault();
+        showSection('loginSection');
+    });
+
+    buttons.changePassword?.addEventListener('click', () => {
+        forms.changePassword?.reset();
+        elements.homeCurrency.value = currentUser?.homeCurrency || 'USD';
+        showSection('changePasswordSection');
+    });
+
+    elements.homeCurrency?.addEventListener('change', async () => {
+        try {
+            showLoading();
+            const result = await updatePreferences(elements.homeCurrency.value);
+
+            if (currentUser) {
+                currentUser.homeCurrency = result.homeCurrency;
+                localStorage.setItem('splitbite_user', JSON.stringify(currentUser));
+            }
+            loadRestaurants(); // Totals were converted to the new currency
+            showToast(`Home currency set to ${result.homeCurrency}`, 'success');
+        } catch (error) {
+            elements.homeCurrency.value = currentUser?.homeCurrency || 'USD';
+            showToast((error as Error).message, 'error');
+        } finally {
+            hideLoading();
+        }
+    });
+
+    buttons.cancelChangePassword?.addEventListener('click', (e: Event) => {
+        e.preventDefault();
+        showSection('dashboard');
+    });
+
+    buttons.exportAccount?.addEventListener('click', async () => {
+        try {
+            showLoading();
+            const blob = await downloadAccountExport();
+
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `splitbite_export_${new Date().toISOString().split('T')[0]}.zip`;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+
+            showToast('Your data export has been downloaded', 'success');
+        } catch (error) {
+            showToast(`Failed to export data: ${(error as Error).message}`, 'error');
+        } finally {
+            hideLoading();
+        }
+    });
+
+    buttons.deleteAccount?.addEventListener('click', async () => {
+        const password = prompt(
+            'This will delete your account along with all receipts, receipt images and restaurant history.\n\n' +
+            'Enter your password to confirm:'
+        );
+        if (!password) return;
+
+        try {
+            showLoading();
+            const result = await deleteAccount(password);
+
+            // Deleting the account logged out every session
+            clearStoredUser();
+            showSection('landing');
+            alert(result.message);
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        } finally {
+            hideLoading();
+        }
+    });
+
+    buttons.logout?.addEventListener('click', async () => {
+        try {
+            await logout();
+        } catch (error) {
+            // Still log out locally if the server session is already gone
+            console.error('Logout error:', error);
+        }
+
+        clearStoredUser();
         showSection('landing');
         showToast('Logged out successfully', 'success');
     });
 
+    buttons.resendVerification?.addEventListener('click', async () => {
+        try {
+            const result = await resendVerificationEmail();
+            showToast(result.message, 'success');
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        }
+    });
+
     buttons.upload?.addEventListener('click', () => {
         // Reset the form and file input when opening upload section
         forms.upload?.reset();
@@ -1973,7 +3536,9 @@ document.addEventListener('DOMContentLoaded', () => {
                 id: result.user.id,
                 name: result.user.name,
                 email: result.user.email,
+                emailVerified: result.user.emailVerified,
                 token: result.token,
+                refreshToken: result.refreshToken,
                 createdAt: result.user.createdAt
             };
 
@@ -1981,7 +3546,7 @@ document.addEventListener('DOMContentLoaded', () => {
             updateNavigation();
             showSection('dashboard');
             loadDashboard();
-            showToast('Account created successfully!', 'success');
+            showToast('Account created! Check your email to verify your address.', 'success');
         } catch (error) {
             showToast((error as Error).message, 'error');
         } finally {
@@ -2006,7 +3571,9 @@ document.addEventListener('DOMContentLoaded', () => {
                 id: result.user.id,
                 name: result.user.name,
                 email: result.user.email,
+                emailVerified: result.user.emailVerified,
                 token: result.token,
+                refreshToken: result.refreshToken,
                 createdAt: result.user.createdAt
             };
 
@@ -2015,6 +3582,96 @@ document.addEventListener('DOMContentLoaded', () => {
             showSection('dashboard');
             loadDashboard();
             showToast('Logged in successfully!', 'success');
+
+            if (result.pendingDeletion) {
+                const deletionDate = new Date(result.pendingDeletion.scheduledFor).toLocaleDateString();
+                const keepAccount = confirm(
+                    `Your account is scheduled to be permanently deleted on ${deletionDate}.\n\n` +
+                    `Click OK to keep your account, or Cancel to continue with the deletion.`
+                );
+
+                if (keepAccount) {
+                    await cancelAccountDeletion();
+                    showToast('Account deletion cancelled', 'success');
+                }
+            }
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        } finally {
+            hideLoading();
+        }
+    });
+
+    forms.forgotPassword?.addEventListener('submit', async (e: Event) => {
+        e.preventDefault();
+
+        const emailInput = document.getElementById('forgotEmail') as HTMLInputElement;
+
+        try {
+            showLoading();
+            const result = await requestPasswordReset(emailInput.value);
+            forms.forgotPassword.reset();
+            showSection('loginSection');
+            showToast(result.message, 'success');
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        } finally {
+            hideLoading();
+        }
+    });
+
+    forms.resetPassword?.addEventListener('submit', async (e: Event) => {
+        e.preventDefault();
+
+        const passwordInput = document.getElementById('resetPassword') as HTMLInputElement;
+        const confirmInput = document.getElementById('resetPasswordConfirm') as HTMLInputElement;
+
+        if (!pendingResetToken) {
+            showToast('Reset link is missing or has already been used', 'error');
+            showSection('forgotPasswordSection');
+            return;
+        }
+
+        if (passwordInput.value !== confirmInput.value) {
+            showToast('Passwords do not match', 'error');
+            return;
+        }
+
+        try {
+            showLoading();
+            const result = await resetPassword(pendingResetToken, passwordInput.value);
+            pendingResetToken = null;
+            forms.resetPassword.reset();
+
+            // The reset logged out every session, including this browser's
+            clearStoredUser();
+            showSection('loginSection');
+            showToast(result.message, 'success');
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        } finally {
+            hideLoading();
+        }
+    });
+
+    forms.changePassword?.addEventListener('submit', async (e: Event) => {
+        e.preventDefault();
+
+        const currentInput = document.getElementById('currentPassword') as HTMLInputElement;
+        const newInput = document.getElementById('newPassword') as HTMLInputElement;
+        const confirmInput = document.getElementById('newPasswordConfirm') as HTMLInputElement;
+
+        if (newInput.value !== confirmInput.value) {
+            showToast('Passwords do not match', 'error');
+            return;
+        }
+
+        try {
+            showLoading();
+            await changePassword(currentInput.value, newInput.value);
+            forms.changePassword.reset();
+            showSection('dashboard');
+            showToast('Password changed. Other devices have been logged out.', 'success');
         } catch (error) {
             showToast((error as Error).message, 'error');
         } finally {
@@ -2072,7 +3729,7 @@ document.addEventListener('DOMContentLoaded', () => {
 
             const result = await uploadReceipt(file);
 
-            showToast('Receipt uploaded and processed successfully!', 'success');
+            showToast('Receipt uploaded! Reading it now...', 'info');
             elements.uploadSection?.classList.add('hidden');
 
             // Reset form and file input
@@ -2085,9 +3742,9 @@ document.addEventListener('DOMContentLoaded', () => {
                 submitBtn.textContent = 'Upload & Process';
             }
 
-            // Refresh the lists
+            // Show the pending receipt and follow its progress
             await loadReceipts();
-            await loadRestaurants();
+            watchReceiptProcessing(result.receipt.id);
         } catch (error) {
             console.error('Upload error:', error);
             showToast((error as Error).message, 'error');